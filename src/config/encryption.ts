@@ -0,0 +1,64 @@
+import crypto from "crypto";
+import { TokenEncryptionConfig } from "../types/mailchimp";
+
+// Parse TOKEN_ENCRYPTION_KEYS ("keyId:base64Key,keyId:base64Key")
+const parseKeys = (value: string): Record<string, Buffer> => {
+  const keys: Record<string, Buffer> = {};
+
+  for (const entry of value.split(",")) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+
+    const separator = trimmed.indexOf(":");
+    if (separator <= 0) {
+      throw new Error(`Invalid TOKEN_ENCRYPTION_KEYS entry: "${trimmed}"`);
+    }
+
+    const keyId = trimmed.slice(0, separator);
+    const key = Buffer.from(trimmed.slice(separator + 1), "base64");
+    if (key.length !== 32) {
+      throw new Error(`Encryption key "${keyId}" must be 32 bytes (base64)`);
+    }
+
+    keys[keyId] = key;
+  }
+
+  return keys;
+};
+
+// Generated once per process when TOKEN_ENCRYPTION_KEYS is not set, so every
+// TokenCipher can open what another one sealed
+let ephemeralKey: Buffer | null = null;
+
+export const getTokenEncryptionConfig = (): TokenEncryptionConfig => {
+  const configuredKeys = process.env.TOKEN_ENCRYPTION_KEYS;
+
+  if (!configuredKeys) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("TOKEN_ENCRYPTION_KEYS must be set in production");
+    }
+
+    if (!ephemeralKey) {
+      console.warn(
+        "⚠️  TOKEN_ENCRYPTION_KEYS not set, using an ephemeral key (stored sessions will not survive a restart)"
+      );
+      ephemeralKey = crypto.randomBytes(32);
+    }
+    return {
+      currentKeyId: "ephemeral",
+      keys: { ephemeral: ephemeralKey },
+    };
+  }
+
+  const keys = parseKeys(configuredKeys);
+  const currentKeyId =
+    process.env.TOKEN_ENCRYPTION_KEY_ID || Object.keys(keys)[0];
+
+  if (!currentKeyId || !keys[currentKeyId]) {
+    throw new Error(
+      `Current encryption key "${currentKeyId}" is not in TOKEN_ENCRYPTION_KEYS`
+    );
+  }
+
+  return { currentKeyId, keys };
+};
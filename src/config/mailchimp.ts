@@ -1,4 +1,14 @@
-import { MailChimpConfig } from "../types/mailchimp";
+import {
+  CampaignSendStep,
+  IdempotencyConfig,
+  MailChimpClientConfig,
+  MailChimpConfig,
+  OAuthStateStoreConfig,
+  SendJobConfig,
+  WebhookConfig,
+  WebhookEventType,
+  WebhookSource,
+} from "../types/mailchimp";
 
 export const getMailChimpConfig = (): MailChimpConfig => {
   return {
@@ -12,6 +22,135 @@ export const getMailChimpConfig = (): MailChimpConfig => {
   };
 };
 
+// Retry count from MAILCHIMP_MAX_RETRIES; 0 disables retries, so unlike the
+// other settings only a missing or invalid value falls back to the default
+const parseMaxRetries = (value: string | undefined): number => {
+  const retries = Number(value);
+  return value?.trim() && Number.isInteger(retries) && retries >= 0
+    ? retries
+    : 3;
+};
+
+export const getMailChimpClientConfig = (): MailChimpClientConfig => {
+  return {
+    maxConcurrent: Number(process.env.MAILCHIMP_MAX_CONCURRENT) || 10,
+    timeoutMs: Number(process.env.MAILCHIMP_TIMEOUT_MS) || 15 * 1000,
+    maxRetries: parseMaxRetries(process.env.MAILCHIMP_MAX_RETRIES),
+    retryBaseDelayMs: Number(process.env.MAILCHIMP_RETRY_BASE_DELAY_MS) || 500,
+    retryMaxDelayMs:
+      Number(process.env.MAILCHIMP_RETRY_MAX_DELAY_MS) || 30 * 1000,
+  };
+};
+
+// Webhook callbacks default to the host serving the OAuth redirect, since
+// MailChimp already has to reach it
+export const getWebhookConfig = (): WebhookConfig => {
+  return {
+    baseUrl: (
+      process.env.WEBHOOK_BASE_URL ||
+      new URL(getMailChimpConfig().redirectUri).origin
+    ).replace(/\/+$/, ""),
+    // A lost registration leaves MailChimp calling a URL nothing answers, so
+    // registrations are kept on disk unless memory is asked for explicitly
+    storeDriver: process.env.WEBHOOK_STORE === "memory" ? "memory" : "file",
+    storeFilePath: process.env.WEBHOOK_STORE_PATH || "./data/webhooks.json",
+  };
+};
+
+export const getIdempotencyConfig = (): IdempotencyConfig => {
+  return {
+    ttlMs: Number(process.env.IDEMPOTENCY_KEY_TTL_MS) || 24 * 60 * 60 * 1000,
+    leaseMs: Number(process.env.IDEMPOTENCY_LEASE_MS) || 10 * 60 * 1000,
+    storeDriver: process.env.IDEMPOTENCY_STORE === "file" ? "file" : "memory",
+    storeFilePath:
+      process.env.IDEMPOTENCY_STORE_PATH || "./data/idempotency.json",
+  };
+};
+
+export const getSendJobConfig = (): SendJobConfig => {
+  return {
+    // Queued jobs have already been promised to the client with a 202, so
+    // they are kept on disk unless memory is asked for explicitly
+    storeDriver: process.env.SEND_JOB_STORE === "memory" ? "memory" : "file",
+    storeFilePath: process.env.SEND_JOB_STORE_PATH || "./data/send-jobs.json",
+    pollIntervalMs: Number(process.env.SEND_JOB_POLL_INTERVAL_MS) || 5 * 1000,
+    leaseMs: Number(process.env.SEND_JOB_LEASE_MS) || 5 * 60 * 1000,
+    retentionMs:
+      Number(process.env.SEND_JOB_RETENTION_MS) || 7 * 24 * 60 * 60 * 1000,
+  };
+};
+
 export const MAILCHIMP_OAUTH_URL = "https://login.mailchimp.com/oauth2/token";
 export const MAILCHIMP_METADATA_URL =
   "https://login.mailchimp.com/oauth2/metadata";
+export const MAILCHIMP_AUTHORIZE_URL =
+  "https://login.mailchimp.com/oauth2/authorize";
+
+// How long a successful token check against MAILCHIMP_METADATA_URL is trusted
+export const TOKEN_VERIFY_CACHE_MS =
+  Number(process.env.TOKEN_VERIFY_CACHE_MS) || 60 * 1000;
+
+// Audience listing page sizes (MailChimp allows up to 1000 per request)
+export const LISTS_DEFAULT_PAGE_SIZE = 10;
+export const LISTS_MAX_PAGE_SIZE = 1000;
+
+// Segment and tag page sizes
+export const AUDIENCE_DEFAULT_PAGE_SIZE = 10;
+export const AUDIENCE_MAX_PAGE_SIZE = 1000;
+
+// Campaign report page sizes
+export const REPORTS_DEFAULT_PAGE_SIZE = 10;
+export const REPORTS_MAX_PAGE_SIZE = 1000;
+
+// Campaign scheduling rules (MailChimp schedules on quarter-hour slots, and
+// Timewarp needs the send to be at least 24 hours away)
+export const CAMPAIGN_SCHEDULE_SLOT_MINUTES = 15;
+export const TIMEWARP_MIN_LEAD_MS = 24 * 60 * 60 * 1000;
+
+// Steps of a campaign send, in the order they run
+export const CAMPAIGN_SEND_STEPS: CampaignSendStep[] = [
+  "create",
+  "content",
+  "checklist",
+  "send",
+];
+
+// MailChimp's limits on campaign settings
+export const CAMPAIGN_SUBJECT_MAX_LENGTH = 150;
+export const CAMPAIGN_FROM_NAME_MAX_LENGTH = 100;
+
+// Maximum recipients per test email
+export const CAMPAIGN_TEST_MAX_RECIPIENTS =
+  Number(process.env.CAMPAIGN_TEST_MAX_RECIPIENTS) || 10;
+
+// Member import settings (MailChimp accepts up to 500 members per batch-subscribe call)
+export const IMPORT_BATCH_SIZE = 500;
+// Batch subscribes process up to 500 members, so they get longer than other calls
+export const IMPORT_BATCH_TIMEOUT_MS =
+  Number(process.env.IMPORT_BATCH_TIMEOUT_MS) || 60 * 1000;
+export const IMPORT_MAX_UPLOAD = process.env.IMPORT_MAX_UPLOAD || "20mb";
+export const IMPORT_MAX_ROW_ERRORS = 1000;
+
+// OAuth state settings
+export const OAUTH_STATE_TTL_MS =
+  Number(process.env.OAUTH_STATE_TTL_MS) || 10 * 60 * 1000;
+export const OAUTH_BINDING_COOKIE = "mc_oauth_binding";
+
+// Where states are kept between /connect and its callback
+export const getOAuthStateStoreConfig = (): OAuthStateStoreConfig => {
+  return {
+    driver: process.env.OAUTH_STATE_STORE === "file" ? "file" : "memory",
+    filePath: process.env.OAUTH_STATE_STORE_PATH || "./data/oauth-states.json",
+  };
+};
+
+// Webhook events and change sources MailChimp can report
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+  "subscribe",
+  "unsubscribe",
+  "profile",
+  "upemail",
+  "cleaned",
+  "campaign",
+];
+export const WEBHOOK_SOURCES: WebhookSource[] = ["user", "admin", "api"];
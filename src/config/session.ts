@@ -0,0 +1,57 @@
+import crypto from "crypto";
+import {
+  SessionCookieConfig,
+  SessionStoreConfig,
+  SessionTtlConfig,
+} from "../types/mailchimp";
+
+export const getSessionStoreConfig = (): SessionStoreConfig => {
+  return {
+    driver: process.env.SESSION_STORE === "file" ? "file" : "memory",
+    filePath: process.env.SESSION_STORE_PATH || "./data/sessions.json",
+  };
+};
+
+export const getSessionTtlConfig = (): SessionTtlConfig => {
+  return {
+    absoluteTtlMs:
+      Number(process.env.SESSION_ABSOLUTE_TTL_MS) || 7 * 24 * 60 * 60 * 1000,
+    idleTtlMs: Number(process.env.SESSION_IDLE_TTL_MS) || 24 * 60 * 60 * 1000,
+    sweepIntervalMs:
+      Number(process.env.SESSION_SWEEP_INTERVAL_MS) || 5 * 60 * 1000,
+  };
+};
+
+// Generated once per process when SESSION_COOKIE_SECRET is not set
+let ephemeralCookieSecret: string | null = null;
+
+export const getSessionCookieConfig = (): SessionCookieConfig => {
+  const enabled = process.env.SESSION_TRANSPORT === "cookie";
+  const sameSite =
+    process.env.SESSION_COOKIE_SAMESITE === "none" ||
+    process.env.SESSION_COOKIE_SAMESITE === "strict"
+      ? process.env.SESSION_COOKIE_SAMESITE
+      : "lax";
+
+  let secret = process.env.SESSION_COOKIE_SECRET;
+  if (!secret) {
+    if (enabled && process.env.NODE_ENV === "production") {
+      throw new Error("SESSION_COOKIE_SECRET must be set in production");
+    }
+    ephemeralCookieSecret =
+      ephemeralCookieSecret || crypto.randomBytes(32).toString("hex");
+    secret = ephemeralCookieSecret;
+  }
+
+  return {
+    enabled,
+    name: process.env.SESSION_COOKIE_NAME || "mc_session",
+    secret,
+    sameSite,
+    // Browsers reject SameSite=None cookies that aren't Secure
+    secure: sameSite === "none" || process.env.NODE_ENV === "production",
+  };
+};
+
+// Minimum time between lastUsedAt writes, to avoid a store write per request
+export const SESSION_TOUCH_INTERVAL_MS = 60 * 1000;
@@ -41,6 +41,20 @@ const options = {
               type: "string",
               description: "Optional message providing additional information",
             },
+            code: {
+              type: "string",
+              description: "Machine-readable error code, present on errors",
+            },
+            errors: {
+              type: "array",
+              items: {
+                $ref: "#/components/schemas/FieldError",
+              },
+              description: "Per-field problems, present on validation errors",
+            },
+            details: {
+              $ref: "#/components/schemas/MailChimpProblem",
+            },
             data: {
               description: "Response data, can be any type",
             },
@@ -59,11 +73,36 @@ const options = {
             },
             state: {
               type: "string",
-              description: "State parameter for CSRF protection",
-              example: "random-state-string",
+              description:
+                "State issued by GET /api/mailchimp/connect (CSRF protection)",
+              example: "Zk3v...",
+            },
+          },
+          required: ["code", "state"],
+        },
+
+        ConnectResponse: {
+          type: "object",
+          properties: {
+            message: {
+              type: "string",
+              example: "OAuth connection initiated",
+            },
+            authorizeUrl: {
+              type: "string",
+              description: "MailChimp authorization URL to send the user to",
+            },
+            state: {
+              type: "string",
+              description: "Single-use OAuth state embedded in authorizeUrl",
+            },
+            expiresAt: {
+              type: "string",
+              format: "date-time",
+              description: "When the state stops being accepted",
             },
           },
-          required: ["code"],
+          required: ["message", "authorizeUrl", "state", "expiresAt"],
         },
 
         ConnectionStatus: {
@@ -73,6 +112,11 @@ const options = {
               type: "boolean",
               description: "Whether user is connected to MailChimp",
             },
+            accountId: {
+              type: "string",
+              description: "ID of the active MailChimp account",
+              example: "us6-12345678",
+            },
             accountName: {
               type: "string",
               description: "MailChimp account name",
@@ -83,10 +127,102 @@ const options = {
               description: "User email address",
               example: "user@example.com",
             },
+            expiresAt: {
+              type: "string",
+              format: "date-time",
+              description:
+                "When the session expires unless used again (idle timeout slides on use)",
+            },
+            sessionId: {
+              type: "string",
+              description:
+                "New session ID (returned by the token exchange in header mode only)",
+            },
+            reconnectRequired: {
+              type: "boolean",
+              description:
+                "MailChimp rejected the stored token; the user must reconnect",
+            },
+            lastVerifiedAt: {
+              type: "string",
+              format: "date-time",
+              description: "Last time the token was confirmed with MailChimp",
+            },
           },
           required: ["isConnected"],
         },
 
+        // Linked Account Types
+        MailChimpAccount: {
+          type: "object",
+          properties: {
+            accountId: {
+              type: "string",
+              description: "Linked account identifier (datacenter and user_id)",
+              example: "us6-12345678",
+            },
+            accountName: {
+              type: "string",
+              example: "Client A",
+            },
+            userEmail: {
+              type: "string",
+              example: "user@example.com",
+            },
+            dc: {
+              type: "string",
+              description: "MailChimp datacenter",
+              example: "us6",
+            },
+            connectedAt: {
+              type: "string",
+              format: "date-time",
+            },
+            isActive: {
+              type: "boolean",
+              description: "Whether this is the session's active account",
+            },
+          },
+          required: [
+            "accountId",
+            "accountName",
+            "userEmail",
+            "dc",
+            "connectedAt",
+            "isActive",
+          ],
+        },
+
+        AccountsResponse: {
+          type: "object",
+          properties: {
+            userId: {
+              type: "string",
+              description:
+                "Identifier of the session owning the linked accounts (generated when the session starts; not shared with other sessions)",
+            },
+            accounts: {
+              type: "array",
+              items: {
+                $ref: "#/components/schemas/MailChimpAccount",
+              },
+            },
+          },
+          required: ["userId", "accounts"],
+        },
+
+        ActivateAccountRequest: {
+          type: "object",
+          properties: {
+            accountId: {
+              type: "string",
+              description: "Linked account to make active",
+              example: "us6-12345678",
+            },
+          },
+          required: ["accountId"],
+        },
+
         // MailChimp List Types
         MailChimpList: {
           type: "object",
@@ -101,6 +237,11 @@ const options = {
               description: "List name",
               example: "Newsletter Subscribers",
             },
+            dateCreated: {
+              type: "string",
+              format: "date-time",
+              description: "When the list was created",
+            },
             stats: {
               type: "object",
               properties: {
@@ -109,11 +250,33 @@ const options = {
                   description: "Number of members in the list",
                   example: 1250,
                 },
+                unsubscribe_count: {
+                  type: "number",
+                  description: "Number of members who have unsubscribed",
+                  example: 48,
+                },
+                open_rate: {
+                  type: "number",
+                  description: "Average campaign open rate (percent)",
+                  example: 42.5,
+                },
+                campaign_last_sent: {
+                  type: "string",
+                  format: "date-time",
+                  nullable: true,
+                  description:
+                    "When a campaign was last sent to the list (null if never)",
+                },
               },
-              required: ["member_count"],
+              required: [
+                "member_count",
+                "unsubscribe_count",
+                "open_rate",
+                "campaign_last_sent",
+              ],
             },
           },
-          required: ["id", "name", "stats"],
+          required: ["id", "name", "dateCreated", "stats"],
         },
 
         ListsResponse: {
@@ -126,14 +289,235 @@ const options = {
               },
               description: "Array of MailChimp lists",
             },
+            total: {
+              type: "number",
+              description:
+                "Number of lists matching the query across all pages",
+              example: 12,
+            },
+            offset: {
+              type: "number",
+              description: "Offset of the first list in this page",
+              example: 0,
+            },
+            nextCursor: {
+              type: "string",
+              nullable: true,
+              description:
+                "Pass as `cursor` to fetch the next page; null on the last page",
+              example: "eyJvZmZzZXQiOjEwfQ",
+            },
+          },
+          required: ["lists", "total", "offset", "nextCursor"],
+        },
+
+        // Audience Member Types
+        AddMemberRequest: {
+          type: "object",
+          properties: {
+            accountId: {
+              type: "string",
+              description:
+                "Linked account to use (defaults to the active account)",
+            },
+            email: {
+              type: "string",
+              format: "email",
+              example: "jane@example.com",
+            },
+            status: {
+              type: "string",
+              enum: [
+                "subscribed",
+                "unsubscribed",
+                "cleaned",
+                "pending",
+                "transactional",
+              ],
+              description:
+                "Status for a new member (defaults to subscribed). With upsert, an existing member's status only changes when this is set",
+            },
+            mergeFields: {
+              type: "object",
+              additionalProperties: true,
+              description: "Merge field values keyed by merge tag",
+              example: { FNAME: "Jane", LNAME: "Doe" },
+            },
+            upsert: {
+              type: "boolean",
+              description:
+                "Update the member if the email is already on the list",
+              default: false,
+            },
+          },
+          required: ["email"],
+        },
+
+        UpdateMemberRequest: {
+          type: "object",
+          properties: {
+            accountId: {
+              type: "string",
+              description:
+                "Linked account to use (defaults to the active account)",
+            },
+            status: {
+              type: "string",
+              enum: [
+                "subscribed",
+                "unsubscribed",
+                "cleaned",
+                "pending",
+                "transactional",
+              ],
+            },
+            mergeFields: {
+              type: "object",
+              additionalProperties: true,
+              example: { FNAME: "Janet" },
+            },
+          },
+        },
+
+        ListMember: {
+          type: "object",
+          properties: {
+            id: {
+              type: "string",
+              description: "Subscriber hash (MD5 of the lowercased email)",
+              example: "62eeb292278cc15f5817cb78f7790b08",
+            },
+            email: {
+              type: "string",
+              example: "jane@example.com",
+            },
+            status: {
+              type: "string",
+              example: "subscribed",
+            },
+            mergeFields: {
+              type: "object",
+              additionalProperties: true,
+            },
+            listId: {
+              type: "string",
+              example: "1a2b3c4d5e",
+            },
+            lastChanged: {
+              type: "string",
+              format: "date-time",
+            },
+          },
+          required: ["id", "email", "status", "mergeFields", "listId"],
+        },
+
+        // Import Types
+        ImportRowError: {
+          type: "object",
+          properties: {
+            row: {
+              type: "integer",
+              description:
+                "Line number in the upload where the row starts (the CSV header is line 1)",
+              example: 42,
+            },
+            email: {
+              type: "string",
+              example: "not-an-email",
+            },
+            message: {
+              type: "string",
+              example: "Invalid or missing email",
+            },
+          },
+          required: ["row", "message"],
+        },
+
+        ImportJob: {
+          type: "object",
+          properties: {
+            jobId: {
+              type: "string",
+              example: "0f8e6c1a-3f5b-4f4e-9a57-2b8a1c5d9e10",
+            },
+            listId: {
+              type: "string",
+              example: "1a2b3c4d5e",
+            },
+            status: {
+              type: "string",
+              enum: ["queued", "running", "completed", "failed"],
+            },
+            totalRows: {
+              type: "integer",
+            },
+            processedRows: {
+              type: "integer",
+            },
+            created: {
+              type: "integer",
+              description: "Members added to the list",
+            },
+            updated: {
+              type: "integer",
+              description: "Existing members updated",
+            },
+            unchanged: {
+              type: "integer",
+              description:
+                "Existing members left as they were, because their row had no status or merge fields to apply",
+            },
+            failed: {
+              type: "integer",
+              description: "Rows rejected during validation or by MailChimp",
+            },
+            errors: {
+              type: "array",
+              items: {
+                $ref: "#/components/schemas/ImportRowError",
+              },
+            },
+            errorsTruncated: {
+              type: "boolean",
+              description: "True when more row errors occurred than are listed",
+            },
+            message: {
+              type: "string",
+              description: "Reason the job failed, if it did",
+            },
+            createdAt: {
+              type: "string",
+              format: "date-time",
+            },
+            finishedAt: {
+              type: "string",
+              format: "date-time",
+            },
           },
-          required: ["lists"],
+          required: [
+            "jobId",
+            "listId",
+            "status",
+            "totalRows",
+            "processedRows",
+            "created",
+            "updated",
+            "unchanged",
+            "failed",
+            "errors",
+          ],
         },
 
         // Campaign Types
         CampaignRequest: {
           type: "object",
           properties: {
+            accountId: {
+              type: "string",
+              description:
+                "Linked account to send from (defaults to the active account)",
+              example: "us6-12345678",
+            },
             listId: {
               type: "string",
               description: "ID of the MailChimp list to send to",
@@ -141,114 +525,1681 @@ const options = {
             },
             subject: {
               type: "string",
+              maxLength: 150,
               description: "Email subject line",
               example: "Welcome to our Newsletter!",
             },
             content: {
               type: "string",
-              description: "HTML content of the email",
+              description:
+                "HTML content of the email; needs at least one element and some visible text",
               example: "<h1>Welcome!</h1><p>Thank you for subscribing.</p>",
             },
             fromName: {
               type: "string",
+              maxLength: 100,
               description: "Sender name",
               example: "My Company",
             },
             replyTo: {
               type: "string",
+              format: "email",
               description: "Reply-to email address",
               example: "noreply@example.com",
             },
+            targeting: {
+              $ref: "#/components/schemas/CampaignTargeting",
+            },
           },
           required: ["listId", "subject", "content", "fromName", "replyTo"],
         },
 
-        CampaignResponse: {
+        SendCampaignRequest: {
+          allOf: [
+            { $ref: "#/components/schemas/CampaignRequest" },
+            {
+              type: "object",
+              properties: {
+                keepDraftOnFailure: {
+                  type: "boolean",
+                  default: false,
+                  description:
+                    "Keep the draft in MailChimp if a step after creating it fails",
+                },
+              },
+            },
+          ],
+        },
+
+        SendFailure: {
           type: "object",
           properties: {
-            campaignId: {
+            failedStep: {
               type: "string",
-              description: "Unique campaign identifier",
-              example: "campaign_123456",
+              enum: ["create", "content", "checklist", "send"],
             },
-            status: {
+            completedSteps: {
+              type: "array",
+              items: {
+                type: "string",
+                enum: ["create", "content", "checklist", "send"],
+              },
+              example: ["create"],
+            },
+            campaignId: {
               type: "string",
-              description: "Campaign status",
-              example: "sent",
+              nullable: true,
+              description:
+                "Campaign created before the failure (it may have been deleted)",
+              example: "b03bfc2a2c",
             },
-            message: {
+            draft: {
               type: "string",
-              description: "Status message",
-              example: "Campaign sent successfully",
+              enum: [
+                "none",
+                "deleted",
+                "kept",
+                "not_draft",
+                "delete_failed",
+                "send_unconfirmed",
+              ],
+              description:
+                "none: no campaign was created; deleted: the draft was removed; kept: keepDraftOnFailure was set; not_draft: the campaign had already left draft status and was left alone; delete_failed: the draft could not be removed; send_unconfirmed: the send call failed without a clear answer and the campaign was left alone, since MailChimp may still send it",
             },
           },
-          required: ["campaignId", "status", "message"],
+          required: ["failedStep", "completedSteps", "campaignId", "draft"],
         },
 
-        // Generic Message Response
-        MessageResponse: {
+        // Recipient Targeting Types
+        CampaignTargeting: {
           type: "object",
+          description:
+            "Send to part of the list. Give either segmentId, or any mix of tags, interests and conditions (at most 5 in total).",
           properties: {
-            message: {
+            segmentId: {
+              type: "integer",
+              description: "Saved segment ID (cannot be combined)",
+              example: 4821,
+            },
+            tags: {
+              type: "array",
+              items: {
+                type: "integer",
+              },
+              description: "Tag IDs from GET /lists/{listId}/tags",
+              example: [2065],
+            },
+            interests: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  categoryId: {
+                    type: "string",
+                    example: "a1b2c3d4e5",
+                  },
+                  interestIds: {
+                    type: "array",
+                    items: {
+                      type: "string",
+                    },
+                    example: ["9f8e7d6c5b"],
+                  },
+                  match: {
+                    type: "string",
+                    enum: ["any", "all", "none"],
+                    default: "any",
+                    description: "Members in any, all or none of the interests",
+                  },
+                },
+                required: ["categoryId", "interestIds"],
+              },
+            },
+            conditions: {
+              type: "array",
+              description:
+                "Raw MailChimp segment conditions (see MailChimp's segment condition types)",
+              items: {
+                $ref: "#/components/schemas/SegmentCondition",
+              },
+            },
+            match: {
               type: "string",
-              description: "Response message",
-              example: "Operation completed successfully",
+              enum: ["any", "all"],
+              default: "all",
+              description: "How tags, interests and conditions combine",
             },
           },
-          required: ["message"],
         },
 
-        // Error Response
-        ErrorResponse: {
+        SegmentCondition: {
           type: "object",
           properties: {
-            success: {
-              type: "boolean",
-              example: false,
+            conditionType: {
+              type: "string",
+              example: "TextMerge",
             },
-            message: {
+            field: {
               type: "string",
-              description: "Error message",
-              example: "Invalid request parameters",
+              example: "FNAME",
             },
-            data: {
-              type: "null",
-              example: null,
+            op: {
+              type: "string",
+              example: "is",
+            },
+            value: {
+              example: "Jane",
             },
           },
-          required: ["success", "message", "data"],
+          required: ["conditionType", "field", "op", "value"],
         },
-      },
-      parameters: {
-        SessionId: {
-          in: "header",
-          name: "X-Session-Id",
-          schema: {
-            type: "string",
+
+        RecipientPreviewRequest: {
+          type: "object",
+          properties: {
+            accountId: {
+              type: "string",
+              description:
+                "Linked account to use (defaults to the active account)",
+            },
+            targeting: {
+              $ref: "#/components/schemas/CampaignTargeting",
+            },
           },
-          required: true,
-          description: "Session ID obtained from OAuth flow",
-          example: "192.168.1.1-1635789012345-abc123",
         },
-      },
-      responses: {
-        BadRequest: {
-          description: "Bad Request - Invalid input parameters",
-          content: {
-            "application/json": {
-              schema: {
-                $ref: "#/components/schemas/ErrorResponse",
+
+        RecipientPreview: {
+          type: "object",
+          properties: {
+            listId: {
+              type: "string",
+              example: "1a2b3c4d5e",
+            },
+            recipientCount: {
+              type: "number",
+              example: 312,
+            },
+          },
+          required: ["listId", "recipientCount"],
+        },
+
+        ListSegment: {
+          type: "object",
+          properties: {
+            id: {
+              type: "integer",
+              example: 4821,
+            },
+            name: {
+              type: "string",
+              example: "Recent buyers",
+            },
+            memberCount: {
+              type: "number",
+              example: 312,
+            },
+            createdAt: {
+              type: "string",
+              format: "date-time",
+            },
+            updatedAt: {
+              type: "string",
+              format: "date-time",
+            },
+          },
+          required: ["id", "name", "memberCount"],
+        },
+
+        ListSegmentsResponse: {
+          type: "object",
+          properties: {
+            segments: {
+              type: "array",
+              items: {
+                $ref: "#/components/schemas/ListSegment",
+              },
+            },
+            total: {
+              type: "number",
+            },
+            offset: {
+              type: "number",
+            },
+            nextCursor: {
+              type: "string",
+              nullable: true,
+            },
+          },
+          required: ["segments", "total", "offset", "nextCursor"],
+        },
+
+        InterestCategory: {
+          type: "object",
+          properties: {
+            id: {
+              type: "string",
+              example: "a1b2c3d4e5",
+            },
+            listId: {
+              type: "string",
+              example: "1a2b3c4d5e",
+            },
+            title: {
+              type: "string",
+              example: "Topics",
+            },
+            type: {
+              type: "string",
+              enum: ["checkboxes", "dropdown", "radio", "hidden"],
+              description: "How the group is shown on signup forms",
+            },
+            displayOrder: {
+              type: "number",
+              example: 1,
+            },
+          },
+          required: ["id", "listId", "title", "type", "displayOrder"],
+        },
+
+        ListInterest: {
+          type: "object",
+          properties: {
+            id: {
+              type: "string",
+              example: "9f8e7d6c5b",
+            },
+            categoryId: {
+              type: "string",
+              example: "a1b2c3d4e5",
+            },
+            name: {
+              type: "string",
+              example: "Product news",
+            },
+            subscriberCount: {
+              type: "number",
+              example: 120,
+            },
+            displayOrder: {
+              type: "number",
+              example: 1,
+            },
+          },
+          required: ["id", "categoryId", "name", "subscriberCount"],
+        },
+
+        ListInterestCategory: {
+          allOf: [
+            { $ref: "#/components/schemas/InterestCategory" },
+            {
+              type: "object",
+              properties: {
+                interests: {
+                  type: "array",
+                  items: {
+                    $ref: "#/components/schemas/ListInterest",
+                  },
+                },
+              },
+              required: ["interests"],
+            },
+          ],
+        },
+
+        InterestCategoriesResponse: {
+          type: "object",
+          properties: {
+            categories: {
+              type: "array",
+              items: {
+                $ref: "#/components/schemas/ListInterestCategory",
+              },
+            },
+          },
+          required: ["categories"],
+        },
+
+        CreateInterestCategoryRequest: {
+          type: "object",
+          properties: {
+            accountId: {
+              type: "string",
+              description:
+                "Linked account to use (defaults to the active account)",
+            },
+            title: {
+              type: "string",
+              example: "Topics",
+            },
+            type: {
+              type: "string",
+              enum: ["checkboxes", "dropdown", "radio", "hidden"],
+            },
+            displayOrder: {
+              type: "integer",
+              minimum: 0,
+            },
+          },
+          required: ["title", "type"],
+        },
+
+        UpdateInterestCategoryRequest: {
+          type: "object",
+          properties: {
+            accountId: {
+              type: "string",
+            },
+            title: {
+              type: "string",
+            },
+            type: {
+              type: "string",
+              enum: ["checkboxes", "dropdown", "radio", "hidden"],
+            },
+            displayOrder: {
+              type: "integer",
+              minimum: 0,
+            },
+          },
+        },
+
+        CreateInterestRequest: {
+          type: "object",
+          properties: {
+            accountId: {
+              type: "string",
+            },
+            name: {
+              type: "string",
+              example: "Product news",
+            },
+            displayOrder: {
+              type: "integer",
+              minimum: 0,
+            },
+          },
+          required: ["name"],
+        },
+
+        UpdateInterestRequest: {
+          type: "object",
+          properties: {
+            accountId: {
+              type: "string",
+            },
+            name: {
+              type: "string",
+            },
+            displayOrder: {
+              type: "integer",
+              minimum: 0,
+            },
+          },
+        },
+
+        // Webhook Types
+        RegisterWebhookRequest: {
+          type: "object",
+          properties: {
+            accountId: {
+              type: "string",
+              description:
+                "Linked account to use (defaults to the active account)",
+            },
+            events: {
+              type: "array",
+              items: {
+                type: "string",
+                enum: [
+                  "subscribe",
+                  "unsubscribe",
+                  "profile",
+                  "upemail",
+                  "cleaned",
+                  "campaign",
+                ],
+              },
+              description: "Events to receive (defaults to all)",
+            },
+            sources: {
+              type: "array",
+              items: {
+                type: "string",
+                enum: ["user", "admin", "api"],
+              },
+              description:
+                "Who made the change: the member, an account admin or the API (defaults to all)",
+            },
+          },
+        },
+
+        ListWebhook: {
+          type: "object",
+          properties: {
+            id: {
+              type: "string",
+              description: "Registration ID",
+              example: "6f1c1f4e-8a8e-4a43-9b1a-2f0f5f0f3c11",
+            },
+            listId: {
+              type: "string",
+              example: "1a2b3c4d5e",
+            },
+            accountId: {
+              type: "string",
+              example: "us1-123456",
+            },
+            mailchimpWebhookId: {
+              type: "string",
+              nullable: true,
+              example: "a1b2c3d4e5",
+            },
+            url: {
+              type: "string",
+              description: "Callback URL (its secret is not shown)",
+              example:
+                "https://api.example.com/webhooks/mailchimp/6f1c1f4e-8a8e-4a43-9b1a-2f0f5f0f3c11",
+            },
+            events: {
+              type: "array",
+              items: {
+                type: "string",
+              },
+            },
+            sources: {
+              type: "array",
+              items: {
+                type: "string",
+              },
+            },
+            createdAt: {
+              type: "string",
+              format: "date-time",
+            },
+          },
+          required: ["id", "listId", "accountId", "url", "events", "sources"],
+        },
+
+        ListWebhooksResponse: {
+          type: "object",
+          properties: {
+            webhooks: {
+              type: "array",
+              items: {
+                $ref: "#/components/schemas/ListWebhook",
+              },
+            },
+          },
+          required: ["webhooks"],
+        },
+
+        // Merge Field Types
+        MergeFieldOptions: {
+          type: "object",
+          description:
+            "Type-specific settings; only those relevant to the field's type apply",
+          properties: {
+            defaultCountry: {
+              type: "integer",
+              description: "Address fields: default country code",
+            },
+            phoneFormat: {
+              type: "string",
+              description: 'Phone fields: "US" or "International"',
+            },
+            dateFormat: {
+              type: "string",
+              description: "Date and birthday fields",
+              example: "MM/DD/YYYY",
+            },
+            choices: {
+              type: "array",
+              items: {
+                type: "string",
+              },
+              description: "Radio and dropdown fields",
+              example: ["Small", "Medium", "Large"],
+            },
+            size: {
+              type: "integer",
+              description: "Text fields: input size on forms",
+            },
+          },
+        },
+
+        MergeField: {
+          type: "object",
+          properties: {
+            mergeId: {
+              type: "integer",
+              example: 5,
+            },
+            tag: {
+              type: "string",
+              example: "COMPANY",
+            },
+            name: {
+              type: "string",
+              example: "Company",
+            },
+            type: {
+              $ref: "#/components/schemas/MergeFieldType",
+            },
+            required: {
+              type: "boolean",
+            },
+            defaultValue: {
+              type: "string",
+            },
+            public: {
+              type: "boolean",
+              description: "Shown on signup forms",
+            },
+            displayOrder: {
+              type: "integer",
+            },
+            helpText: {
+              type: "string",
+            },
+            options: {
+              $ref: "#/components/schemas/MergeFieldOptions",
+            },
+            listId: {
+              type: "string",
+              example: "1a2b3c4d5e",
+            },
+          },
+          required: ["mergeId", "tag", "name", "type", "required", "listId"],
+        },
+
+        MergeFieldType: {
+          type: "string",
+          enum: [
+            "text",
+            "number",
+            "address",
+            "phone",
+            "date",
+            "url",
+            "imageurl",
+            "radio",
+            "dropdown",
+            "birthday",
+            "zip",
+          ],
+        },
+
+        MergeFieldsResponse: {
+          type: "object",
+          properties: {
+            mergeFields: {
+              type: "array",
+              items: {
+                $ref: "#/components/schemas/MergeField",
+              },
+            },
+            total: {
+              type: "number",
+            },
+            offset: {
+              type: "number",
+            },
+            nextCursor: {
+              type: "string",
+              nullable: true,
+            },
+          },
+          required: ["mergeFields", "total", "offset", "nextCursor"],
+        },
+
+        CreateMergeFieldRequest: {
+          type: "object",
+          properties: {
+            accountId: {
+              type: "string",
+              description:
+                "Linked account to use (defaults to the active account)",
+            },
+            name: {
+              type: "string",
+              example: "Company",
+            },
+            type: {
+              $ref: "#/components/schemas/MergeFieldType",
+            },
+            tag: {
+              type: "string",
+              pattern: "^[A-Z0-9_]{1,10}$",
+              description:
+                "Merge tag used in content, e.g. COMPANY for *|COMPANY|* (generated if omitted)",
+            },
+            required: {
+              type: "boolean",
+              default: false,
+            },
+            defaultValue: {
+              type: "string",
+            },
+            public: {
+              type: "boolean",
+            },
+            displayOrder: {
+              type: "integer",
+              minimum: 0,
+            },
+            helpText: {
+              type: "string",
+            },
+            options: {
+              $ref: "#/components/schemas/MergeFieldOptions",
+            },
+          },
+          required: ["name", "type"],
+        },
+
+        UpdateMergeFieldRequest: {
+          type: "object",
+          description: "Same fields as CreateMergeFieldRequest except type",
+          properties: {
+            accountId: {
+              type: "string",
+            },
+            name: {
+              type: "string",
+            },
+            tag: {
+              type: "string",
+              pattern: "^[A-Z0-9_]{1,10}$",
+            },
+            required: {
+              type: "boolean",
+            },
+            defaultValue: {
+              type: "string",
+            },
+            public: {
+              type: "boolean",
+            },
+            displayOrder: {
+              type: "integer",
+              minimum: 0,
+            },
+            helpText: {
+              type: "string",
+            },
+            options: {
+              $ref: "#/components/schemas/MergeFieldOptions",
+            },
+          },
+        },
+
+        CampaignResponse: {
+          type: "object",
+          properties: {
+            campaignId: {
+              type: "string",
+              description: "Unique campaign identifier",
+              example: "campaign_123456",
+            },
+            status: {
+              type: "string",
+              enum: ["sent", "schedule", "save"],
+              description:
+                'Campaign status ("schedule" when scheduled, "save" for a draft)',
+              example: "sent",
+            },
+            message: {
+              type: "string",
+              description: "Status message",
+              example: "Campaign sent successfully",
+            },
+            scheduledAt: {
+              type: "string",
+              format: "date-time",
+              description: "When the campaign will be sent (scheduled only)",
+            },
+            checklist: {
+              $ref: "#/components/schemas/CampaignChecklist",
+            },
+          },
+          required: ["campaignId", "status", "message"],
+        },
+
+        CampaignChecklistItem: {
+          type: "object",
+          properties: {
+            id: {
+              type: "number",
+            },
+            heading: {
+              type: "string",
+              example: "Default From Name",
+            },
+            details: {
+              type: "string",
+              example: "Your From name is blank.",
+            },
+          },
+          required: ["id", "heading", "details"],
+        },
+
+        CampaignChecklist: {
+          type: "object",
+          description: "MailChimp send checklist for the campaign",
+          properties: {
+            isReady: {
+              type: "boolean",
+              description: "Whether the campaign can be sent",
+            },
+            errors: {
+              type: "array",
+              description: "Blocking problems",
+              items: {
+                $ref: "#/components/schemas/CampaignChecklistItem",
+              },
+            },
+            warnings: {
+              type: "array",
+              items: {
+                $ref: "#/components/schemas/CampaignChecklistItem",
+              },
+            },
+          },
+          required: ["isReady", "errors", "warnings"],
+        },
+
+        SendJobError: {
+          type: "object",
+          properties: {
+            step: {
+              type: "string",
+              enum: ["create", "content", "checklist", "send"],
+              description: "Step that failed",
+            },
+            message: {
+              type: "string",
+              example: "Failed to send campaign",
+            },
+            code: {
+              type: "string",
+              example: "campaign_not_ready",
+            },
+            draft: {
+              type: "string",
+              enum: [
+                "none",
+                "deleted",
+                "kept",
+                "not_draft",
+                "delete_failed",
+                "send_unconfirmed",
+              ],
+              description:
+                "What happened to the campaign draft after the failure (see SendFailure)",
+            },
+          },
+          required: ["step", "message"],
+        },
+
+        SendJob: {
+          type: "object",
+          properties: {
+            jobId: {
+              type: "string",
+              example: "5b7c2d9e-8a41-4c3f-b6e2-0d1f9a8c7e34",
+            },
+            accountId: {
+              type: "string",
+              example: "us6-12345678",
+            },
+            listId: {
+              type: "string",
+              example: "1a2b3c4d5e",
+            },
+            status: {
+              type: "string",
+              enum: ["queued", "running", "completed", "failed"],
+            },
+            step: {
+              type: "string",
+              enum: ["create", "content", "checklist", "send", "done"],
+              description:
+                "Step running next, done once completed, or the step that failed",
+            },
+            campaignId: {
+              type: "string",
+              nullable: true,
+              description: "Set once the campaign has been created",
+              example: "campaign_123456",
+            },
+            dryRun: {
+              type: "boolean",
+            },
+            checklist: {
+              $ref: "#/components/schemas/CampaignChecklist",
+            },
+            error: {
+              $ref: "#/components/schemas/SendJobError",
+            },
+            createdAt: {
+              type: "string",
+              format: "date-time",
+            },
+            updatedAt: {
+              type: "string",
+              format: "date-time",
+            },
+            finishedAt: {
+              type: "string",
+              format: "date-time",
+            },
+          },
+          required: [
+            "jobId",
+            "accountId",
+            "listId",
+            "status",
+            "step",
+            "campaignId",
+            "dryRun",
+            "createdAt",
+            "updatedAt",
+          ],
+        },
+
+        ScheduleCampaignRequest: {
+          type: "object",
+          properties: {
+            accountId: {
+              type: "string",
+              description:
+                "Linked account the campaign belongs to (defaults to the active account)",
+            },
+            scheduleTime: {
+              type: "string",
+              description:
+                "ISO 8601 time with an offset, or a wall-clock time read in timeZone. Must be on a 15-minute boundary.",
+              example: "2024-05-01T09:30",
+            },
+            timeZone: {
+              type: "string",
+              description: "IANA time zone for wall-clock times",
+              default: "UTC",
+              example: "America/New_York",
+            },
+            timewarp: {
+              type: "boolean",
+              description:
+                "Deliver at scheduleTime in each recipient's time zone (24 hours' notice required)",
+              default: false,
+            },
+            batchDelivery: {
+              type: "object",
+              description: "Send in batches (cannot be combined with timewarp)",
+              properties: {
+                batchDelay: {
+                  type: "integer",
+                  minimum: 1,
+                  description: "Minutes between batches",
+                  example: 30,
+                },
+                batchCount: {
+                  type: "integer",
+                  minimum: 2,
+                  example: 4,
+                },
+              },
+              required: ["batchDelay", "batchCount"],
+            },
+          },
+          required: ["scheduleTime"],
+        },
+
+        // Test Email Types
+        TestCampaignRequest: {
+          type: "object",
+          description:
+            "Give campaignId to test an existing draft, or the campaign fields to create one",
+          properties: {
+            accountId: {
+              type: "string",
+              description:
+                "Linked account to use (defaults to the active account)",
+            },
+            campaignId: {
+              type: "string",
+              description: "Existing draft to test",
+              example: "b03bfc2a2c",
+            },
+            listId: {
+              type: "string",
+              example: "1a2b3c4d5e",
+            },
+            subject: {
+              type: "string",
+              maxLength: 150,
+            },
+            content: {
+              type: "string",
+              description: "HTML content of the email",
+            },
+            fromName: {
+              type: "string",
+              maxLength: 100,
+            },
+            replyTo: {
+              type: "string",
+              format: "email",
+            },
+            targeting: {
+              $ref: "#/components/schemas/CampaignTargeting",
+            },
+            testEmails: {
+              type: "array",
+              items: {
+                type: "string",
+                format: "email",
+              },
+              minItems: 1,
+              maxItems: 10,
+              example: ["editor@example.com"],
+            },
+            sendType: {
+              type: "string",
+              enum: ["html", "plaintext"],
+              default: "html",
+            },
+          },
+          required: ["testEmails"],
+        },
+
+        TestCampaignResponse: {
+          type: "object",
+          properties: {
+            campaignId: {
+              type: "string",
+              description:
+                "Draft the test was sent from (reuse it for the next test)",
+              example: "b03bfc2a2c",
+            },
+            draftCreated: {
+              type: "boolean",
+              description: "Whether a new draft was created for this test",
+            },
+            sendType: {
+              type: "string",
+              enum: ["html", "plaintext"],
+            },
+            results: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  email: {
+                    type: "string",
+                  },
+                  status: {
+                    type: "string",
+                    enum: ["sent", "failed", "invalid"],
+                  },
+                  error: {
+                    type: "string",
+                  },
+                },
+                required: ["email", "status"],
+              },
+            },
+          },
+          required: ["campaignId", "draftCreated", "sendType", "results"],
+        },
+
+        // Campaign Draft Types
+        UpdateCampaignRequest: {
+          type: "object",
+          properties: {
+            accountId: {
+              type: "string",
+              description:
+                "Linked account the draft belongs to (defaults to the active account)",
+            },
+            subject: {
+              type: "string",
+              example: "Spring sale - last chance",
+            },
+            content: {
+              type: "string",
+              description: "HTML content of the email",
+            },
+            fromName: {
+              type: "string",
+              example: "My Company",
+            },
+            replyTo: {
+              type: "string",
+              example: "noreply@example.com",
+            },
+            targeting: {
+              allOf: [{ $ref: "#/components/schemas/CampaignTargeting" }],
+              nullable: true,
+              description:
+                "New targeting for the draft; null sends to the whole list",
+            },
+          },
+        },
+
+        CampaignDraft: {
+          type: "object",
+          properties: {
+            campaignId: {
+              type: "string",
+              example: "b03bfc2a2c",
+            },
+            status: {
+              type: "string",
+              description: 'MailChimp campaign status ("save" for drafts)',
+              example: "save",
+            },
+            listId: {
+              type: "string",
+              example: "1a2b3c4d5e",
+            },
+            title: {
+              type: "string",
+              example: "Campaign - Spring sale",
+            },
+            subject: {
+              type: "string",
+              example: "Spring sale",
+            },
+            fromName: {
+              type: "string",
+              example: "My Company",
+            },
+            replyTo: {
+              type: "string",
+              example: "noreply@example.com",
+            },
+            content: {
+              type: "string",
+              nullable: true,
+              description: "HTML content (null if none has been set)",
+            },
+            recipientCount: {
+              type: "number",
+              description: "Number of list members the campaign will go to",
+              example: 312,
+            },
+            createdAt: {
+              type: "string",
+              format: "date-time",
+            },
+            scheduledAt: {
+              type: "string",
+              format: "date-time",
+              nullable: true,
+              description: "When the campaign will be sent, while scheduled",
+            },
+          },
+          required: [
+            "campaignId",
+            "status",
+            "listId",
+            "subject",
+            "fromName",
+            "replyTo",
+            "content",
+          ],
+        },
+
+        // Report Types
+        CampaignReport: {
+          type: "object",
+          properties: {
+            campaignId: {
+              type: "string",
+              example: "b03bfc2a2c",
+            },
+            title: {
+              type: "string",
+              example: "Campaign - Spring sale",
+            },
+            subject: {
+              type: "string",
+              example: "Spring sale",
+            },
+            listId: {
+              type: "string",
+              example: "1a2b3c4d5e",
+            },
+            listName: {
+              type: "string",
+              example: "Newsletter Subscribers",
+            },
+            sendTime: {
+              type: "string",
+              format: "date-time",
+            },
+            emailsSent: {
+              type: "number",
+              example: 1250,
+            },
+            opens: {
+              type: "object",
+              properties: {
+                total: { type: "number", example: 980 },
+                unique: { type: "number", example: 530 },
+                rate: {
+                  type: "number",
+                  description: "Unique open rate (0-1)",
+                  example: 0.43,
+                },
+                lastOpen: {
+                  type: "string",
+                  format: "date-time",
+                  nullable: true,
+                },
+              },
+            },
+            clicks: {
+              type: "object",
+              properties: {
+                total: { type: "number", example: 210 },
+                unique: { type: "number", example: 160 },
+                uniqueSubscribers: { type: "number", example: 140 },
+                rate: {
+                  type: "number",
+                  description: "Unique subscriber click rate (0-1)",
+                  example: 0.11,
+                },
+                lastClick: {
+                  type: "string",
+                  format: "date-time",
+                  nullable: true,
+                },
+              },
+            },
+            bounces: {
+              type: "object",
+              properties: {
+                hard: { type: "number", example: 4 },
+                soft: { type: "number", example: 9 },
+                syntaxErrors: { type: "number", example: 0 },
+              },
+            },
+            unsubscribes: {
+              type: "number",
+              example: 6,
+            },
+            abuseReports: {
+              type: "number",
+              example: 0,
+            },
+            forwards: {
+              type: "object",
+              properties: {
+                count: { type: "number", example: 3 },
+                opens: { type: "number", example: 2 },
+              },
+            },
+          },
+          required: [
+            "campaignId",
+            "emailsSent",
+            "opens",
+            "clicks",
+            "bounces",
+            "unsubscribes",
+            "abuseReports",
+            "forwards",
+          ],
+        },
+
+        ReportsResponse: {
+          type: "object",
+          properties: {
+            reports: {
+              type: "array",
+              items: {
+                $ref: "#/components/schemas/CampaignReport",
+              },
+            },
+            total: {
+              type: "number",
+              description: "Number of reports across all pages",
+            },
+            offset: {
+              type: "number",
+            },
+            nextCursor: {
+              type: "string",
+              nullable: true,
+              description:
+                "Pass as `cursor` to fetch the next page; null on the last page",
+            },
+          },
+          required: ["reports", "total", "offset", "nextCursor"],
+        },
+
+        CampaignLinkReport: {
+          type: "object",
+          properties: {
+            id: {
+              type: "string",
+            },
+            url: {
+              type: "string",
+              example: "https://example.com/sale",
+            },
+            totalClicks: {
+              type: "number",
+              example: 120,
+            },
+            uniqueClicks: {
+              type: "number",
+              example: 95,
+            },
+            clickPercentage: {
+              type: "number",
+              description: "Share of all clicks that went to this link (0-1)",
+              example: 0.57,
+            },
+            uniqueClickPercentage: {
+              type: "number",
+              description:
+                "Share of unique clicks that went to this link (0-1)",
+              example: 0.59,
+            },
+            lastClick: {
+              type: "string",
+              format: "date-time",
+              nullable: true,
+            },
+          },
+          required: ["id", "url", "totalClicks", "uniqueClicks"],
+        },
+
+        CampaignLinksResponse: {
+          type: "object",
+          properties: {
+            campaignId: {
+              type: "string",
+            },
+            links: {
+              type: "array",
+              items: {
+                $ref: "#/components/schemas/CampaignLinkReport",
+              },
+            },
+            total: {
+              type: "number",
+            },
+            offset: {
+              type: "number",
+            },
+            nextCursor: {
+              type: "string",
+              nullable: true,
+            },
+          },
+          required: ["campaignId", "links", "total", "offset", "nextCursor"],
+        },
+
+        // Admin Types
+        ReencryptSessionsResult: {
+          type: "object",
+          properties: {
+            total: {
+              type: "number",
+              description: "Number of stored sessions examined",
+              example: 42,
+            },
+            reencrypted: {
+              type: "number",
+              description: "Sessions re-sealed under the current key",
+              example: 40,
+            },
+            failed: {
+              type: "number",
+              description: "Sessions whose token could not be decrypted",
+              example: 0,
+            },
+          },
+          required: ["total", "reencrypted", "failed"],
+        },
+
+        // Generic Message Response
+        MessageResponse: {
+          type: "object",
+          properties: {
+            message: {
+              type: "string",
+              description: "Response message",
+              example: "Operation completed successfully",
+            },
+          },
+          required: ["message"],
+        },
+
+        // Error Response
+        ErrorResponse: {
+          type: "object",
+          properties: {
+            success: {
+              type: "boolean",
+              example: false,
+            },
+            message: {
+              type: "string",
+              description: "Error message",
+              example: "Invalid request parameters",
+            },
+            code: {
+              type: "string",
+              description: "Machine-readable error code",
+              example: "expired_state",
+            },
+            errors: {
+              type: "array",
+              items: {
+                $ref: "#/components/schemas/FieldError",
+              },
+              description: "Per-field problems, present on validation errors",
+            },
+            details: {
+              $ref: "#/components/schemas/MailChimpProblem",
+            },
+            data: {
+              type: "null",
+              example: null,
+            },
+          },
+          required: ["success", "message", "code", "data"],
+        },
+        FieldError: {
+          type: "object",
+          properties: {
+            field: {
+              type: "string",
+              description: "Field the problem is with (dotted path)",
+              example: "email_address",
+            },
+            message: {
+              type: "string",
+              example: "This value should be a valid email.",
+            },
+          },
+          required: ["field", "message"],
+        },
+        MailChimpProblem: {
+          type: "object",
+          description:
+            "MailChimp's problem details, present when a MailChimp error caused the response",
+          properties: {
+            type: {
+              type: "string",
+              example: "https://mailchimp.com/developer/marketing/docs/errors/",
+            },
+            title: {
+              type: "string",
+              example: "Invalid Resource",
+            },
+            status: {
+              type: "integer",
+              example: 400,
+            },
+            detail: {
+              type: "string",
+              example:
+                "The resource submitted could not be validated. For field-specific details, see the 'errors' array.",
+            },
+            instance: {
+              type: "string",
+              example: "2f5ed5cb-5bb5-4ab8-b5de-3e0fdc8ef1a1",
+            },
+          },
+        },
+      },
+      parameters: {
+        SessionId: {
+          in: "header",
+          name: "X-Session-Id",
+          schema: {
+            type: "string",
+          },
+          required: false,
+          description:
+            "Session ID obtained from OAuth flow. Optional when SESSION_TRANSPORT=cookie and the signed session cookie is sent instead (unsafe methods then also need X-Requested-With)",
+          example: "hV0n3nQ2l6yQ8H1xkq2r6m9yqzZQx0c3V5b8WcE4s1A",
+        },
+        AccountId: {
+          in: "query",
+          name: "accountId",
+          schema: {
+            type: "string",
+          },
+          required: false,
+          description:
+            "Linked MailChimp account to use (defaults to the active account)",
+          example: "us6-12345678",
+        },
+        ListId: {
+          in: "path",
+          name: "listId",
+          schema: {
+            type: "string",
+          },
+          required: true,
+          description: "MailChimp list (audience) ID",
+          example: "1a2b3c4d5e",
+        },
+        MemberId: {
+          in: "path",
+          name: "memberId",
+          schema: {
+            type: "string",
+          },
+          required: true,
+          description: "Member email address or subscriber hash",
+          example: "jane@example.com",
+        },
+        MergeId: {
+          in: "path",
+          name: "mergeId",
+          schema: {
+            type: "integer",
+            minimum: 0,
+          },
+          required: true,
+          description: "Merge field ID",
+          example: 5,
+        },
+        InterestCategoryId: {
+          in: "path",
+          name: "categoryId",
+          schema: {
+            type: "string",
+          },
+          required: true,
+          description: "Interest category ID",
+          example: "a1b2c3d4e5",
+        },
+        InterestId: {
+          in: "path",
+          name: "interestId",
+          schema: {
+            type: "string",
+          },
+          required: true,
+          description: "Interest ID",
+          example: "9f8e7d6c5b",
+        },
+        WebhookRegistrationId: {
+          in: "path",
+          name: "registrationId",
+          schema: {
+            type: "string",
+          },
+          required: true,
+          description: "Webhook registration ID",
+        },
+        WebhookSecret: {
+          in: "query",
+          name: "secret",
+          schema: {
+            type: "string",
+          },
+          required: true,
+          description:
+            "Registration secret, part of the URL given to MailChimp",
+        },
+        CampaignId: {
+          in: "path",
+          name: "campaignId",
+          schema: {
+            type: "string",
+          },
+          required: true,
+          description: "MailChimp campaign ID",
+          example: "b03bfc2a2c",
+        },
+        PageCount: {
+          in: "query",
+          name: "count",
+          schema: {
+            type: "integer",
+            minimum: 1,
+            maximum: 1000,
+            default: 10,
+          },
+          required: false,
+          description: "Page size",
+        },
+        PageOffset: {
+          in: "query",
+          name: "offset",
+          schema: {
+            type: "integer",
+            minimum: 0,
+            default: 0,
+          },
+          required: false,
+          description: "Number of items to skip",
+        },
+        PageCursor: {
+          in: "query",
+          name: "cursor",
+          schema: {
+            type: "string",
+          },
+          required: false,
+          description:
+            "`nextCursor` from a previous page (takes precedence over `offset`)",
+        },
+        IdempotencyKey: {
+          in: "header",
+          name: "Idempotency-Key",
+          schema: {
+            type: "string",
+            maxLength: 255,
+          },
+          required: false,
+          description:
+            "Unique key for this request (e.g. a UUID); retries with the same key and body return the first response",
+          example: "6f1c1f4e-8a8e-4a43-9b1a-2f0f5f0f3c11",
+        },
+        DryRun: {
+          in: "query",
+          name: "dryRun",
+          schema: {
+            type: "boolean",
+            default: false,
+          },
+          required: false,
+          description: "Run the send checklist and return it without sending",
+        },
+        AsyncSend: {
+          in: "query",
+          name: "async",
+          schema: {
+            type: "boolean",
+            default: false,
+          },
+          required: false,
+          description:
+            "Queue a send job and return 202 with it instead of waiting for the send",
+        },
+        AdminKey: {
+          in: "header",
+          name: "X-Admin-Key",
+          schema: {
+            type: "string",
+          },
+          required: true,
+          description: "Value of the ADMIN_API_KEY environment variable",
+        },
+      },
+      responses: {
+        BadRequest: {
+          description:
+            "Bad Request - Invalid input parameters. Validation failures list every invalid field in `errors`",
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/ErrorResponse",
               },
               example: {
                 success: false,
-                message: "Missing required fields",
+                message:
+                  "listId is required; replyTo must be a valid email address",
+                code: "validation_failed",
+                errors: [
+                  { field: "listId", message: "listId is required" },
+                  {
+                    field: "replyTo",
+                    message: "replyTo must be a valid email address",
+                  },
+                ],
                 data: null,
               },
             },
           },
         },
         Unauthorized: {
-          description: "Unauthorized - Not connected to MailChimp",
+          description:
+            "Unauthorized - No session supplied (`session_required`), unknown session (`session_not_found`), session expired (`session_expired`) or MailChimp access revoked (`account_revoked`)",
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/ErrorResponse",
+              },
+              example: {
+                success: false,
+                message: "Session not found",
+                code: "session_not_found",
+                data: null,
+              },
+            },
+          },
+        },
+        AccountNotFound: {
+          description:
+            "Not Found - MailChimp account is not linked to this session",
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/ErrorResponse",
+              },
+              example: {
+                success: false,
+                message: "MailChimp account is not linked to this session",
+                code: "account_not_found",
+                data: null,
+              },
+            },
+          },
+        },
+        Forbidden: {
+          description: "Forbidden - Missing or invalid admin key",
           content: {
             "application/json": {
               schema: {
@@ -256,7 +2207,8 @@ const options = {
               },
               example: {
                 success: false,
-                message: "Not connected to MailChimp",
+                message: "Admin access denied",
+                code: "forbidden",
                 data: null,
               },
             },
@@ -272,6 +2224,284 @@ const options = {
               example: {
                 success: false,
                 message: "Internal server error",
+                code: "internal_error",
+                data: null,
+              },
+            },
+          },
+        },
+        RateLimited: {
+          description:
+            "Too Many Requests - MailChimp is still rate limiting this account after retries (`rate_limited`). Retry-After says when to try again, when MailChimp gave one",
+          headers: {
+            "Retry-After": {
+              schema: {
+                type: "integer",
+              },
+              description: "Seconds to wait before retrying",
+            },
+          },
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/ErrorResponse",
+              },
+              example: {
+                success: false,
+                message:
+                  "Failed to fetch email lists: You have exceeded the limit of 10 simultaneous connections.",
+                code: "rate_limited",
+                details: {
+                  title: "Too Many Requests",
+                  status: 429,
+                  detail:
+                    "You have exceeded the limit of 10 simultaneous connections.",
+                },
+                data: null,
+              },
+            },
+          },
+        },
+        MailChimpUnavailable: {
+          description:
+            "Bad Gateway - MailChimp failed or could not be reached (`mailchimp_unavailable`, `mailchimp_error`)",
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/ErrorResponse",
+              },
+              example: {
+                success: false,
+                message:
+                  "Failed to fetch email lists: MailChimp could not be reached",
+                code: "mailchimp_unavailable",
+                data: null,
+              },
+            },
+          },
+        },
+        MailChimpTimeout: {
+          description:
+            "Gateway Timeout - MailChimp did not respond in time (`mailchimp_timeout`)",
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/ErrorResponse",
+              },
+              example: {
+                success: false,
+                message:
+                  "Failed to fetch email lists: MailChimp did not respond in time",
+                code: "mailchimp_timeout",
+                data: null,
+              },
+            },
+          },
+        },
+        CampaignNotFound: {
+          description: "Not Found - Campaign does not exist in this account",
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/ErrorResponse",
+              },
+              example: {
+                success: false,
+                message: "Campaign not found",
+                code: "campaign_not_found",
+                data: null,
+              },
+            },
+          },
+        },
+        CampaignNotDraft: {
+          description: "Conflict - Campaign has already been sent or scheduled",
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/ErrorResponse",
+              },
+              example: {
+                success: false,
+                message:
+                  'Only draft campaigns can be edited (status is "sent")',
+                code: "campaign_not_draft",
+                data: null,
+              },
+            },
+          },
+        },
+        IdempotencyConflict: {
+          description:
+            "Conflict - Idempotency-Key was used for a different request (`idempotency_key_reused`) or the first request is still running (`idempotency_request_in_progress`)",
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/ErrorResponse",
+              },
+              example: {
+                success: false,
+                message:
+                  "Idempotency-Key has already been used for a different request",
+                code: "idempotency_key_reused",
+                data: null,
+              },
+            },
+          },
+        },
+        CampaignSendFailed: {
+          description:
+            "A send step failed; the draft it left behind was cleaned up. The status and code are those of the failure (e.g. 502 mailchimp_unavailable, 504 mailchimp_timeout, 500 campaign_send_failed for unexpected errors)",
+          content: {
+            "application/json": {
+              schema: {
+                allOf: [
+                  { $ref: "#/components/schemas/ApiResponse" },
+                  {
+                    type: "object",
+                    properties: {
+                      data: {
+                        $ref: "#/components/schemas/SendFailure",
+                      },
+                    },
+                  },
+                ],
+              },
+              example: {
+                success: false,
+                message:
+                  "Failed to set campaign content: MailChimp did not respond in time (content step)",
+                code: "mailchimp_timeout",
+                data: {
+                  failedStep: "content",
+                  completedSteps: ["create"],
+                  campaignId: "b03bfc2a2c",
+                  draft: "deleted",
+                },
+              },
+            },
+          },
+        },
+        CampaignNotReady: {
+          description:
+            "Unprocessable Entity - Send checklist has blocking errors; the campaign was left as a draft",
+          content: {
+            "application/json": {
+              schema: {
+                allOf: [
+                  { $ref: "#/components/schemas/ApiResponse" },
+                  {
+                    type: "object",
+                    properties: {
+                      data: {
+                        $ref: "#/components/schemas/CampaignResponse",
+                      },
+                    },
+                  },
+                ],
+              },
+              example: {
+                success: false,
+                message: "Campaign is not ready to send",
+                code: "campaign_not_ready",
+                data: {
+                  campaignId: "b03bfc2a2c",
+                  status: "save",
+                  message: "Campaign is not ready to send",
+                  checklist: {
+                    isReady: false,
+                    errors: [
+                      {
+                        id: 3,
+                        heading: "Subject Line",
+                        details: "You need to add a subject line.",
+                      },
+                    ],
+                    warnings: [],
+                  },
+                },
+              },
+            },
+          },
+        },
+        ReportNotFound: {
+          description:
+            "Not Found - Campaign does not exist or has not been sent yet",
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/ErrorResponse",
+              },
+              example: {
+                success: false,
+                message: "No report found for this campaign",
+                code: "not_found",
+                data: null,
+              },
+            },
+          },
+        },
+        MergeFieldNotFound: {
+          description: "Not Found - Merge field does not exist on this list",
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/ErrorResponse",
+              },
+              example: {
+                success: false,
+                message: "Merge field not found",
+                code: "not_found",
+                data: null,
+              },
+            },
+          },
+        },
+        InterestCategoryNotFound: {
+          description:
+            "Not Found - Interest category does not exist on this list",
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/ErrorResponse",
+              },
+              example: {
+                success: false,
+                message: "Interest category not found",
+                code: "not_found",
+                data: null,
+              },
+            },
+          },
+        },
+        InterestNotFound: {
+          description: "Not Found - Interest does not exist in this category",
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/ErrorResponse",
+              },
+              example: {
+                success: false,
+                message: "Interest not found",
+                code: "not_found",
+                data: null,
+              },
+            },
+          },
+        },
+        WebhookNotFound: {
+          description:
+            "Not Found - Unknown webhook registration or wrong secret",
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/ErrorResponse",
+              },
+              example: {
+                success: false,
+                message: "Webhook not found",
+                code: "not_found",
                 data: null,
               },
             },
@@ -287,6 +2517,7 @@ const options = {
               example: {
                 success: false,
                 message: "Endpoint not found",
+                code: "endpoint_not_found",
                 data: null,
               },
             },
@@ -307,10 +2538,26 @@ const options = {
         name: "Lists",
         description: "MailChimp list management",
       },
+      {
+        name: "Members",
+        description: "Audience member management",
+      },
       {
         name: "Campaigns",
         description: "Email campaign creation and sending",
       },
+      {
+        name: "Reports",
+        description: "Campaign reporting and analytics",
+      },
+      {
+        name: "Webhooks",
+        description: "MailChimp audience event webhooks",
+      },
+      {
+        name: "Admin",
+        description: "Operational endpoints protected by ADMIN_API_KEY",
+      },
       {
         name: "Health",
         description: "API health and information endpoints",
@@ -1,10 +1,33 @@
 import express from "express";
 import cors from "cors";
+import cookieParser from "cookie-parser";
 import dotenv from "dotenv";
 import swaggerUi from "swagger-ui-express";
 import mailchimpRouter from "./routes/mailchimp";
+import membersRouter from "./routes/members";
+import importsRouter from "./routes/imports";
+import campaignsRouter from "./routes/campaigns";
+import reportsRouter from "./routes/reports";
+import mergeFieldsRouter from "./routes/mergeFields";
+import interestsRouter from "./routes/interests";
+import listWebhooksRouter from "./routes/listWebhooks";
+import audienceRouter from "./routes/audience";
+import webhooksRouter from "./routes/webhooks";
+import adminRouter from "./routes/admin";
 import { MailChimpService } from "./services/mailchimpService";
+import { sendJobService } from "./services/sendJobService";
+import {
+  OAuthStateService,
+  OAuthStateError,
+} from "./services/oauthStateService";
+import { OAUTH_BINDING_COOKIE } from "./config/mailchimp";
+import {
+  getCookieSecret,
+  isCookieSessionMode,
+  setSessionCookie,
+} from "./utils/sessionCookie";
 import { specs } from "./config/swagger";
+import { errorHandler } from "./middleware/errorHandler";
 
 // Load environment variables
 dotenv.config();
@@ -14,39 +37,41 @@ const port = process.env.PORT || 3001;
 
 // Initialize MailChimp service for OAuth callback
 const mailchimpService = new MailChimpService();
+const oauthStateService = new OAuthStateService();
 
-// Helper function to generate session ID
-const generateSessionId = (req: express.Request): string => {
-  return req.ip + "-" + Date.now() + "-" + Math.random().toString(36);
+// Middleware
+// Credentialed requests need an explicit origin, so preflights share these options
+const corsOptions: cors.CorsOptions = {
+  origin: process.env.FRONTEND_URL || "http://localhost:8090",
+  credentials: true,
+  methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS", "PATCH"],
+  allowedHeaders: [
+    "Origin",
+    "X-Requested-With",
+    "Content-Type",
+    "Accept",
+    "Authorization",
+    "X-Session-Id",
+    "Idempotency-Key",
+    "Auth-Domain",
+    "sec-ch-ua",
+    "sec-ch-ua-mobile",
+    "sec-ch-ua-platform",
+    "User-Agent",
+    "Referer",
+  ],
+  // Cookie mode keeps the session ID out of reach of scripts
+  exposedHeaders: isCookieSessionMode()
+    ? ["Idempotent-Replayed"]
+    : ["X-Session-Id", "Idempotent-Replayed"],
 };
 
-// Middleware
-app.use(
-  cors({
-    origin: process.env.FRONTEND_URL || "http://localhost:8090",
-    credentials: true,
-    methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS", "PATCH"],
-    allowedHeaders: [
-      "Origin",
-      "X-Requested-With",
-      "Content-Type",
-      "Accept",
-      "Authorization",
-      "X-Session-Id",
-      "Auth-Domain",
-      "sec-ch-ua",
-      "sec-ch-ua-mobile",
-      "sec-ch-ua-platform",
-      "User-Agent",
-      "Referer",
-    ],
-    exposedHeaders: ["X-Session-Id"],
-  })
-);
+app.use(cors(corsOptions));
 
 // Handle preflight requests for all routes
-app.options("*", cors());
+app.options("*", cors(corsOptions));
 
+app.use(cookieParser(getCookieSecret()));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
@@ -73,8 +98,12 @@ app.use(
  *     summary: OAuth callback endpoint for MailChimp authorization
  *     description: |
  *       This endpoint receives the OAuth callback from MailChimp after user authorization.
- *       It processes the authorization code, exchanges it for an access token, and redirects
- *       to the frontend with the result.
+ *       It validates the `state` issued by `GET /api/mailchimp/connect`, exchanges the
+ *       authorization code for an access token, and redirects to the frontend with the result.
+ *
+ *       A missing, unknown, expired, replayed or mismatched state redirects to the frontend
+ *       with `error` set to `missing_state`, `invalid_state`, `expired_state`,
+ *       `replayed_state` or `state_mismatch`.
  *
  *       **Note**: This endpoint is called directly by MailChimp, not by your frontend.
  *     parameters:
@@ -87,10 +116,11 @@ app.use(
  *         example: "abc123def456ghi789"
  *       - in: query
  *         name: state
+ *         required: true
  *         schema:
  *           type: string
- *         description: State parameter for CSRF protection
- *         example: "random-state-string"
+ *         description: State issued by GET /api/mailchimp/connect (CSRF protection)
+ *         example: "Zk3v..."
  *       - in: query
  *         name: error
  *         schema:
@@ -112,6 +142,9 @@ app.use(
  *               success:
  *                 summary: Successful OAuth flow
  *                 value: "Redirects to: http://localhost:8090/oauth-verify/mailchimp?success=true&session_id=xyz&account_name=Company&user_email=user@example.com"
+ *               success_cookie_mode:
+ *                 summary: Successful OAuth flow with SESSION_TRANSPORT=cookie (session ID set as a signed HttpOnly cookie)
+ *                 value: "Redirects to: http://localhost:8090/oauth-verify/mailchimp?success=true&account_name=Company&user_email=user@example.com"
  *               error:
  *                 summary: OAuth flow with error
  *                 value: "Redirects to: http://localhost:8090/oauth-verify/mailchimp?error=processing_failed&error_description=Failed%20to%20process%20OAuth%20callback"
@@ -146,6 +179,25 @@ app.get("/oauth-verify/mailchimp", async (req, res) => {
       );
     }
 
+    // Validate state issued to this browser by /connect
+    let stateRecord;
+    try {
+      stateRecord = await oauthStateService.consumeState(
+        state,
+        req.cookies?.[OAUTH_BINDING_COOKIE]
+      );
+    } catch (stateError) {
+      if (stateError instanceof OAuthStateError) {
+        console.error("OAuth state rejected:", stateError.code);
+        return res.redirect(
+          `${frontendCallbackUrl}?error=${
+            stateError.code
+          }&error_description=${encodeURIComponent(stateError.message)}`
+        );
+      }
+      throw stateError;
+    }
+
     // Exchange code for access token
     const tokenResponse = await mailchimpService.exchangeCodeForToken(code);
 
@@ -154,21 +206,27 @@ app.get("/oauth-verify/mailchimp", async (req, res) => {
       tokenResponse.access_token
     );
 
-    // Generate session ID and store session
-    const sessionId = generateSessionId(req);
-    mailchimpService.storeUserSession(
-      sessionId,
+    // Link into the session that started /connect, or start a new one
+    const { sessionId } = await mailchimpService.connectAccount(
+      stateRecord.sessionId,
       tokenResponse.access_token,
       metadata
     );
 
-    // Redirect to frontend with success and session info
-    const successUrl = `${frontendCallbackUrl}?success=true&session_id=${encodeURIComponent(
-      sessionId
-    )}&account_name=${encodeURIComponent(
+    // Redirect to frontend with success and session info; in cookie mode the
+    // session ID travels in an HttpOnly cookie instead of the URL
+    let sessionParam = `&session_id=${encodeURIComponent(sessionId)}`;
+    if (isCookieSessionMode()) {
+      setSessionCookie(res, sessionId);
+      sessionParam = "";
+    }
+
+    const successUrl = `${frontendCallbackUrl}?success=true${sessionParam}&account_name=${encodeURIComponent(
       metadata.accountname
     )}&user_email=${encodeURIComponent(metadata.login.email)}`;
 
+    // The binding cookie is left to expire on its own, so other flows started
+    // from this browser can still finish; each state is single-use anyway
     res.redirect(successUrl);
   } catch (error: any) {
     console.error("OAuth callback processing error:", error);
@@ -186,6 +244,16 @@ app.get("/oauth-verify/mailchimp", async (req, res) => {
 
 // Routes
 app.use("/api/mailchimp", mailchimpRouter);
+app.use("/api/mailchimp/lists/:listId/members", membersRouter);
+app.use("/api/mailchimp/lists/:listId/imports", importsRouter);
+app.use("/api/mailchimp/lists/:listId/merge-fields", mergeFieldsRouter);
+app.use("/api/mailchimp/lists/:listId/interest-categories", interestsRouter);
+app.use("/api/mailchimp/lists/:listId/webhooks", listWebhooksRouter);
+app.use("/api/mailchimp/lists/:listId", audienceRouter);
+app.use("/api/mailchimp/campaigns", campaignsRouter);
+app.use("/api/mailchimp/reports", reportsRouter);
+app.use("/api/admin", adminRouter);
+app.use("/webhooks/mailchimp", webhooksRouter);
 
 /**
  * @swagger
@@ -223,7 +291,13 @@ app.use("/api/mailchimp", mailchimpRouter);
  *                     "GET /api/mailchimp/status",
  *                     "GET /api/mailchimp/lists",
  *                     "POST /api/mailchimp/campaign/send",
- *                     "POST /api/mailchimp/disconnect"
+ *                     "POST /api/mailchimp/disconnect",
+ *                     "GET /api/mailchimp/accounts",
+ *                     "PUT /api/mailchimp/accounts/active",
+ *                     "DELETE /api/mailchimp/accounts/{accountId}",
+ *                     "POST /api/mailchimp/campaign/test",
+ *                     "GET /api/mailchimp/campaign/send/jobs/{jobId}",
+ *                     "POST /api/mailchimp/lists/{listId}/members"
  *                   ]
  */
 // Health check endpoint
@@ -240,36 +314,70 @@ app.get("/", (req, res) => {
       "GET /api/mailchimp/lists",
       "POST /api/mailchimp/campaign/send",
       "POST /api/mailchimp/disconnect",
+      "GET /api/mailchimp/accounts",
+      "PUT /api/mailchimp/accounts/active",
+      "DELETE /api/mailchimp/accounts/:accountId",
+      "POST /api/mailchimp/campaign/test",
+      "GET /api/mailchimp/campaign/send/jobs/:jobId",
+      "POST /api/mailchimp/lists/:listId/members",
+      "GET /api/mailchimp/lists/:listId/members/:memberId",
+      "PATCH /api/mailchimp/lists/:listId/members/:memberId",
+      "POST /api/mailchimp/lists/:listId/members/:memberId/unsubscribe",
+      "DELETE /api/mailchimp/lists/:listId/members/:memberId",
+      "POST /api/mailchimp/lists/:listId/imports",
+      "GET /api/mailchimp/lists/:listId/imports/:jobId",
+      "GET /api/mailchimp/lists/:listId/segments",
+      "GET /api/mailchimp/lists/:listId/tags",
+      "GET /api/mailchimp/lists/:listId/merge-fields",
+      "POST /api/mailchimp/lists/:listId/merge-fields",
+      "GET /api/mailchimp/lists/:listId/merge-fields/:mergeId",
+      "PATCH /api/mailchimp/lists/:listId/merge-fields/:mergeId",
+      "DELETE /api/mailchimp/lists/:listId/merge-fields/:mergeId",
+      "GET /api/mailchimp/lists/:listId/interest-categories",
+      "POST /api/mailchimp/lists/:listId/interest-categories",
+      "GET /api/mailchimp/lists/:listId/interest-categories/:categoryId",
+      "PATCH /api/mailchimp/lists/:listId/interest-categories/:categoryId",
+      "DELETE /api/mailchimp/lists/:listId/interest-categories/:categoryId",
+      "POST /api/mailchimp/lists/:listId/interest-categories/:categoryId/interests",
+      "PATCH /api/mailchimp/lists/:listId/interest-categories/:categoryId/interests/:interestId",
+      "DELETE /api/mailchimp/lists/:listId/interest-categories/:categoryId/interests/:interestId",
+      "POST /api/mailchimp/lists/:listId/recipients/preview",
+      "POST /api/mailchimp/lists/:listId/webhooks",
+      "GET /api/mailchimp/lists/:listId/webhooks",
+      "DELETE /api/mailchimp/lists/:listId/webhooks/:registrationId",
+      "POST /api/mailchimp/campaigns",
+      "GET /api/mailchimp/campaigns/:campaignId",
+      "PATCH /api/mailchimp/campaigns/:campaignId",
+      "DELETE /api/mailchimp/campaigns/:campaignId",
+      "POST /api/mailchimp/campaigns/:campaignId/send",
+      "POST /api/mailchimp/campaigns/:campaignId/schedule",
+      "POST /api/mailchimp/campaigns/:campaignId/unschedule",
+      "GET /api/mailchimp/reports",
+      "GET /api/mailchimp/reports/:campaignId",
+      "GET /api/mailchimp/reports/:campaignId/links",
     ],
   });
 });
 
 // Error handling middleware
-app.use(
-  (
-    err: any,
-    req: express.Request,
-    res: express.Response,
-    next: express.NextFunction
-  ) => {
-    console.error("Unhandled error:", err);
-    res.status(500).json({
-      success: false,
-      message: "Internal server error",
-      data: null,
-    });
-  }
-);
+app.use(errorHandler);
 
 // 404 handler
 app.use("*", (req, res) => {
   res.status(404).json({
     success: false,
     message: "Endpoint not found",
+    code: "endpoint_not_found",
     data: null,
   });
 });
 
+// Remove expired sessions in the background
+mailchimpService.startSessionSweeper();
+
+// Resume queued or interrupted campaign send jobs, then keep polling for new ones
+sendJobService.startWorker();
+
 app.listen(port, () => {
   console.log(
     `🚀 MailChimp Backend Server is running at http://localhost:${port}`
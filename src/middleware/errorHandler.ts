@@ -0,0 +1,87 @@
+import { Request, Response, NextFunction } from "express";
+import { MailChimpService } from "../services/mailchimpService";
+import { ApiError, RateLimitedError, TokenRevokedError } from "../utils/errors";
+import { ApiResponse } from "../types/mailchimp";
+// Declares req.sessionId and req.mailchimpConnection
+import "./session";
+
+const mailchimpService = new MailChimpService();
+
+// body-parser marks its failures with a `type` and an HTTP `status`
+const BODY_PARSER_CODES: Record<string, string> = {
+  "entity.parse.failed": "invalid_json",
+  "entity.too.large": "payload_too_large",
+  "encoding.unsupported": "unsupported_encoding",
+  "charset.unsupported": "unsupported_encoding",
+};
+
+// Central error handler; routes pass errors here with next(error). ApiErrors
+// become their own status and code, anything else is a generic 500. When
+// MailChimp rejects the token of the account a request used, that account is
+// marked revoked so the session reports reconnectRequired.
+// Mount after every router.
+export const errorHandler = async (
+  error: any,
+  req: Request,
+  res: Response<ApiResponse>,
+  next: NextFunction
+) => {
+  if (res.headersSent) return next(error);
+
+  const connection = req.mailchimpConnection;
+  if (
+    error instanceof TokenRevokedError &&
+    req.sessionId &&
+    connection &&
+    !connection.revokedAt
+  ) {
+    await mailchimpService
+      .markConnectionRevoked(req.sessionId, connection.accountId)
+      .catch((markError) =>
+        console.error("Revoked account update error:", markError.message)
+      );
+  }
+
+  if (error instanceof ApiError) {
+    if (error.status >= 500) {
+      console.error(
+        `${req.method} ${req.originalUrl} error:`,
+        error.message,
+        error.problem || ""
+      );
+    }
+
+    if (
+      error instanceof RateLimitedError &&
+      error.retryAfterSeconds !== undefined
+    ) {
+      res.setHeader("Retry-After", String(error.retryAfterSeconds));
+    }
+
+    return res.status(error.status).json({
+      success: false,
+      message: error.message,
+      code: error.code,
+      errors: error.fieldErrors,
+      details: error.problem,
+      data: error.data ?? null,
+    });
+  }
+
+  if (error?.type && BODY_PARSER_CODES[error.type]) {
+    return res.status(error.status || 400).json({
+      success: false,
+      message: error.message,
+      code: BODY_PARSER_CODES[error.type],
+      data: null,
+    });
+  }
+
+  console.error(`${req.method} ${req.originalUrl} error:`, error);
+  res.status(500).json({
+    success: false,
+    message: "Internal server error",
+    code: "internal_error",
+    data: null,
+  });
+};
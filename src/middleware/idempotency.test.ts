@@ -0,0 +1,184 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import express, { NextFunction, Request, Response } from "express";
+import { idempotencyKey, markUnsafeToRetry } from "./idempotency";
+import { errorHandler } from "./errorHandler";
+import { MemoryIdempotencyStore } from "../services/idempotencyStore";
+import { ApiError } from "../utils/errors";
+import { UserSession } from "../types/mailchimp";
+
+let server: Server;
+let baseUrl: string;
+let calls = 0;
+
+// Lets a test hold /slow open while it sends a second request
+let enteredSlow: () => void = () => undefined;
+let releaseSlow: () => void = () => undefined;
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  // Stands in for requireSession; the user comes from a test header
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    req.userSession = {
+      userId: String(req.headers["x-user"] || "u1"),
+    } as UserSession;
+    next();
+  });
+  app.use(idempotencyKey(new MemoryIdempotencyStore()));
+
+  app.post("/send", (req, res) => {
+    calls++;
+    res.json({ success: true, data: { calls, body: req.body } });
+  });
+  app.post("/fail", (req, res, next) => {
+    calls++;
+    next(new ApiError(500, "boom", "Boom"));
+  });
+  app.post("/unsafe-fail", (req, res, next) => {
+    calls++;
+    markUnsafeToRetry(res);
+    next(new ApiError(502, "boom", "Boom"));
+  });
+  app.post("/empty", (req, res) => {
+    calls++;
+    res.status(204).end();
+  });
+  app.post("/slow", async (req, res) => {
+    calls++;
+    await new Promise<void>((resolve) => {
+      releaseSlow = resolve;
+      enteredSlow();
+    });
+    res.json({ success: true, data: { calls } });
+  });
+  app.use(errorHandler);
+
+  server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => server.close());
+
+const post = (
+  path: string,
+  key: string | undefined,
+  body: unknown = {},
+  user = "u1"
+) =>
+  fetch(`${baseUrl}${path}`, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      "x-user": user,
+      ...(key === undefined ? {} : { "idempotency-key": key }),
+    },
+    body: JSON.stringify(body),
+  });
+
+test("requests without a key always run", async () => {
+  calls = 0;
+  await post("/send", undefined);
+  await post("/send", undefined);
+
+  assert.equal(calls, 2);
+});
+
+test("a repeated key replays the stored response", async () => {
+  calls = 0;
+  const first = await post("/send", "replay-1", { a: 1, b: 2 });
+  // Key order doesn't make it a different request
+  const second = await post("/send", "replay-1", { b: 2, a: 1 });
+
+  assert.equal(calls, 1);
+  assert.equal(second.status, 200);
+  assert.equal(first.headers.get("idempotent-replayed"), null);
+  assert.equal(second.headers.get("idempotent-replayed"), "true");
+  assert.deepEqual(await second.json(), await first.json());
+});
+
+test("keys are scoped to the user", async () => {
+  calls = 0;
+  await post("/send", "scoped-1", {}, "alice");
+  const other = await post("/send", "scoped-1", {}, "bob");
+
+  assert.equal(calls, 2);
+  assert.equal(other.headers.get("idempotent-replayed"), null);
+});
+
+test("reusing a key for a different request is a conflict", async () => {
+  calls = 0;
+  await post("/send", "reuse-1", { a: 1 });
+  const changedBody = await post("/send", "reuse-1", { a: 2 });
+  const changedPath = await post("/empty", "reuse-1", { a: 1 });
+
+  assert.equal(calls, 1);
+  assert.equal(changedBody.status, 409);
+  assert.equal((await changedBody.json()).code, "idempotency_key_reused");
+  assert.equal(changedPath.status, 409);
+});
+
+test("a key is rejected while its first request is still running", async () => {
+  calls = 0;
+  const entered = new Promise<void>((resolve) => (enteredSlow = resolve));
+  const first = post("/slow", "slow-1");
+  await entered;
+
+  const concurrent = await post("/slow", "slow-1");
+  assert.equal(concurrent.status, 409);
+  assert.equal(
+    (await concurrent.json()).code,
+    "idempotency_request_in_progress"
+  );
+
+  releaseSlow();
+  assert.equal((await first).status, 200);
+
+  const replay = await post("/slow", "slow-1");
+  assert.equal(replay.headers.get("idempotent-replayed"), "true");
+  assert.equal(calls, 1);
+});
+
+test("server errors release the key so the request can be retried", async () => {
+  calls = 0;
+  const first = await post("/fail", "fail-1");
+  const retry = await post("/fail", "fail-1");
+
+  assert.equal(first.status, 500);
+  assert.equal(retry.status, 500);
+  assert.equal(retry.headers.get("idempotent-replayed"), null);
+  assert.equal(calls, 2);
+});
+
+test("server errors after markUnsafeToRetry are replayed", async () => {
+  calls = 0;
+  const first = await post("/unsafe-fail", "unsafe-1");
+  const retry = await post("/unsafe-fail", "unsafe-1");
+
+  assert.equal(calls, 1);
+  assert.equal(retry.status, 502);
+  assert.equal(retry.headers.get("idempotent-replayed"), "true");
+  assert.deepEqual(await retry.json(), await first.json());
+});
+
+test("responses without a JSON body are replayed with their status", async () => {
+  calls = 0;
+  await post("/empty", "empty-1");
+  const retry = await post("/empty", "empty-1");
+
+  assert.equal(calls, 1);
+  assert.equal(retry.status, 204);
+  assert.equal(retry.headers.get("idempotent-replayed"), "true");
+});
+
+test("malformed keys are rejected", async () => {
+  calls = 0;
+  const response = await post("/send", "has spaces");
+
+  assert.equal(calls, 0);
+  assert.equal(response.status, 400);
+  assert.equal((await response.json()).code, "invalid_idempotency_key");
+});
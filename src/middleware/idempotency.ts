@@ -0,0 +1,167 @@
+import crypto from "crypto";
+import { Request, Response, NextFunction } from "express";
+import {
+  IdempotencyStore,
+  createIdempotencyStore,
+} from "../services/idempotencyStore";
+import { getIdempotencyConfig } from "../config/mailchimp";
+import { ConflictError, ValidationError } from "../utils/errors";
+import { IdempotencyRecord } from "../types/mailchimp";
+// Declares req.userSession and req.mailchimpConnection
+import "./session";
+
+// Shared key storage, selected via IDEMPOTENCY_STORE
+const defaultIdempotencyStore = createIdempotencyStore();
+
+// Printable ASCII, as in the IETF Idempotency-Key header draft
+export const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+// Responses whose handler has started a step that must not run twice
+const unsafeToRetry = new WeakSet<Response>();
+
+// Call before a non-idempotent step (such as sending a campaign). From then on
+// even a server error is stored with the key, since the step may have taken
+// effect and a retry must not repeat it.
+export const markUnsafeToRetry = (res: Response) => {
+  unsafeToRetry.add(res);
+};
+
+// Sort object keys so logically equal bodies hash the same
+const canonicalize = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === "object") {
+    const entries = value as Record<string, unknown>;
+    return Object.fromEntries(
+      Object.keys(entries)
+        .sort()
+        .map((key) => [key, canonicalize(entries[key])])
+    );
+  }
+  return value;
+};
+
+// Hash of everything that makes two requests "the same request"
+const fingerprintRequest = (req: Request): string =>
+  crypto
+    .createHash("sha256")
+    .update(
+      JSON.stringify(
+        canonicalize({
+          method: req.method,
+          path: req.baseUrl + req.path,
+          accountId: req.mailchimpConnection?.accountId,
+          query: req.query,
+          body: req.body,
+        })
+      )
+    )
+    .digest("hex");
+
+// Honour an optional Idempotency-Key header. The first request's response is
+// stored with the key; replays get it back without running the handler again.
+// Reusing a key for a different request, or while the first one is still
+// running, is a 409 until the request finishes or its lease runs out. Server
+// errors release the key so the request can be retried, unless the handler
+// called markUnsafeToRetry first. Must run after requireSession (keys are
+// scoped to the user).
+export const idempotencyKey =
+  (store: IdempotencyStore = defaultIdempotencyStore) =>
+  async (req: Request, res: Response<unknown>, next: NextFunction) => {
+    try {
+      const key = req.headers["idempotency-key"];
+
+      if (key === undefined) return next();
+
+      if (typeof key !== "string" || !IDEMPOTENCY_KEY_PATTERN.test(key)) {
+        return next(
+          new ValidationError(
+            "Idempotency-Key must be 1-255 printable characters without spaces",
+            [],
+            "invalid_idempotency_key"
+          )
+        );
+      }
+
+      const storeKey = `${req.userSession!.userId}:${key}`;
+      const fingerprint = fingerprintRequest(req);
+      const { ttlMs, leaseMs } = getIdempotencyConfig();
+      const createdAt = new Date();
+      // Held only for the lease until the request finishes
+      const record: IdempotencyRecord = {
+        fingerprint,
+        status: "in_progress",
+        createdAt,
+        expiresAt: new Date(createdAt.getTime() + leaseMs),
+      };
+
+      const existing = await store.claim(storeKey, record);
+
+      if (existing) {
+        if (existing.fingerprint !== fingerprint) {
+          return next(
+            new ConflictError(
+              "Idempotency-Key has already been used for a different request",
+              "idempotency_key_reused"
+            )
+          );
+        }
+
+        if (existing.status === "in_progress") {
+          return next(
+            new ConflictError(
+              "A request with this Idempotency-Key is still in progress",
+              "idempotency_request_in_progress"
+            )
+          );
+        }
+
+        res.setHeader("Idempotent-Replayed", "true");
+        res.status(existing.statusCode!);
+        return existing.body === undefined
+          ? res.end()
+          : res.json(existing.body);
+      }
+
+      // Store the outcome (or release the key) once per request
+      let finished = false;
+      const finish = (body?: unknown): Promise<void> => {
+        finished = true;
+        const saved =
+          res.statusCode >= 500 && !unsafeToRetry.has(res)
+            ? store.delete(storeKey)
+            : store.set(storeKey, {
+                ...record,
+                status: "completed",
+                statusCode: res.statusCode,
+                body,
+                expiresAt: new Date(Date.now() + ttlMs),
+              });
+
+        return saved.catch((error) =>
+          console.error("Idempotency record write error:", error)
+        );
+      };
+
+      // Record the outcome before the response goes out, so a retry that
+      // arrives right after it sees the stored result
+      const sendJson = res.json.bind(res);
+      res.json = (body) => {
+        if (finished) return sendJson(body);
+        finish(body).finally(() => sendJson(body));
+        return res;
+      };
+
+      // Responses that bypass res.json (res.send, res.end, Express's default
+      // error page) are recorded without a body once they have gone out. A
+      // client that disconnects doesn't stop the handler, whose res.json still
+      // records the outcome; a handler that never answers holds the key only
+      // until the lease runs out.
+      res.on("finish", () => {
+        if (!finished) finish();
+      });
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
@@ -0,0 +1,139 @@
+import { Request, Response, NextFunction } from "express";
+import { MailChimpService } from "../services/mailchimpService";
+import { clearSessionCookie, readSessionCookie } from "../utils/sessionCookie";
+import {
+  ForbiddenError,
+  NotFoundError,
+  SessionError,
+  TokenRevokedError,
+} from "../utils/errors";
+import {
+  ApiResponse,
+  MailChimpConnection,
+  UserSession,
+} from "../types/mailchimp";
+
+declare global {
+  namespace Express {
+    interface Request {
+      sessionId?: string;
+      userSession?: UserSession;
+      mailchimpConnection?: MailChimpConnection;
+    }
+  }
+}
+
+const mailchimpService = new MailChimpService();
+
+// Get session ID from the X-Session-Id header or the signed session cookie
+export const getSessionId = (req: Request): string | undefined => {
+  const header = req.headers["x-session-id"];
+  if (typeof header === "string" && header) {
+    return header;
+  }
+
+  return readSessionCookie(req);
+};
+
+// Resolve the caller's session and attach it to req.sessionId / req.userSession
+const resolveSession =
+  (required: boolean) =>
+  async (req: Request, res: Response<ApiResponse>, next: NextFunction) => {
+    try {
+      const sessionId = getSessionId(req);
+
+      if (!sessionId) {
+        if (!required) return next();
+        throw new SessionError("session_required", "Session ID is required");
+      }
+
+      const session = await mailchimpService
+        .getUserSession(sessionId)
+        .catch((error) => {
+          if (!required && error instanceof SessionError) return null;
+          throw error;
+        });
+
+      if (!session) {
+        if (!required) {
+          // A stale session counts as none. Its cookie outlives the idle
+          // timeout and the frontend can't remove an HttpOnly cookie.
+          if (readSessionCookie(req) === sessionId) clearSessionCookie(res);
+          return next();
+        }
+        throw new SessionError("session_not_found", "Session not found");
+      }
+
+      req.sessionId = sessionId;
+      req.userSession = session;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+// Reject requests without a valid session
+export const requireSession = resolveSession(true);
+
+// Allow requests without a session; an unknown or expired session is treated
+// as none, so a user whose session lapsed can still connect again
+export const optionalSession = resolveSession(false);
+
+// Pick the MailChimp account to act on: `accountId` from the query or body,
+// else the session's active account. Must run after requireSession.
+export const requireConnection = (
+  req: Request,
+  res: Response<ApiResponse>,
+  next: NextFunction
+) => {
+  const requested = req.query.accountId || req.body?.accountId;
+  const accountId = typeof requested === "string" ? requested : undefined;
+  const connection = mailchimpService.getConnection(
+    req.userSession!,
+    accountId
+  );
+
+  if (!connection) {
+    return next(
+      new NotFoundError(
+        "MailChimp account is not linked to this session",
+        "account_not_found"
+      )
+    );
+  }
+
+  if (connection.revokedAt) {
+    return next(
+      new TokenRevokedError("MailChimp access was revoked, reconnect required")
+    );
+  }
+
+  req.mailchimpConnection = connection;
+  next();
+};
+
+// Cookie-authenticated writes must carry a custom header, which cross-site
+// forms can't send and cross-origin scripts can't add without passing CORS
+export const requireCsrfHeader = (
+  req: Request,
+  res: Response<ApiResponse>,
+  next: NextFunction
+) => {
+  const isSafeMethod = ["GET", "HEAD", "OPTIONS"].includes(req.method);
+
+  if (
+    !isSafeMethod &&
+    !req.headers["x-session-id"] &&
+    readSessionCookie(req) &&
+    !req.headers["x-requested-with"]
+  ) {
+    return next(
+      new ForbiddenError(
+        "X-Requested-With header is required for cookie sessions",
+        "csrf_header_required"
+      )
+    );
+  }
+
+  next();
+};
@@ -0,0 +1,42 @@
+import { Request, Response, NextFunction } from "express";
+import { Schema } from "../utils/schema";
+import { ValidationError } from "../utils/errors";
+import { ApiResponse, FieldError } from "../types/mailchimp";
+
+export interface RequestSchemas {
+  body?: Schema<unknown>;
+  query?: Schema<unknown>;
+  // Route parameters (including those merged from the parent router)
+  params?: Schema<unknown>;
+  // Keys are lower-case header names
+  headers?: Schema<unknown>;
+}
+
+// Check the request against its schemas and reject it with every field error
+// at once (400 validation_failed). On success the body, query and params are
+// replaced by their parsed form: unknown fields dropped, query numbers and
+// flags converted.
+export const validateRequest =
+  (schemas: RequestSchemas) =>
+  (req: Request, res: Response<ApiResponse>, next: NextFunction) => {
+    const errors: FieldError[] = [];
+
+    const body = schemas.body?.parse(req.body ?? {}, "", errors);
+    const query = schemas.query?.parse(req.query, "", errors);
+    const params = schemas.params?.parse(req.params, "", errors);
+    schemas.headers?.parse(req.headers, "", errors);
+
+    if (errors.length > 0) {
+      return next(
+        new ValidationError(
+          errors.map((error) => error.message).join("; "),
+          errors
+        )
+      );
+    }
+
+    if (schemas.body) req.body = body;
+    if (schemas.query) req.query = query as Request["query"];
+    if (schemas.params) req.params = params as Request["params"];
+    next();
+  };
@@ -0,0 +1,89 @@
+import crypto from "crypto";
+import { Router, Request, Response, NextFunction } from "express";
+import { MailChimpService } from "../services/mailchimpService";
+import { ApiResponse, ReencryptSessionsResult } from "../types/mailchimp";
+import { ForbiddenError } from "../utils/errors";
+
+const router = Router();
+const mailchimpService = new MailChimpService();
+
+// Only allow requests carrying the configured ADMIN_API_KEY
+const requireAdminKey = (
+  req: Request,
+  res: Response<ApiResponse>,
+  next: NextFunction
+) => {
+  const adminKey = process.env.ADMIN_API_KEY;
+  const providedKey = req.headers["x-admin-key"];
+
+  if (
+    !adminKey ||
+    typeof providedKey !== "string" ||
+    providedKey.length !== adminKey.length ||
+    !crypto.timingSafeEqual(Buffer.from(providedKey), Buffer.from(adminKey))
+  ) {
+    return next(new ForbiddenError("Admin access denied"));
+  }
+
+  next();
+};
+
+router.use(requireAdminKey);
+
+/**
+ * @swagger
+ * /api/admin/sessions/reencrypt:
+ *   post:
+ *     tags:
+ *       - Admin
+ *     summary: Re-encrypt stored access tokens under the current key
+ *     description: |
+ *       Re-seals every stored MailChimp access token with the key named by
+ *       `TOKEN_ENCRYPTION_KEY_ID`. Run this after introducing a new key, then
+ *       remove the old key from `TOKEN_ENCRYPTION_KEYS` once `failed` is 0.
+ *     parameters:
+ *       - $ref: '#/components/parameters/AdminKey'
+ *     responses:
+ *       200:
+ *         description: Re-encryption finished
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/ReencryptSessionsResult'
+ *             example:
+ *               success: true
+ *               data:
+ *                 total: 42
+ *                 reencrypted: 40
+ *                 failed: 0
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+router.post(
+  "/sessions/reencrypt",
+  async (
+    req: Request,
+    res: Response<ApiResponse<ReencryptSessionsResult>>,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await mailchimpService.reencryptSessions();
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,303 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { MailChimpService } from "../services/mailchimpService";
+import {
+  requireSession,
+  requireConnection,
+  requireCsrfHeader,
+} from "../middleware/session";
+import { validateRequest } from "../middleware/validate";
+import {
+  AudiencePageQuery,
+  RecipientPreviewBody,
+  audiencePageQuerySchema,
+  recipientPreviewBodySchema,
+} from "../schemas/audience";
+import { AUDIENCE_DEFAULT_PAGE_SIZE } from "../config/mailchimp";
+import { encodeCursor, pageOffset } from "../utils/cursor";
+import { buildSegmentOpts } from "../utils/segment";
+import {
+  ApiResponse,
+  ListSegmentsResponse,
+  RecipientPreview,
+} from "../types/mailchimp";
+
+// Mounted at /api/mailchimp/lists/:listId (after the more specific list routers)
+const router = Router({ mergeParams: true });
+const mailchimpService = new MailChimpService();
+
+type ListParams = { listId: string };
+
+router.use(requireCsrfHeader);
+router.use(requireSession, requireConnection);
+
+// Helper function to page through saved segments or tags
+const sendSegments = async (
+  req: Request<
+    ListParams,
+    ApiResponse<ListSegmentsResponse>,
+    {},
+    AudiencePageQuery
+  >,
+  res: Response<ApiResponse<ListSegmentsResponse>>,
+  type: "saved" | "static"
+) => {
+  const count = req.query.count ?? AUDIENCE_DEFAULT_PAGE_SIZE;
+  const offset = pageOffset(req.query);
+
+  const connection = req.mailchimpConnection!;
+  const segmentsResponse = await mailchimpService.getSegments(
+    connection.accessToken,
+    connection.metadata.dc,
+    req.params.listId,
+    type,
+    count,
+    offset
+  );
+
+  const nextOffset = offset + segmentsResponse.segments.length;
+
+  res.json({
+    success: true,
+    data: {
+      segments: segmentsResponse.segments.map((segment) => ({
+        id: segment.id,
+        name: segment.name,
+        memberCount: segment.member_count,
+        createdAt: segment.created_at,
+        updatedAt: segment.updated_at,
+      })),
+      total: segmentsResponse.total_items,
+      offset,
+      nextCursor:
+        segmentsResponse.segments.length > 0 &&
+        nextOffset < segmentsResponse.total_items
+          ? encodeCursor(nextOffset)
+          : null,
+    },
+  });
+};
+
+/**
+ * @swagger
+ * /api/mailchimp/lists/{listId}/segments:
+ *   get:
+ *     tags:
+ *       - Lists
+ *     summary: List an audience's saved segments
+ *     description: Use a segment's `id` as `targeting.segmentId` when creating a campaign.
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *       - $ref: '#/components/parameters/ListId'
+ *       - $ref: '#/components/parameters/AccountId'
+ *       - $ref: '#/components/parameters/PageCount'
+ *       - $ref: '#/components/parameters/PageOffset'
+ *       - $ref: '#/components/parameters/PageCursor'
+ *     responses:
+ *       200:
+ *         description: Segments retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/ListSegmentsResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *       502:
+ *         $ref: '#/components/responses/MailChimpUnavailable'
+ *       504:
+ *         $ref: '#/components/responses/MailChimpTimeout'
+ */
+// 1. GET /api/mailchimp/lists/:listId/segments
+router.get(
+  "/segments",
+  validateRequest({ query: audiencePageQuerySchema }),
+  async (
+    req: Request<
+      ListParams,
+      ApiResponse<ListSegmentsResponse>,
+      {},
+      AudiencePageQuery
+    >,
+    res: Response<ApiResponse<ListSegmentsResponse>>,
+    next: NextFunction
+  ) => {
+    try {
+      await sendSegments(req, res, "saved");
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/mailchimp/lists/{listId}/tags:
+ *   get:
+ *     tags:
+ *       - Lists
+ *     summary: List an audience's tags
+ *     description: Use tag `id`s in `targeting.tags` when creating a campaign.
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *       - $ref: '#/components/parameters/ListId'
+ *       - $ref: '#/components/parameters/AccountId'
+ *       - $ref: '#/components/parameters/PageCount'
+ *       - $ref: '#/components/parameters/PageOffset'
+ *       - $ref: '#/components/parameters/PageCursor'
+ *     responses:
+ *       200:
+ *         description: Tags retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/ListSegmentsResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *       502:
+ *         $ref: '#/components/responses/MailChimpUnavailable'
+ *       504:
+ *         $ref: '#/components/responses/MailChimpTimeout'
+ */
+// 2. GET /api/mailchimp/lists/:listId/tags
+router.get(
+  "/tags",
+  validateRequest({ query: audiencePageQuerySchema }),
+  async (
+    req: Request<
+      ListParams,
+      ApiResponse<ListSegmentsResponse>,
+      {},
+      AudiencePageQuery
+    >,
+    res: Response<ApiResponse<ListSegmentsResponse>>,
+    next: NextFunction
+  ) => {
+    try {
+      await sendSegments(req, res, "static");
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/mailchimp/lists/{listId}/recipients/preview:
+ *   post:
+ *     tags:
+ *       - Lists
+ *     summary: Preview how many members a targeting reaches
+ *     description: |
+ *       Count the recipients a campaign with this `targeting` would be sent to.
+ *       Without `targeting` the list's subscribers are counted; a saved
+ *       segment or a single tag reports its own count, and nothing is written.
+ *
+ *       **Side effect:** MailChimp can only count other combinations of tags,
+ *       interests and conditions as a saved segment, so the list briefly gets
+ *       one named `Recipient preview (temporary) <timestamp>`, deleted before
+ *       the response. If that delete fails, the next preview on the list that
+ *       needs one removes it once it is ten minutes old.
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *       - $ref: '#/components/parameters/ListId'
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RecipientPreviewRequest'
+ *           example:
+ *             targeting:
+ *               match: "any"
+ *               tags: [2065]
+ *               interests:
+ *                 - categoryId: "a1b2c3d4e5"
+ *                   interestIds: ["9f8e7d6c5b"]
+ *     responses:
+ *       200:
+ *         description: Recipient count
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/RecipientPreview'
+ *             example:
+ *               success: true
+ *               data:
+ *                 listId: "1a2b3c4d5e"
+ *                 recipientCount: 312
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *       502:
+ *         $ref: '#/components/responses/MailChimpUnavailable'
+ *       504:
+ *         $ref: '#/components/responses/MailChimpTimeout'
+ */
+// 3. POST /api/mailchimp/lists/:listId/recipients/preview
+router.post(
+  "/recipients/preview",
+  validateRequest({ body: recipientPreviewBodySchema }),
+  async (
+    req: Request<
+      ListParams,
+      ApiResponse<RecipientPreview>,
+      RecipientPreviewBody
+    >,
+    res: Response<ApiResponse<RecipientPreview>>,
+    next: NextFunction
+  ) => {
+    try {
+      const { targeting } = req.body;
+
+      const connection = req.mailchimpConnection!;
+      const preview = await mailchimpService.previewRecipientCount(
+        connection.accessToken,
+        connection.metadata.dc,
+        req.params.listId,
+        targeting && buildSegmentOpts(targeting)
+      );
+
+      res.json({
+        success: true,
+        data: {
+          listId: req.params.listId,
+          ...preview,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,145 @@
+import { test, before, after, beforeEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import express from "express";
+import router from "./campaigns";
+import { errorHandler } from "../middleware/errorHandler";
+import { MailChimpService } from "../services/mailchimpService";
+import { ApiError } from "../utils/errors";
+import { MailChimpMetadata } from "../types/mailchimp";
+
+let server: Server;
+let baseUrl: string;
+let sessionId: string;
+
+const metadata: MailChimpMetadata = {
+  dc: "us1",
+  role: "owner",
+  accountname: "Test Account",
+  user_id: 1,
+  login: {
+    email: "owner@example.com",
+    login_id: "1",
+    login_name: "owner",
+    login_email: "owner@example.com",
+  },
+  api_endpoint: "https://us1.api.mailchimp.com",
+};
+
+const timeout = () =>
+  new ApiError(504, "mailchimp_timeout", "MailChimp did not respond in time");
+
+// The campaign MailChimp holds, as getCampaign reports it
+let campaignStatus: string;
+let calls: string[];
+
+const stub = (method: keyof MailChimpService, impl: Function) =>
+  mock.method(MailChimpService.prototype, method, impl as any);
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use("/api/mailchimp/campaigns", router);
+  app.use(errorHandler);
+
+  server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  sessionId = (
+    await new MailChimpService().connectAccount(undefined, "token", metadata)
+  ).sessionId;
+});
+
+after(() => server.close());
+
+beforeEach(() => {
+  mock.restoreAll();
+  campaignStatus = "save";
+  calls = [];
+
+  stub("createCampaign", async () => {
+    calls.push("create");
+    return {
+      id: "c1",
+      status: "save",
+      recipients: { list_id: "list1" },
+      settings: { subject_line: "Hi", title: "Hi", from_name: "Us" },
+    };
+  });
+  stub("getCampaign", async () => ({ id: "c1", status: campaignStatus }));
+  stub("deleteCampaign", async () => {
+    calls.push("delete");
+  });
+  stub("getSendChecklist", async () => ({
+    isReady: true,
+    errors: [],
+    warnings: [],
+  }));
+});
+
+const post = (path: string, body: unknown = {}, headers = {}) =>
+  fetch(`${baseUrl}/api/mailchimp/campaigns${path}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Session-Id": sessionId,
+      ...headers,
+    },
+    body: JSON.stringify(body),
+  });
+
+test("a draft whose content can't be set is deleted again", async () => {
+  stub("setCampaignContent", async () => {
+    throw timeout();
+  });
+
+  const response = await post("", {
+    listId: "list1",
+    subject: "Hi",
+    content: "<p>Hello</p>",
+    fromName: "Us",
+    replyTo: "us@example.com",
+  });
+  const body = await response.json();
+
+  assert.equal(response.status, 504);
+  assert.equal(body.code, "mailchimp_timeout");
+  assert.deepEqual(body.data, {
+    failedStep: "content",
+    completedSteps: ["create"],
+    campaignId: "c1",
+    draft: "deleted",
+  });
+  assert.deepEqual(calls, ["create", "delete"]);
+});
+
+test("a timed-out send that MailChimp went ahead with succeeds", async () => {
+  stub("sendCampaign", async () => {
+    campaignStatus = "sending";
+    throw timeout();
+  });
+
+  const response = await post("/c1/send");
+  const body = await response.json();
+
+  assert.equal(response.status, 200);
+  assert.equal(body.data.status, "sent");
+});
+
+test("retrying an unconfirmed send with its key doesn't send again", async () => {
+  const send = stub("sendCampaign", async () => {
+    throw timeout();
+  });
+  const headers = { "Idempotency-Key": "send-c1" };
+
+  const first = await post("/c1/send", {}, headers);
+  assert.equal(first.status, 504);
+  assert.deepEqual(calls, []);
+
+  const retry = await post("/c1/send", {}, headers);
+  assert.equal(retry.status, 504);
+  assert.equal(retry.headers.get("Idempotent-Replayed"), "true");
+  assert.equal(send.mock.callCount(), 1);
+});
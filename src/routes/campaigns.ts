@@ -0,0 +1,881 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { MailChimpService } from "../services/mailchimpService";
+import {
+  requireSession,
+  requireConnection,
+  requireCsrfHeader,
+} from "../middleware/session";
+import { validateRequest } from "../middleware/validate";
+import { idempotencyKey, markUnsafeToRetry } from "../middleware/idempotency";
+import {
+  CreateCampaignBody,
+  ScheduleCampaignBody,
+  SendDraftQuery,
+  UpdateCampaignBody,
+  createCampaignBodySchema,
+  scheduleCampaignBodySchema,
+  sendDraftQuerySchema,
+  updateCampaignBodySchema,
+} from "../schemas/campaigns";
+import { idempotencyHeadersSchema } from "../schemas/common";
+import {
+  isAmbiguousSendFailure,
+  isCampaignSent,
+  rollbackFailedSend,
+} from "../services/campaignRollback";
+import {
+  ApiResponse,
+  CampaignResponse,
+  CampaignDraft,
+  MailChimpCampaignApiResponse,
+  SendFailure,
+} from "../types/mailchimp";
+import { resolveScheduleTime } from "../utils/schedule";
+import { buildSegmentOpts } from "../utils/segment";
+import { ApiError, ConflictError, NotFoundError } from "../utils/errors";
+
+// Mounted at /api/mailchimp/campaigns
+const router = Router();
+const mailchimpService = new MailChimpService();
+
+// MailChimp's status for campaigns that haven't been sent or scheduled
+const DRAFT_STATUS = "save";
+const SCHEDULED_STATUS = "schedule";
+
+type CampaignParams = { campaignId: string };
+
+router.use(requireCsrfHeader);
+router.use(requireSession, requireConnection);
+
+// Helper function to map MailChimp's campaign shape to ours
+const toCampaignDraft = (
+  campaign: MailChimpCampaignApiResponse,
+  content: string | null
+): CampaignDraft => ({
+  campaignId: campaign.id,
+  status: campaign.status,
+  listId: campaign.recipients.list_id,
+  title: campaign.settings.title,
+  subject: campaign.settings.subject_line,
+  fromName: campaign.settings.from_name,
+  replyTo: campaign.settings.reply_to,
+  content,
+  recipientCount: campaign.recipients.recipient_count || 0,
+  createdAt: campaign.create_time,
+  scheduledAt:
+    campaign.status === SCHEDULED_STATUS ? campaign.send_time || null : null,
+});
+
+// Helper function to load a campaign that must still be a draft.
+// Throws NotFoundError/ConflictError when it isn't one.
+const loadDraft = async (
+  req: Pick<Request<CampaignParams>, "params" | "mailchimpConnection">,
+  action: string
+): Promise<MailChimpCampaignApiResponse> => {
+  const connection = req.mailchimpConnection!;
+  const campaign = await mailchimpService.getCampaign(
+    connection.accessToken,
+    connection.metadata.dc,
+    req.params.campaignId
+  );
+
+  if (!campaign) {
+    throw new NotFoundError("Campaign not found", "campaign_not_found");
+  }
+
+  if (campaign.status !== DRAFT_STATUS) {
+    throw new ConflictError(
+      `Only draft campaigns can be ${action} (status is "${campaign.status}")`,
+      "campaign_not_draft"
+    );
+  }
+
+  return campaign;
+};
+
+/**
+ * @swagger
+ * /api/mailchimp/campaigns:
+ *   post:
+ *     tags:
+ *       - Campaigns
+ *     summary: Create a campaign draft
+ *     description: |
+ *       Create a campaign and set its HTML content without sending it. The draft
+ *       can be reviewed and edited later, then sent with
+ *       `POST /api/mailchimp/campaigns/{campaignId}/send`.
+ *
+ *       If the content can't be set, the new draft is deleted again. The
+ *       response keeps the status and code of the failure, and `data` reports
+ *       the failed step and what happened to the draft, as for
+ *       `POST /api/mailchimp/campaign/send`.
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CampaignRequest'
+ *           example:
+ *             listId: "1a2b3c4d5e"
+ *             subject: "Spring sale"
+ *             content: "<h1>Spring sale</h1><p>20% off everything.</p>"
+ *             fromName: "My Company"
+ *             replyTo: "noreply@example.com"
+ *     responses:
+ *       201:
+ *         description: Draft created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/CampaignDraft'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/AccountNotFound'
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *       502:
+ *         $ref: '#/components/responses/MailChimpUnavailable'
+ *       504:
+ *         $ref: '#/components/responses/MailChimpTimeout'
+ */
+// 1. POST /api/mailchimp/campaigns
+router.post(
+  "/",
+  validateRequest({ body: createCampaignBodySchema }),
+  async (
+    req: Request<{}, ApiResponse<CampaignDraft>, CreateCampaignBody>,
+    res: Response<ApiResponse<CampaignDraft>>,
+    next: NextFunction
+  ) => {
+    try {
+      const { listId, subject, content, fromName, replyTo, targeting } =
+        req.body;
+      const connection = req.mailchimpConnection!;
+
+      const campaign = await mailchimpService.createCampaign(
+        connection.accessToken,
+        connection.metadata.dc,
+        listId,
+        subject,
+        fromName,
+        replyTo,
+        targeting && buildSegmentOpts(targeting)
+      );
+
+      try {
+        await mailchimpService.setCampaignContent(
+          connection.accessToken,
+          connection.metadata.dc,
+          campaign.id,
+          content
+        );
+      } catch (error: any) {
+        // Don't leave a draft without its content behind
+        const draft = await rollbackFailedSend(
+          mailchimpService,
+          connection.accessToken,
+          connection.metadata.dc,
+          campaign.id,
+          false
+        );
+
+        const failure =
+          error instanceof ApiError
+            ? error
+            : new ApiError(
+                500,
+                "campaign_create_failed",
+                error.message || "Failed to set campaign content"
+              );
+        const data: SendFailure = {
+          failedStep: "content",
+          completedSteps: ["create"],
+          campaignId: campaign.id,
+          draft,
+        };
+        failure.data = data;
+        return next(failure);
+      }
+
+      res.status(201).json({
+        success: true,
+        data: toCampaignDraft(campaign, content),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/mailchimp/campaigns/{campaignId}:
+ *   get:
+ *     tags:
+ *       - Campaigns
+ *     summary: Get a campaign with its settings and content
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *       - $ref: '#/components/parameters/CampaignId'
+ *       - $ref: '#/components/parameters/AccountId'
+ *     responses:
+ *       200:
+ *         description: Campaign retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/CampaignDraft'
+ *             example:
+ *               success: true
+ *               data:
+ *                 campaignId: "b03bfc2a2c"
+ *                 status: "save"
+ *                 listId: "1a2b3c4d5e"
+ *                 title: "Campaign - Spring sale"
+ *                 subject: "Spring sale"
+ *                 fromName: "My Company"
+ *                 replyTo: "noreply@example.com"
+ *                 content: "<h1>Spring sale</h1><p>20% off everything.</p>"
+ *                 createdAt: "2024-01-01T12:00:00+00:00"
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/CampaignNotFound'
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *       502:
+ *         $ref: '#/components/responses/MailChimpUnavailable'
+ *       504:
+ *         $ref: '#/components/responses/MailChimpTimeout'
+ */
+// 2. GET /api/mailchimp/campaigns/:campaignId
+router.get(
+  "/:campaignId",
+  async (
+    req: Request<CampaignParams>,
+    res: Response<ApiResponse<CampaignDraft>>,
+    next: NextFunction
+  ) => {
+    try {
+      const connection = req.mailchimpConnection!;
+      const campaign = await mailchimpService.getCampaign(
+        connection.accessToken,
+        connection.metadata.dc,
+        req.params.campaignId
+      );
+
+      if (!campaign) {
+        return next(
+          new NotFoundError("Campaign not found", "campaign_not_found")
+        );
+      }
+
+      const content = await mailchimpService.getCampaignContent(
+        connection.accessToken,
+        connection.metadata.dc,
+        campaign.id
+      );
+
+      res.json({
+        success: true,
+        data: toCampaignDraft(campaign, content.html ?? null),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/mailchimp/campaigns/{campaignId}:
+ *   patch:
+ *     tags:
+ *       - Campaigns
+ *     summary: Update a campaign draft
+ *     description: |
+ *       Change any of the draft's subject, sender name, reply-to address, HTML
+ *       content and targeting. `targeting: null` sends to the whole list again.
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *       - $ref: '#/components/parameters/CampaignId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateCampaignRequest'
+ *           example:
+ *             subject: "Spring sale - last chance"
+ *     responses:
+ *       200:
+ *         description: Draft updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/CampaignDraft'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/CampaignNotFound'
+ *       409:
+ *         $ref: '#/components/responses/CampaignNotDraft'
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *       502:
+ *         $ref: '#/components/responses/MailChimpUnavailable'
+ *       504:
+ *         $ref: '#/components/responses/MailChimpTimeout'
+ */
+// 3. PATCH /api/mailchimp/campaigns/:campaignId
+router.patch(
+  "/:campaignId",
+  validateRequest({ body: updateCampaignBodySchema }),
+  async (
+    req: Request<
+      CampaignParams,
+      ApiResponse<CampaignDraft>,
+      UpdateCampaignBody
+    >,
+    res: Response<ApiResponse<CampaignDraft>>,
+    next: NextFunction
+  ) => {
+    try {
+      const { subject, content, fromName, replyTo, targeting } = req.body;
+
+      let campaign = await loadDraft(req, "edited");
+
+      const connection = req.mailchimpConnection!;
+
+      if (subject || fromName || replyTo) {
+        campaign = await mailchimpService.updateCampaignSettings(
+          connection.accessToken,
+          connection.metadata.dc,
+          campaign.id,
+          { subject, fromName, replyTo }
+        );
+      }
+
+      if (targeting !== undefined) {
+        campaign = await mailchimpService.updateCampaignRecipients(
+          connection.accessToken,
+          connection.metadata.dc,
+          campaign.id,
+          campaign.recipients.list_id,
+          targeting && buildSegmentOpts(targeting)
+        );
+      }
+
+      let html: string | null;
+      if (content) {
+        await mailchimpService.setCampaignContent(
+          connection.accessToken,
+          connection.metadata.dc,
+          campaign.id,
+          content
+        );
+        html = content;
+      } else {
+        const existing = await mailchimpService.getCampaignContent(
+          connection.accessToken,
+          connection.metadata.dc,
+          campaign.id
+        );
+        html = existing.html ?? null;
+      }
+
+      res.json({
+        success: true,
+        data: toCampaignDraft(campaign, html),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/mailchimp/campaigns/{campaignId}:
+ *   delete:
+ *     tags:
+ *       - Campaigns
+ *     summary: Delete a campaign draft
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *       - $ref: '#/components/parameters/CampaignId'
+ *       - $ref: '#/components/parameters/AccountId'
+ *     responses:
+ *       200:
+ *         description: Draft deleted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/MessageResponse'
+ *             example:
+ *               success: true
+ *               data:
+ *                 message: "Campaign draft deleted"
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/CampaignNotFound'
+ *       409:
+ *         $ref: '#/components/responses/CampaignNotDraft'
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *       502:
+ *         $ref: '#/components/responses/MailChimpUnavailable'
+ *       504:
+ *         $ref: '#/components/responses/MailChimpTimeout'
+ */
+// 4. DELETE /api/mailchimp/campaigns/:campaignId
+router.delete(
+  "/:campaignId",
+  async (
+    req: Request<CampaignParams>,
+    res: Response<ApiResponse<{ message: string }>>,
+    next: NextFunction
+  ) => {
+    try {
+      const campaign = await loadDraft(req, "deleted");
+
+      const connection = req.mailchimpConnection!;
+      await mailchimpService.deleteCampaign(
+        connection.accessToken,
+        connection.metadata.dc,
+        campaign.id
+      );
+
+      res.json({
+        success: true,
+        data: {
+          message: "Campaign draft deleted",
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/mailchimp/campaigns/{campaignId}/send:
+ *   post:
+ *     tags:
+ *       - Campaigns
+ *     summary: Send a campaign draft
+ *     description: |
+ *       Runs MailChimp's send checklist first. When it reports blocking errors
+ *       the draft is left untouched and `422` is returned with the checklist.
+ *       With `dryRun=true` only the checklist is returned.
+ *
+ *       Send an `Idempotency-Key` header to make retries safe: a repeat of the
+ *       same request with the same key returns the stored response instead of
+ *       sending again, including a server error from the send call itself.
+ *       When that call times out or fails with a server error, the campaign's
+ *       status is checked: if MailChimp started sending it the request
+ *       succeeds, otherwise the error is returned and the campaign is left
+ *       alone, since it may still go out. Check its status before sending it
+ *       again without the same key.
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *       - $ref: '#/components/parameters/CampaignId'
+ *       - $ref: '#/components/parameters/AccountId'
+ *       - $ref: '#/components/parameters/DryRun'
+ *     responses:
+ *       200:
+ *         description: Campaign sent
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/CampaignResponse'
+ *             example:
+ *               success: true
+ *               data:
+ *                 campaignId: "b03bfc2a2c"
+ *                 status: "sent"
+ *                 message: "Campaign sent successfully"
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/CampaignNotFound'
+ *       409:
+ *         description: |
+ *           The campaign is not a draft (`campaign_not_draft`), or the
+ *           Idempotency-Key was used for a different request or its first
+ *           request is still running
+ *           (`idempotency_key_reused`, `idempotency_request_in_progress`)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *       422:
+ *         $ref: '#/components/responses/CampaignNotReady'
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *       502:
+ *         $ref: '#/components/responses/MailChimpUnavailable'
+ *       504:
+ *         $ref: '#/components/responses/MailChimpTimeout'
+ */
+// 5. POST /api/mailchimp/campaigns/:campaignId/send
+router.post(
+  "/:campaignId/send",
+  validateRequest({
+    query: sendDraftQuerySchema,
+    headers: idempotencyHeadersSchema,
+  }),
+  idempotencyKey(),
+  async (
+    req: Request<
+      CampaignParams,
+      ApiResponse<CampaignResponse>,
+      {},
+      SendDraftQuery
+    >,
+    res: Response<ApiResponse<CampaignResponse>>,
+    next: NextFunction
+  ) => {
+    try {
+      const campaign = await loadDraft(req, "sent");
+
+      const connection = req.mailchimpConnection!;
+
+      // Pre-flight: check the campaign is ready before sending
+      const checklist = await mailchimpService.getSendChecklist(
+        connection.accessToken,
+        connection.metadata.dc,
+        campaign.id
+      );
+
+      if (req.query.dryRun) {
+        return res.json({
+          success: true,
+          data: {
+            campaignId: campaign.id,
+            status: "save",
+            message: "Dry run: campaign not sent",
+            checklist,
+          },
+        });
+      }
+
+      if (!checklist.isReady) {
+        return res.status(422).json({
+          success: false,
+          message: "Campaign is not ready to send",
+          code: "campaign_not_ready",
+          data: {
+            campaignId: campaign.id,
+            status: "save",
+            message: "Campaign is not ready to send",
+            checklist,
+          },
+        });
+      }
+
+      // Send campaign. A failure here may still have sent it, so a retry
+      // with the same Idempotency-Key gets this response back instead
+      markUnsafeToRetry(res);
+      try {
+        await mailchimpService.sendCampaign(
+          connection.accessToken,
+          connection.metadata.dc,
+          campaign.id
+        );
+      } catch (error) {
+        // A send call that timed out may still have gone through
+        const sent =
+          isAmbiguousSendFailure(error) &&
+          (await isCampaignSent(
+            mailchimpService,
+            connection.accessToken,
+            connection.metadata.dc,
+            campaign.id
+          ));
+        if (!sent) throw error;
+      }
+
+      res.json({
+        success: true,
+        data: {
+          campaignId: campaign.id,
+          status: "sent",
+          message: "Campaign sent successfully",
+          checklist,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/mailchimp/campaigns/{campaignId}/schedule:
+ *   post:
+ *     tags:
+ *       - Campaigns
+ *     summary: Schedule a campaign draft
+ *     description: |
+ *       Schedule the draft for a future time. MailChimp only accepts times on a
+ *       15-minute boundary (:00, :15, :30 or :45).
+ *
+ *       `scheduleTime` is either an ISO 8601 timestamp with an offset
+ *       (`2024-05-01T13:30:00Z`) or a wall-clock time (`2024-05-01T09:30`)
+ *       read in `timeZone` (an IANA name, UTC by default).
+ *
+ *       - `timewarp: true` delivers at that time of day in each recipient's own
+ *         time zone; the send must be at least 24 hours away
+ *       - `batchDelivery` splits the send into `batchCount` batches spaced
+ *         `batchDelay` minutes apart
+ *
+ *       Timewarp and batch delivery cannot be combined. To change a scheduled
+ *       campaign, unschedule it first.
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *       - $ref: '#/components/parameters/CampaignId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ScheduleCampaignRequest'
+ *           example:
+ *             scheduleTime: "2024-05-01T09:30"
+ *             timeZone: "America/New_York"
+ *     responses:
+ *       200:
+ *         description: Campaign scheduled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/CampaignResponse'
+ *             example:
+ *               success: true
+ *               data:
+ *                 campaignId: "b03bfc2a2c"
+ *                 status: "schedule"
+ *                 message: "Campaign scheduled"
+ *                 scheduledAt: "2024-05-01T13:30:00.000Z"
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/CampaignNotFound'
+ *       409:
+ *         $ref: '#/components/responses/CampaignNotDraft'
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *       502:
+ *         $ref: '#/components/responses/MailChimpUnavailable'
+ *       504:
+ *         $ref: '#/components/responses/MailChimpTimeout'
+ */
+// 6. POST /api/mailchimp/campaigns/:campaignId/schedule
+router.post(
+  "/:campaignId/schedule",
+  validateRequest({ body: scheduleCampaignBodySchema }),
+  async (
+    req: Request<
+      CampaignParams,
+      ApiResponse<CampaignResponse>,
+      ScheduleCampaignBody
+    >,
+    res: Response<ApiResponse<CampaignResponse>>,
+    next: NextFunction
+  ) => {
+    try {
+      const { scheduleTime, timeZone, timewarp, batchDelivery } = req.body;
+
+      // Checked by the schema
+      const sendAt = resolveScheduleTime(scheduleTime, timeZone)!;
+
+      const campaign = await loadDraft(req, "scheduled");
+
+      const connection = req.mailchimpConnection!;
+      await mailchimpService.scheduleCampaign(
+        connection.accessToken,
+        connection.metadata.dc,
+        campaign.id,
+        sendAt,
+        { timewarp, batchDelivery }
+      );
+
+      res.json({
+        success: true,
+        data: {
+          campaignId: campaign.id,
+          status: "schedule",
+          message: "Campaign scheduled",
+          scheduledAt: sendAt.toISOString(),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/mailchimp/campaigns/{campaignId}/unschedule:
+ *   post:
+ *     tags:
+ *       - Campaigns
+ *     summary: Unschedule a campaign
+ *     description: Cancel a scheduled send and return the campaign to draft.
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *       - $ref: '#/components/parameters/CampaignId'
+ *       - $ref: '#/components/parameters/AccountId'
+ *     responses:
+ *       200:
+ *         description: Campaign unscheduled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/CampaignResponse'
+ *             example:
+ *               success: true
+ *               data:
+ *                 campaignId: "b03bfc2a2c"
+ *                 status: "save"
+ *                 message: "Campaign unscheduled"
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/CampaignNotFound'
+ *       409:
+ *         description: Conflict - Campaign is not scheduled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *             example:
+ *               success: false
+ *               message: 'Campaign is not scheduled (status is "save")'
+ *               code: "campaign_not_scheduled"
+ *               data: null
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *       502:
+ *         $ref: '#/components/responses/MailChimpUnavailable'
+ *       504:
+ *         $ref: '#/components/responses/MailChimpTimeout'
+ */
+// 7. POST /api/mailchimp/campaigns/:campaignId/unschedule
+router.post(
+  "/:campaignId/unschedule",
+  async (
+    req: Request<CampaignParams>,
+    res: Response<ApiResponse<CampaignResponse>>,
+    next: NextFunction
+  ) => {
+    try {
+      const connection = req.mailchimpConnection!;
+      const campaign = await mailchimpService.getCampaign(
+        connection.accessToken,
+        connection.metadata.dc,
+        req.params.campaignId
+      );
+
+      if (!campaign) {
+        return next(
+          new NotFoundError("Campaign not found", "campaign_not_found")
+        );
+      }
+
+      if (campaign.status !== SCHEDULED_STATUS) {
+        return next(
+          new ConflictError(
+            `Campaign is not scheduled (status is "${campaign.status}")`,
+            "campaign_not_scheduled"
+          )
+        );
+      }
+
+      await mailchimpService.unscheduleCampaign(
+        connection.accessToken,
+        connection.metadata.dc,
+        campaign.id
+      );
+
+      res.json({
+        success: true,
+        data: {
+          campaignId: campaign.id,
+          status: "save",
+          message: "Campaign unscheduled",
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
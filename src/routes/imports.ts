@@ -0,0 +1,246 @@
+import express, { Router, Request, Response, NextFunction } from "express";
+import { MailChimpService } from "../services/mailchimpService";
+import { ImportService, ImportFormat } from "../services/importService";
+import {
+  requireSession,
+  requireConnection,
+  requireCsrfHeader,
+} from "../middleware/session";
+import { validateRequest } from "../middleware/validate";
+import { StartImportQuery, startImportQuerySchema } from "../schemas/imports";
+import { IMPORT_MAX_UPLOAD } from "../config/mailchimp";
+import { ApiResponse, ImportJob, ImportJobResponse } from "../types/mailchimp";
+import { NotFoundError, ValidationError } from "../utils/errors";
+
+// Mounted at /api/mailchimp/lists/:listId/imports
+const router = Router({ mergeParams: true });
+const mailchimpService = new MailChimpService();
+const importService = new ImportService(mailchimpService);
+
+type ListParams = { listId: string };
+type JobParams = { listId: string; jobId: string };
+
+const CSV_TYPES = ["text/csv", "application/csv"];
+const NDJSON_TYPES = [
+  "application/x-ndjson",
+  "application/ndjson",
+  "application/jsonl",
+];
+
+router.use(requireCsrfHeader);
+router.use(requireSession, requireConnection);
+
+// Helper function to serialize a job for the API
+const toImportJobResponse = (job: ImportJob): ImportJobResponse => ({
+  jobId: job.id,
+  listId: job.listId,
+  status: job.status,
+  totalRows: job.totalRows,
+  processedRows: job.processedRows,
+  created: job.created,
+  updated: job.updated,
+  unchanged: job.unchanged,
+  failed: job.failed,
+  errors: job.errors,
+  errorsTruncated: job.errorsTruncated,
+  message: job.message,
+  createdAt: job.createdAt.toISOString(),
+  finishedAt: job.finishedAt?.toISOString(),
+});
+
+/**
+ * @swagger
+ * /api/mailchimp/lists/{listId}/imports:
+ *   post:
+ *     tags:
+ *       - Members
+ *     summary: Bulk import members from CSV or NDJSON
+ *     description: |
+ *       Upload contacts as the raw request body. Rows are validated and normalized
+ *       (emails trimmed and lowercased, duplicates rejected, extra columns become
+ *       upper-case merge tags), then sent to MailChimp in batches of 500 in the
+ *       background. Poll the returned job for progress and per-row errors.
+ *
+ *       - **CSV** (`Content-Type: text/csv`): a header row with an `email` column,
+ *         an optional `status` column, and any merge field columns (`FNAME`, ...)
+ *       - **NDJSON** (`Content-Type: application/x-ndjson`): one object per line,
+ *         e.g. `{"email":"jane@example.com","mergeFields":{"FNAME":"Jane"}}`
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *       - $ref: '#/components/parameters/ListId'
+ *       - $ref: '#/components/parameters/AccountId'
+ *       - in: query
+ *         name: updateExisting
+ *         schema:
+ *           type: boolean
+ *           default: true
+ *         description: Update members already on the list instead of reporting them as errors
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         text/csv:
+ *           schema:
+ *             type: string
+ *           example: "email,FNAME,LNAME\njane@example.com,Jane,Doe\n"
+ *         application/x-ndjson:
+ *           schema:
+ *             type: string
+ *           example: "{\"email\":\"jane@example.com\",\"mergeFields\":{\"FNAME\":\"Jane\"}}\n"
+ *     responses:
+ *       202:
+ *         description: Import job accepted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/ImportJob'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/AccountNotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+// 1. POST /api/mailchimp/lists/:listId/imports
+router.post(
+  "/",
+  express.text({
+    type: [...CSV_TYPES, ...NDJSON_TYPES],
+    limit: IMPORT_MAX_UPLOAD,
+  }),
+  validateRequest({ query: startImportQuerySchema }),
+  (
+    req: Request<
+      ListParams,
+      ApiResponse<ImportJobResponse>,
+      unknown,
+      StartImportQuery
+    >,
+    res: Response<ApiResponse<ImportJobResponse>>,
+    next: NextFunction
+  ) => {
+    try {
+      let format: ImportFormat | null = null;
+      if (req.is(CSV_TYPES)) format = "csv";
+      else if (req.is(NDJSON_TYPES)) format = "ndjson";
+
+      if (!format || typeof req.body !== "string") {
+        return next(
+          new ValidationError(
+            "Upload must be sent as text/csv or application/x-ndjson"
+          )
+        );
+      }
+
+      const parsed = importService.parse(req.body, format);
+      const job = importService.startJob(
+        req.userSession!.userId,
+        req.mailchimpConnection!,
+        req.params.listId,
+        parsed,
+        req.query.updateExisting !== false
+      );
+
+      res.status(202).json({
+        success: true,
+        data: toImportJobResponse(job),
+      });
+    } catch (error) {
+      // ImportParseError is a ValidationError
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/mailchimp/lists/{listId}/imports/{jobId}:
+ *   get:
+ *     tags:
+ *       - Members
+ *     summary: Get import job progress
+ *     description: |
+ *       Returns the job's status (`queued`, `running`, `completed` or `failed`),
+ *       progress counts and per-row errors. Only the first 1000 row errors are
+ *       kept; `errorsTruncated` is set when more occurred.
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *       - $ref: '#/components/parameters/ListId'
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Import job ID returned when the import was started
+ *     responses:
+ *       200:
+ *         description: Import job retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/ImportJob'
+ *             example:
+ *               success: true
+ *               data:
+ *                 jobId: "0f8e6c1a-3f5b-4f4e-9a57-2b8a1c5d9e10"
+ *                 listId: "1a2b3c4d5e"
+ *                 status: "running"
+ *                 totalRows: 25000
+ *                 processedRows: 12500
+ *                 created: 12075
+ *                 updated: 390
+ *                 unchanged: 25
+ *                 failed: 10
+ *                 errors:
+ *                   - row: 42
+ *                     email: "not-an-email"
+ *                     message: "Invalid or missing email"
+ *                 errorsTruncated: false
+ *                 createdAt: "2024-01-01T12:00:00.000Z"
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+// 2. GET /api/mailchimp/lists/:listId/imports/:jobId
+router.get(
+  "/:jobId",
+  (
+    req: Request<JobParams>,
+    res: Response<ApiResponse<ImportJobResponse>>,
+    next: NextFunction
+  ) => {
+    try {
+      const job = importService.getJob(
+        req.params.jobId,
+        req.userSession!.userId
+      );
+
+      if (!job || job.listId !== req.params.listId) {
+        return next(new NotFoundError("Import job not found"));
+      }
+
+      res.json({
+        success: true,
+        data: toImportJobResponse(job),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,712 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { MailChimpService } from "../services/mailchimpService";
+import {
+  requireSession,
+  requireConnection,
+  requireCsrfHeader,
+} from "../middleware/session";
+import { validateRequest } from "../middleware/validate";
+import {
+  CreateCategoryBody,
+  CreateInterestBody,
+  UpdateCategoryBody,
+  UpdateInterestBody,
+  createCategoryBodySchema,
+  createInterestBodySchema,
+  updateCategoryBodySchema,
+  updateInterestBodySchema,
+} from "../schemas/interests";
+import {
+  ApiResponse,
+  MailChimpConnection,
+  InterestCategory,
+  ListInterest,
+  ListInterestCategory,
+  InterestCategoriesResponse,
+  MailChimpInterestCategoryApiResponse,
+  MailChimpInterestApiResponse,
+} from "../types/mailchimp";
+import { NotFoundError } from "../utils/errors";
+
+// Mounted at /api/mailchimp/lists/:listId/interest-categories
+const router = Router({ mergeParams: true });
+const mailchimpService = new MailChimpService();
+
+type ListParams = { listId: string };
+type CategoryParams = { listId: string; categoryId: string };
+type InterestParams = {
+  listId: string;
+  categoryId: string;
+  interestId: string;
+};
+
+router.use(requireCsrfHeader);
+router.use(requireSession, requireConnection);
+
+// Helper function to map MailChimp's interest category shape to ours
+const toInterestCategory = (
+  category: MailChimpInterestCategoryApiResponse
+): InterestCategory => ({
+  id: category.id,
+  listId: category.list_id,
+  title: category.title,
+  type: category.type,
+  displayOrder: category.display_order,
+});
+
+// Helper function to map MailChimp's interest shape to ours
+const toListInterest = (
+  interest: MailChimpInterestApiResponse
+): ListInterest => ({
+  id: interest.id,
+  categoryId: interest.category_id,
+  name: interest.name,
+  subscriberCount: Number(interest.subscriber_count) || 0,
+  displayOrder: interest.display_order,
+});
+
+// Helper function to fetch a category's interests alongside it
+const withInterests = async (
+  connection: MailChimpConnection,
+  category: MailChimpInterestCategoryApiResponse
+): Promise<ListInterestCategory> => {
+  const { interests } = await mailchimpService.getInterests(
+    connection.accessToken,
+    connection.metadata.dc,
+    category.list_id,
+    category.id
+  );
+
+  return {
+    ...toInterestCategory(category),
+    interests: interests.map(toListInterest),
+  };
+};
+
+/**
+ * @swagger
+ * /api/mailchimp/lists/{listId}/interest-categories:
+ *   get:
+ *     tags:
+ *       - Lists
+ *     summary: List an audience's interest categories and their interests
+ *     description: |
+ *       Returns every interest category (group) with its interests. Use the IDs
+ *       in `targeting.interests` when creating a campaign.
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *       - $ref: '#/components/parameters/ListId'
+ *       - $ref: '#/components/parameters/AccountId'
+ *     responses:
+ *       200:
+ *         description: Interest categories retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/InterestCategoriesResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *       502:
+ *         $ref: '#/components/responses/MailChimpUnavailable'
+ *       504:
+ *         $ref: '#/components/responses/MailChimpTimeout'
+ */
+// 1. GET /api/mailchimp/lists/:listId/interest-categories
+router.get(
+  "/",
+  async (
+    req: Request<ListParams>,
+    res: Response<ApiResponse<InterestCategoriesResponse>>,
+    next: NextFunction
+  ) => {
+    try {
+      const connection = req.mailchimpConnection!;
+      const { categories } = await mailchimpService.getInterestCategories(
+        connection.accessToken,
+        connection.metadata.dc,
+        req.params.listId
+      );
+
+      res.json({
+        success: true,
+        data: {
+          categories: await Promise.all(
+            categories.map((category) => withInterests(connection, category))
+          ),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/mailchimp/lists/{listId}/interest-categories:
+ *   post:
+ *     tags:
+ *       - Lists
+ *     summary: Create an interest category
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *       - $ref: '#/components/parameters/ListId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateInterestCategoryRequest'
+ *           example:
+ *             title: "Topics"
+ *             type: "checkboxes"
+ *     responses:
+ *       201:
+ *         description: Interest category created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/InterestCategory'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *       502:
+ *         $ref: '#/components/responses/MailChimpUnavailable'
+ *       504:
+ *         $ref: '#/components/responses/MailChimpTimeout'
+ */
+// 2. POST /api/mailchimp/lists/:listId/interest-categories
+router.post(
+  "/",
+  validateRequest({ body: createCategoryBodySchema }),
+  async (
+    req: Request<ListParams, ApiResponse<InterestCategory>, CreateCategoryBody>,
+    res: Response<ApiResponse<InterestCategory>>,
+    next: NextFunction
+  ) => {
+    try {
+      const { title, type, displayOrder } = req.body;
+
+      const connection = req.mailchimpConnection!;
+      const category = await mailchimpService.createInterestCategory(
+        connection.accessToken,
+        connection.metadata.dc,
+        req.params.listId,
+        { title: title.trim(), type, displayOrder }
+      );
+
+      res.status(201).json({
+        success: true,
+        data: toInterestCategory(category),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/mailchimp/lists/{listId}/interest-categories/{categoryId}:
+ *   get:
+ *     tags:
+ *       - Lists
+ *     summary: Get an interest category and its interests
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *       - $ref: '#/components/parameters/ListId'
+ *       - $ref: '#/components/parameters/InterestCategoryId'
+ *       - $ref: '#/components/parameters/AccountId'
+ *     responses:
+ *       200:
+ *         description: Interest category retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/ListInterestCategory'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/InterestCategoryNotFound'
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *       502:
+ *         $ref: '#/components/responses/MailChimpUnavailable'
+ *       504:
+ *         $ref: '#/components/responses/MailChimpTimeout'
+ */
+// 3. GET /api/mailchimp/lists/:listId/interest-categories/:categoryId
+router.get(
+  "/:categoryId",
+  async (
+    req: Request<CategoryParams>,
+    res: Response<ApiResponse<ListInterestCategory>>,
+    next: NextFunction
+  ) => {
+    try {
+      const connection = req.mailchimpConnection!;
+      const category = await mailchimpService.getInterestCategory(
+        connection.accessToken,
+        connection.metadata.dc,
+        req.params.listId,
+        req.params.categoryId
+      );
+
+      if (!category) {
+        return next(new NotFoundError("Interest category not found"));
+      }
+
+      res.json({
+        success: true,
+        data: await withInterests(connection, category),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/mailchimp/lists/{listId}/interest-categories/{categoryId}:
+ *   patch:
+ *     tags:
+ *       - Lists
+ *     summary: Update an interest category
+ *     description: Only the supplied fields are changed.
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *       - $ref: '#/components/parameters/ListId'
+ *       - $ref: '#/components/parameters/InterestCategoryId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateInterestCategoryRequest'
+ *           example:
+ *             title: "Newsletter topics"
+ *     responses:
+ *       200:
+ *         description: Interest category updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/InterestCategory'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/InterestCategoryNotFound'
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *       502:
+ *         $ref: '#/components/responses/MailChimpUnavailable'
+ *       504:
+ *         $ref: '#/components/responses/MailChimpTimeout'
+ */
+// 4. PATCH /api/mailchimp/lists/:listId/interest-categories/:categoryId
+router.patch(
+  "/:categoryId",
+  validateRequest({ body: updateCategoryBodySchema }),
+  async (
+    req: Request<
+      CategoryParams,
+      ApiResponse<InterestCategory>,
+      UpdateCategoryBody
+    >,
+    res: Response<ApiResponse<InterestCategory>>,
+    next: NextFunction
+  ) => {
+    try {
+      const { title, type, displayOrder } = req.body;
+
+      const connection = req.mailchimpConnection!;
+      const current = await mailchimpService.getInterestCategory(
+        connection.accessToken,
+        connection.metadata.dc,
+        req.params.listId,
+        req.params.categoryId
+      );
+
+      if (!current) {
+        return next(new NotFoundError("Interest category not found"));
+      }
+
+      const category = await mailchimpService.updateInterestCategory(
+        connection.accessToken,
+        connection.metadata.dc,
+        req.params.listId,
+        req.params.categoryId,
+        {
+          title: title?.trim() || current.title,
+          type: type || current.type,
+          displayOrder,
+        }
+      );
+
+      res.json({
+        success: true,
+        data: toInterestCategory(category),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/mailchimp/lists/{listId}/interest-categories/{categoryId}:
+ *   delete:
+ *     tags:
+ *       - Lists
+ *     summary: Delete an interest category
+ *     description: Deletes the category and all of its interests.
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *       - $ref: '#/components/parameters/ListId'
+ *       - $ref: '#/components/parameters/InterestCategoryId'
+ *       - $ref: '#/components/parameters/AccountId'
+ *     responses:
+ *       200:
+ *         description: Interest category deleted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *             example:
+ *               success: true
+ *               data:
+ *                 message: "Interest category deleted"
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/InterestCategoryNotFound'
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *       502:
+ *         $ref: '#/components/responses/MailChimpUnavailable'
+ *       504:
+ *         $ref: '#/components/responses/MailChimpTimeout'
+ */
+// 5. DELETE /api/mailchimp/lists/:listId/interest-categories/:categoryId
+router.delete(
+  "/:categoryId",
+  async (
+    req: Request<CategoryParams>,
+    res: Response<ApiResponse<{ message: string }>>,
+    next: NextFunction
+  ) => {
+    try {
+      const connection = req.mailchimpConnection!;
+      const deleted = await mailchimpService.deleteInterestCategory(
+        connection.accessToken,
+        connection.metadata.dc,
+        req.params.listId,
+        req.params.categoryId
+      );
+
+      if (!deleted) {
+        return next(new NotFoundError("Interest category not found"));
+      }
+
+      res.json({
+        success: true,
+        data: {
+          message: "Interest category deleted",
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/mailchimp/lists/{listId}/interest-categories/{categoryId}/interests:
+ *   post:
+ *     tags:
+ *       - Lists
+ *     summary: Add an interest to a category
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *       - $ref: '#/components/parameters/ListId'
+ *       - $ref: '#/components/parameters/InterestCategoryId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateInterestRequest'
+ *           example:
+ *             name: "Product news"
+ *     responses:
+ *       201:
+ *         description: Interest created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/ListInterest'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/InterestCategoryNotFound'
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *       502:
+ *         $ref: '#/components/responses/MailChimpUnavailable'
+ *       504:
+ *         $ref: '#/components/responses/MailChimpTimeout'
+ */
+// 6. POST /api/mailchimp/lists/:listId/interest-categories/:categoryId/interests
+router.post(
+  "/:categoryId/interests",
+  validateRequest({ body: createInterestBodySchema }),
+  async (
+    req: Request<CategoryParams, ApiResponse<ListInterest>, CreateInterestBody>,
+    res: Response<ApiResponse<ListInterest>>,
+    next: NextFunction
+  ) => {
+    try {
+      const { name, displayOrder } = req.body;
+
+      const connection = req.mailchimpConnection!;
+      const category = await mailchimpService.getInterestCategory(
+        connection.accessToken,
+        connection.metadata.dc,
+        req.params.listId,
+        req.params.categoryId
+      );
+
+      if (!category) {
+        return next(new NotFoundError("Interest category not found"));
+      }
+
+      const interest = await mailchimpService.createInterest(
+        connection.accessToken,
+        connection.metadata.dc,
+        req.params.listId,
+        req.params.categoryId,
+        { name: name.trim(), displayOrder }
+      );
+
+      res.status(201).json({
+        success: true,
+        data: toListInterest(interest),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/mailchimp/lists/{listId}/interest-categories/{categoryId}/interests/{interestId}:
+ *   patch:
+ *     tags:
+ *       - Lists
+ *     summary: Rename or reorder an interest
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *       - $ref: '#/components/parameters/ListId'
+ *       - $ref: '#/components/parameters/InterestCategoryId'
+ *       - $ref: '#/components/parameters/InterestId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateInterestRequest'
+ *           example:
+ *             name: "Product updates"
+ *     responses:
+ *       200:
+ *         description: Interest updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/ListInterest'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/InterestNotFound'
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *       502:
+ *         $ref: '#/components/responses/MailChimpUnavailable'
+ *       504:
+ *         $ref: '#/components/responses/MailChimpTimeout'
+ */
+// 7. PATCH /api/mailchimp/lists/:listId/interest-categories/:categoryId/interests/:interestId
+router.patch(
+  "/:categoryId/interests/:interestId",
+  validateRequest({ body: updateInterestBodySchema }),
+  async (
+    req: Request<InterestParams, ApiResponse<ListInterest>, UpdateInterestBody>,
+    res: Response<ApiResponse<ListInterest>>,
+    next: NextFunction
+  ) => {
+    try {
+      const { name, displayOrder } = req.body;
+
+      const connection = req.mailchimpConnection!;
+      const current = await mailchimpService.getInterest(
+        connection.accessToken,
+        connection.metadata.dc,
+        req.params.listId,
+        req.params.categoryId,
+        req.params.interestId
+      );
+
+      if (!current) {
+        return next(new NotFoundError("Interest not found"));
+      }
+
+      const interest = await mailchimpService.updateInterest(
+        connection.accessToken,
+        connection.metadata.dc,
+        req.params.listId,
+        req.params.categoryId,
+        req.params.interestId,
+        { name: name?.trim() || current.name, displayOrder }
+      );
+
+      res.json({
+        success: true,
+        data: toListInterest(interest),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/mailchimp/lists/{listId}/interest-categories/{categoryId}/interests/{interestId}:
+ *   delete:
+ *     tags:
+ *       - Lists
+ *     summary: Delete an interest
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *       - $ref: '#/components/parameters/ListId'
+ *       - $ref: '#/components/parameters/InterestCategoryId'
+ *       - $ref: '#/components/parameters/InterestId'
+ *       - $ref: '#/components/parameters/AccountId'
+ *     responses:
+ *       200:
+ *         description: Interest deleted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *             example:
+ *               success: true
+ *               data:
+ *                 message: "Interest deleted"
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/InterestNotFound'
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *       502:
+ *         $ref: '#/components/responses/MailChimpUnavailable'
+ *       504:
+ *         $ref: '#/components/responses/MailChimpTimeout'
+ */
+// 8. DELETE /api/mailchimp/lists/:listId/interest-categories/:categoryId/interests/:interestId
+router.delete(
+  "/:categoryId/interests/:interestId",
+  async (
+    req: Request<InterestParams>,
+    res: Response<ApiResponse<{ message: string }>>,
+    next: NextFunction
+  ) => {
+    try {
+      const connection = req.mailchimpConnection!;
+      const deleted = await mailchimpService.deleteInterest(
+        connection.accessToken,
+        connection.metadata.dc,
+        req.params.listId,
+        req.params.categoryId,
+        req.params.interestId
+      );
+
+      if (!deleted) {
+        return next(new NotFoundError("Interest not found"));
+      }
+
+      res.json({
+        success: true,
+        data: {
+          message: "Interest deleted",
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,241 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { WebhookService } from "../services/webhookService";
+import {
+  requireSession,
+  requireConnection,
+  requireCsrfHeader,
+} from "../middleware/session";
+import { validateRequest } from "../middleware/validate";
+import {
+  RegisterWebhookBody,
+  registerWebhookBodySchema,
+} from "../schemas/listWebhooks";
+import { WEBHOOK_EVENT_TYPES, WEBHOOK_SOURCES } from "../config/mailchimp";
+import {
+  ApiResponse,
+  ListWebhook,
+  ListWebhooksResponse,
+} from "../types/mailchimp";
+import { NotFoundError } from "../utils/errors";
+
+// Mounted at /api/mailchimp/lists/:listId/webhooks
+const router = Router({ mergeParams: true });
+const webhookService = new WebhookService();
+
+type ListParams = { listId: string };
+type WebhookParams = { listId: string; registrationId: string };
+
+router.use(requireCsrfHeader);
+router.use(requireSession, requireConnection);
+
+/**
+ * @swagger
+ * /api/mailchimp/lists/{listId}/webhooks:
+ *   post:
+ *     tags:
+ *       - Webhooks
+ *     summary: Register a webhook on a list
+ *     description: |
+ *       Creates a MailChimp webhook pointing at this server's
+ *       `/webhooks/mailchimp/{registrationId}` route, with a fresh secret in
+ *       the URL. MailChimp must be able to reach `WEBHOOK_BASE_URL`.
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *       - $ref: '#/components/parameters/ListId'
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/RegisterWebhookRequest'
+ *           example:
+ *             events: ["unsubscribe", "upemail", "cleaned"]
+ *             sources: ["user", "admin"]
+ *     responses:
+ *       201:
+ *         description: Webhook registered
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/ListWebhook'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *       502:
+ *         $ref: '#/components/responses/MailChimpUnavailable'
+ *       504:
+ *         $ref: '#/components/responses/MailChimpTimeout'
+ */
+// 1. POST /api/mailchimp/lists/:listId/webhooks
+router.post(
+  "/",
+  validateRequest({ body: registerWebhookBodySchema }),
+  async (
+    req: Request<ListParams, ApiResponse<ListWebhook>, RegisterWebhookBody>,
+    res: Response<ApiResponse<ListWebhook>>,
+    next: NextFunction
+  ) => {
+    try {
+      const { events = WEBHOOK_EVENT_TYPES, sources = WEBHOOK_SOURCES } =
+        req.body;
+
+      const registration = await webhookService.register(
+        req.mailchimpConnection!,
+        req.userSession!.userId,
+        req.params.listId,
+        Array.from(new Set(events)),
+        Array.from(new Set(sources))
+      );
+
+      res.status(201).json({
+        success: true,
+        data: webhookService.toListWebhook(registration),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/mailchimp/lists/{listId}/webhooks:
+ *   get:
+ *     tags:
+ *       - Webhooks
+ *     summary: List the webhooks registered on a list through this service
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *       - $ref: '#/components/parameters/ListId'
+ *       - $ref: '#/components/parameters/AccountId'
+ *     responses:
+ *       200:
+ *         description: Webhooks retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/ListWebhooksResponse'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *       502:
+ *         $ref: '#/components/responses/MailChimpUnavailable'
+ *       504:
+ *         $ref: '#/components/responses/MailChimpTimeout'
+ */
+// 2. GET /api/mailchimp/lists/:listId/webhooks
+router.get(
+  "/",
+  async (
+    req: Request<ListParams>,
+    res: Response<ApiResponse<ListWebhooksResponse>>,
+    next: NextFunction
+  ) => {
+    try {
+      const registrations = await webhookService.listForList(
+        req.userSession!.userId,
+        req.mailchimpConnection!.accountId,
+        req.params.listId
+      );
+
+      res.json({
+        success: true,
+        data: {
+          webhooks: registrations.map((registration) =>
+            webhookService.toListWebhook(registration)
+          ),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/mailchimp/lists/{listId}/webhooks/{registrationId}:
+ *   delete:
+ *     tags:
+ *       - Webhooks
+ *     summary: Unregister a webhook
+ *     description: Removes the webhook from MailChimp and forgets its secret.
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *       - $ref: '#/components/parameters/ListId'
+ *       - $ref: '#/components/parameters/WebhookRegistrationId'
+ *       - $ref: '#/components/parameters/AccountId'
+ *     responses:
+ *       200:
+ *         description: Webhook unregistered
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *             example:
+ *               success: true
+ *               data:
+ *                 message: "Webhook unregistered"
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/WebhookNotFound'
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *       502:
+ *         $ref: '#/components/responses/MailChimpUnavailable'
+ *       504:
+ *         $ref: '#/components/responses/MailChimpTimeout'
+ */
+// 3. DELETE /api/mailchimp/lists/:listId/webhooks/:registrationId
+router.delete(
+  "/:registrationId",
+  async (
+    req: Request<WebhookParams>,
+    res: Response<ApiResponse<{ message: string }>>,
+    next: NextFunction
+  ) => {
+    try {
+      const removed = await webhookService.unregister(
+        req.mailchimpConnection!,
+        req.userSession!.userId,
+        req.params.listId,
+        req.params.registrationId
+      );
+
+      if (!removed) {
+        return next(new NotFoundError("Webhook not found"));
+      }
+
+      res.json({
+        success: true,
+        data: {
+          message: "Webhook unregistered",
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,141 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import express, { Router } from "express";
+import cookieParser from "cookie-parser";
+import { MailChimpService } from "../services/mailchimpService";
+import { MailChimpMetadata } from "../types/mailchimp";
+
+const IDLE_TTL_MS = 50;
+
+let server: Server;
+let baseUrl: string;
+let cookieSecret: string;
+let mailchimpService: MailChimpService;
+
+const metadata: MailChimpMetadata = {
+  dc: "us1",
+  role: "owner",
+  accountname: "Test Account",
+  user_id: 1,
+  login: {
+    email: "owner@example.com",
+    login_id: "1",
+    login_name: "owner",
+    login_email: "owner@example.com",
+  },
+  api_endpoint: "https://us1.api.mailchimp.com",
+};
+
+before(async () => {
+  // Read when the session modules load
+  process.env.SESSION_TRANSPORT = "cookie";
+  process.env.SESSION_IDLE_TTL_MS = String(IDLE_TTL_MS);
+
+  const { default: router } = (await import("./mailchimp")) as {
+    default: Router;
+  };
+  const { getCookieSecret } = await import("../utils/sessionCookie");
+  const { errorHandler } = await import("../middleware/errorHandler");
+  cookieSecret = getCookieSecret();
+  mailchimpService = new MailChimpService();
+
+  const app = express();
+  app.use(cookieParser(cookieSecret));
+  app.use("/api/mailchimp", router);
+  app.use(errorHandler);
+
+  server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => server.close());
+
+// The signed session cookie the browser would hold, as cookie-parser signs it
+const sessionCookie = (sessionId: string) => {
+  const signature = crypto
+    .createHmac("sha256", cookieSecret)
+    .update(sessionId)
+    .digest("base64")
+    .replace(/=+$/, "");
+  return `mc_session=${encodeURIComponent(`s:${sessionId}.${signature}`)}`;
+};
+
+const startSession = async () =>
+  (await mailchimpService.connectAccount(undefined, "token", metadata))
+    .sessionId;
+
+const expire = () =>
+  new Promise((resolve) => setTimeout(resolve, IDLE_TTL_MS + 20));
+
+const clearsSessionCookie = (response: Response) =>
+  response.headers
+    .getSetCookie()
+    .some((cookie) => /^mc_session=.*Expires=Thu, 01 Jan 1970/.test(cookie));
+
+test("an expired session cookie doesn't stop the user connecting again", async () => {
+  const sessionId = await startSession();
+  await expire();
+
+  const first = await fetch(`${baseUrl}/api/mailchimp/connect`, {
+    headers: { cookie: sessionCookie(sessionId) },
+  });
+  assert.equal(first.status, 200);
+  assert.ok((await first.json()).data.authorizeUrl);
+  assert.ok(clearsSessionCookie(first));
+
+  // The expired session is gone now; a cookie the browser kept still works
+  const second = await fetch(`${baseUrl}/api/mailchimp/connect`, {
+    headers: { cookie: sessionCookie(sessionId) },
+  });
+  assert.equal(second.status, 200);
+  assert.ok(clearsSessionCookie(second));
+});
+
+test("an unknown session header is treated as no session", async () => {
+  const response = await fetch(`${baseUrl}/api/mailchimp/connect`, {
+    headers: { "x-session-id": "abcdef" },
+  });
+
+  assert.equal(response.status, 200);
+  assert.ok(!clearsSessionCookie(response));
+});
+
+test("status reports an expired session as not connected", async () => {
+  const sessionId = await startSession();
+  await expire();
+
+  const response = await fetch(`${baseUrl}/api/mailchimp/status`, {
+    headers: { cookie: sessionCookie(sessionId) },
+  });
+
+  assert.equal(response.status, 200);
+  assert.deepEqual((await response.json()).data, { isConnected: false });
+  assert.ok(clearsSessionCookie(response));
+});
+
+test("routes that need a session still reject an expired one", async () => {
+  const sessionId = await startSession();
+  await expire();
+
+  const response = await fetch(`${baseUrl}/api/mailchimp/accounts`, {
+    headers: { cookie: sessionCookie(sessionId) },
+  });
+
+  assert.equal(response.status, 401);
+  assert.equal((await response.json()).code, "session_expired");
+});
+
+test("a live session cookie is kept", async () => {
+  const sessionId = await startSession();
+
+  const response = await fetch(`${baseUrl}/api/mailchimp/status`, {
+    headers: { cookie: sessionCookie(sessionId) },
+  });
+
+  assert.equal((await response.json()).data.isConnected, true);
+  assert.ok(!clearsSessionCookie(response));
+});
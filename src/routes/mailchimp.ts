@@ -1,27 +1,99 @@
-import { Router, Request, Response } from "express";
+import { Router, Request, Response, NextFunction } from "express";
 import { MailChimpService } from "../services/mailchimpService";
+import { OAuthStateService } from "../services/oauthStateService";
+import {
+  OAUTH_BINDING_COOKIE,
+  OAUTH_STATE_TTL_MS,
+  LISTS_DEFAULT_PAGE_SIZE,
+  CAMPAIGN_SEND_STEPS,
+} from "../config/mailchimp";
+import {
+  getSessionId,
+  requireSession,
+  optionalSession,
+  requireConnection,
+  requireCsrfHeader,
+} from "../middleware/session";
+import { idempotencyKey, markUnsafeToRetry } from "../middleware/idempotency";
+import { validateRequest } from "../middleware/validate";
+import {
+  ActivateAccountBody,
+  ConnectQuery,
+  ListsRequestQuery,
+  OAuthTokenBody,
+  SendCampaignBody,
+  SendCampaignQuery,
+  StatusQuery,
+  TestCampaignBody,
+  activateAccountBodySchema,
+  connectQuerySchema,
+  listsQuerySchema,
+  oauthTokenBodySchema,
+  sendCampaignBodySchema,
+  sendCampaignQuerySchema,
+  sessionHeadersSchema,
+  statusQuerySchema,
+  testCampaignBodySchema,
+} from "../schemas/mailchimp";
+import { idempotencyHeadersSchema } from "../schemas/common";
+import { sendJobService } from "../services/sendJobService";
+import {
+  isAmbiguousSendFailure,
+  isCampaignSent,
+  rollbackFailedSend,
+} from "../services/campaignRollback";
+import {
+  isCookieSessionMode,
+  setSessionCookie,
+  clearSessionCookie,
+} from "../utils/sessionCookie";
+import { encodeCursor, pageOffset } from "../utils/cursor";
+import { isValidEmail } from "../utils/email";
+import { buildSegmentOpts } from "../utils/segment";
 import {
   ApiResponse,
-  OAuthTokenRequest,
+  ConnectResponse,
   ConnectionStatus,
+  AccountsResponse,
   ListsResponse,
-  CampaignRequest,
+  MailChimpListsApiResponse,
   CampaignResponse,
+  CampaignSendStep,
+  SendFailure,
+  SendJob,
+  SendJobResponse,
+  TestCampaignResponse,
+  TestEmailResult,
 } from "../types/mailchimp";
+import {
+  ApiError,
+  NotFoundError,
+  SessionError,
+  ValidationError,
+} from "../utils/errors";
 
 const router = Router();
 const mailchimpService = new MailChimpService();
+const oauthStateService = new OAuthStateService();
 
-// Helper function to generate session ID (in production, use proper session management)
-const generateSessionId = (req: Request): string => {
-  return req.ip + "-" + Date.now() + "-" + Math.random().toString(36);
-};
+router.use(requireCsrfHeader);
+router.use(validateRequest({ headers: sessionHeadersSchema }));
 
-// Helper function to get session ID from request (simplified)
-const getSessionId = (req: Request): string => {
-  // In production, get this from session cookies or JWT
-  return (req.headers["x-session-id"] as string) || generateSessionId(req);
-};
+// Helper function to serialize a send job for the API
+const toSendJobResponse = (job: SendJob): SendJobResponse => ({
+  jobId: job.id,
+  accountId: job.accountId,
+  listId: job.request.listId,
+  status: job.status,
+  step: job.step,
+  campaignId: job.campaignId,
+  dryRun: job.dryRun,
+  checklist: job.checklist,
+  error: job.error,
+  createdAt: job.createdAt.toISOString(),
+  updatedAt: job.updatedAt.toISOString(),
+  finishedAt: job.finishedAt?.toISOString(),
+});
 
 /**
  * @swagger
@@ -31,13 +103,31 @@ const getSessionId = (req: Request): string => {
  *       - Connection
  *     summary: Initiate MailChimp OAuth connection
  *     description: |
- *       This endpoint indicates that OAuth connection can be initiated.
- *       To start the actual OAuth flow, redirect the user to MailChimp's authorization URL:
+ *       Mints a single-use, time-limited OAuth state bound to the caller's browser
+ *       and returns the full MailChimp authorization URL to send the user to.
  *
- *       `https://login.mailchimp.com/oauth2/authorize?response_type=code&client_id={CLIENT_ID}&redirect_uri={REDIRECT_URI}&state={STATE}`
+ *       The binding is stored in an HttpOnly cookie, so the OAuth callback (or
+ *       `POST /api/mailchimp/oauth/token`) must be completed from the same browser.
+ *       Pass `redirect=true` to be redirected to MailChimp directly instead of
+ *       receiving JSON.
+ *
+ *       With a session, the new account is linked into it. An unknown or expired
+ *       session is ignored (and a stale session cookie cleared), so the flow starts
+ *       a new session instead.
+ *     parameters:
+ *       - in: query
+ *         name: redirect
+ *         schema:
+ *           type: boolean
+ *         description: Redirect to the MailChimp authorization URL instead of returning JSON
  *     responses:
  *       200:
- *         description: OAuth connection can be initiated
+ *         description: OAuth connection initiated
+ *         headers:
+ *           Set-Cookie:
+ *             description: HttpOnly cookie binding the issued state to this browser
+ *             schema:
+ *               type: string
  *         content:
  *           application/json:
  *             schema:
@@ -46,31 +136,64 @@ const getSessionId = (req: Request): string => {
  *                 - type: object
  *                   properties:
  *                     data:
- *                       $ref: '#/components/schemas/MessageResponse'
+ *                       $ref: '#/components/schemas/ConnectResponse'
  *             example:
  *               success: true
  *               data:
  *                 message: "OAuth connection initiated"
+ *                 authorizeUrl: "https://login.mailchimp.com/oauth2/authorize?response_type=code&client_id=741151044464&redirect_uri=http%3A%2F%2F127.0.0.1%3A3001%2Foauth-verify%2Fmailchimp&state=Zk3v..."
+ *                 state: "Zk3v..."
+ *                 expiresAt: "2024-01-01T12:10:00.000Z"
+ *       302:
+ *         description: Redirect to the MailChimp authorization URL (when `redirect=true`)
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
 // 1. GET /api/mailchimp/connect
 router.get(
   "/connect",
-  (req: Request, res: Response<ApiResponse<{ message: string }>>) => {
+  optionalSession,
+  validateRequest({ query: connectQuerySchema }),
+  async (
+    req: Request<{}, ApiResponse<ConnectResponse>, {}, ConnectQuery>,
+    res: Response<ApiResponse<ConnectResponse>>,
+    next: NextFunction
+  ) => {
     try {
+      // Reuse the browser's existing binding so parallel flows stay valid; it
+      // is not cleared when a flow finishes
+      const binding =
+        req.cookies?.[OAUTH_BINDING_COOKIE] ||
+        oauthStateService.generateBinding();
+      // A caller with a session links the new account into it
+      const { state, expiresAt } = await oauthStateService.createState(
+        binding,
+        req.sessionId
+      );
+      const authorizeUrl = oauthStateService.buildAuthorizeUrl(state);
+
+      res.cookie(OAUTH_BINDING_COOKIE, binding, {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        maxAge: OAUTH_STATE_TTL_MS,
+      });
+
+      if (req.query.redirect) {
+        return res.redirect(authorizeUrl);
+      }
+
       res.json({
         success: true,
         data: {
           message: "OAuth connection initiated",
+          authorizeUrl,
+          state,
+          expiresAt: expiresAt.toISOString(),
         },
       });
     } catch (error) {
-      res.status(500).json({
-        success: false,
-        message: "Internal server error",
-        data: null,
-      });
+      next(error);
     }
   }
 );
@@ -84,7 +207,14 @@ router.get(
  *     summary: Exchange OAuth authorization code for access token
  *     description: |
  *       Exchange the authorization code received from MailChimp OAuth callback
- *       for an access token and establish a user session.
+ *       for an access token and establish a new user session. In header mode the
+ *       session ID is returned in the `X-Session-Id` header and as `sessionId`;
+ *       in cookie mode it is only set as an HttpOnly cookie.
+ *
+ *       The `state` must be the one issued by `GET /api/mailchimp/connect` to the
+ *       same browser. Missing, unknown, expired, replayed or mismatched states are
+ *       rejected with a 400 and one of the codes `missing_state`, `invalid_state`,
+ *       `expired_state`, `replayed_state` or `state_mismatch`.
  *
  *       **Note**: This endpoint is typically called by your frontend after receiving
  *       the authorization code from the OAuth callback flow.
@@ -96,16 +226,16 @@ router.get(
  *             $ref: '#/components/schemas/OAuthTokenRequest'
  *           example:
  *             code: "abc123def456ghi789"
- *             state: "random-state-string"
+ *             state: "Zk3v..."
  *     responses:
  *       200:
  *         description: OAuth token exchange successful
  *         headers:
  *           X-Session-Id:
- *             description: Session ID for subsequent API calls
+ *             description: Session ID for subsequent API calls (header mode only)
  *             schema:
  *               type: string
- *             example: "192.168.1.1-1635789012345-abc123"
+ *             example: "hV0n3nQ2l6yQ8H1xkq2r6m9yqzZQx0c3V5b8WcE4s1A"
  *         content:
  *           application/json:
  *             schema:
@@ -121,28 +251,35 @@ router.get(
  *                 isConnected: true
  *                 accountName: "My Company"
  *                 userEmail: "user@example.com"
+ *                 sessionId: "hV0n3nQ2l6yQ8H1xkq2r6m9yqzZQx0c3V5b8WcE4s1A"
  *       400:
  *         $ref: '#/components/responses/BadRequest'
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
+ *       502:
+ *         $ref: '#/components/responses/MailChimpUnavailable'
+ *       504:
+ *         $ref: '#/components/responses/MailChimpTimeout'
  */
 // 2. POST /api/mailchimp/oauth/token
 router.post(
   "/oauth/token",
+  validateRequest({ body: oauthTokenBodySchema }),
   async (
-    req: Request<{}, ApiResponse<ConnectionStatus>, OAuthTokenRequest>,
-    res: Response<ApiResponse<ConnectionStatus>>
+    req: Request<{}, ApiResponse<ConnectionStatus>, OAuthTokenBody>,
+    res: Response<ApiResponse<ConnectionStatus>>,
+    next: NextFunction
   ) => {
     try {
       const { code, state } = req.body;
 
-      if (!code) {
-        return res.status(400).json({
-          success: false,
-          message: "Authorization code is required",
-          data: null,
-        });
-      }
+      // Validate the state before the code is spent; throws OAuthStateError
+      const stateRecord = await oauthStateService.consumeState(
+        state,
+        req.cookies?.[OAUTH_BINDING_COOKIE]
+      );
 
       // Exchange code for access token
       const tokenResponse = await mailchimpService.exchangeCodeForToken(code);
@@ -152,32 +289,35 @@ router.post(
         tokenResponse.access_token
       );
 
-      // Store session
-      const sessionId = getSessionId(req);
-      mailchimpService.storeUserSession(
-        sessionId,
+      // Link into the session that started /connect, else start a fresh one
+      // (an ID supplied only here is never reused, so it can't be fixated)
+      const { sessionId, accountId } = await mailchimpService.connectAccount(
+        stateRecord.sessionId,
         tokenResponse.access_token,
         metadata
       );
 
-      // Send session ID back to frontend
-      res.setHeader("X-Session-Id", sessionId);
+      // Send session ID back to frontend; cookie mode keeps it out of reach
+      // of scripts
+      if (isCookieSessionMode()) {
+        setSessionCookie(res, sessionId);
+      } else {
+        res.setHeader("X-Session-Id", sessionId);
+      }
 
       res.json({
         success: true,
         data: {
+          accountId,
           accountName: metadata.accountname,
           userEmail: metadata.login.email,
           isConnected: true,
+          // Cookie mode keeps the ID out of reach of scripts
+          sessionId: isCookieSessionMode() ? undefined : sessionId,
         },
       });
-    } catch (error: any) {
-      console.error("OAuth token exchange error:", error);
-      res.status(500).json({
-        success: false,
-        message: error.message || "Failed to exchange OAuth token",
-        data: null,
-      });
+    } catch (error) {
+      next(error);
     }
   }
 );
@@ -189,9 +329,21 @@ router.post(
  *     tags:
  *       - Connection
  *     summary: Check MailChimp connection status
- *     description: Check if the user is currently connected to MailChimp and get account information
+ *     description: |
+ *       Check if the user is currently connected to MailChimp and get account information.
+ *       With `verify=true` the token is checked against MailChimp (results are cached
+ *       briefly) and the stored account details are refreshed; if MailChimp rejects the
+ *       token, the account is marked revoked and `reconnectRequired` is returned.
+ *       Requests without a session, or with one that is unknown or has expired, answer
+ *       `isConnected: false`, and a stale session cookie is cleared. Sessions expire
+ *       after an absolute lifetime or after a period of inactivity.
  *     parameters:
  *       - $ref: '#/components/parameters/SessionId'
+ *       - in: query
+ *         name: verify
+ *         schema:
+ *           type: boolean
+ *         description: Verify the access token against MailChimp
  *     responses:
  *       200:
  *         description: Connection status retrieved successfully
@@ -213,6 +365,17 @@ router.post(
  *                     isConnected: true
  *                     accountName: "My Company"
  *                     userEmail: "user@example.com"
+ *                     expiresAt: "2024-01-02T12:00:00.000Z"
+ *               revoked:
+ *                 summary: User revoked the app in MailChimp
+ *                 value:
+ *                   success: true
+ *                   data:
+ *                     isConnected: false
+ *                     reconnectRequired: true
+ *                     accountId: "us6-12345678"
+ *                     accountName: "My Company"
+ *                     userEmail: "user@example.com"
  *               not_connected:
  *                 summary: User is not connected
  *                 value:
@@ -225,12 +388,19 @@ router.post(
 // 3. GET /api/mailchimp/status
 router.get(
   "/status",
-  (req: Request, res: Response<ApiResponse<ConnectionStatus>>) => {
+  optionalSession,
+  validateRequest({ query: statusQuerySchema }),
+  async (
+    req: Request<{}, ApiResponse<ConnectionStatus>, {}, StatusQuery>,
+    res: Response<ApiResponse<ConnectionStatus>>,
+    next: NextFunction
+  ) => {
     try {
-      const sessionId = getSessionId(req);
-      const session = mailchimpService.getUserSession(sessionId);
+      const session = req.userSession;
+      let connection = session && mailchimpService.getConnection(session);
 
-      if (!session) {
+      // No session supplied at all
+      if (!session || !connection) {
         return res.json({
           success: true,
           data: {
@@ -239,20 +409,32 @@ router.get(
         });
       }
 
+      if (req.query.verify) {
+        try {
+          connection = await mailchimpService.verifyConnection(
+            req.sessionId!,
+            connection
+          );
+        } catch (error: any) {
+          // MailChimp unreachable: fall back to the stored state
+          console.error("Token verification error:", error.message);
+        }
+      }
+
       res.json({
         success: true,
         data: {
-          isConnected: true,
-          accountName: session.metadata.accountname,
-          userEmail: session.metadata.login.email,
+          isConnected: !connection.revokedAt,
+          reconnectRequired: !!connection.revokedAt,
+          accountId: connection.accountId,
+          accountName: connection.metadata.accountname,
+          userEmail: connection.metadata.login.email,
+          expiresAt: mailchimpService.getSessionExpiry(session).toISOString(),
+          lastVerifiedAt: connection.lastVerifiedAt?.toISOString(),
         },
       });
     } catch (error) {
-      res.status(500).json({
-        success: false,
-        message: "Internal server error",
-        data: null,
-      });
+      next(error);
     }
   }
 );
@@ -264,9 +446,42 @@ router.get(
  *     tags:
  *       - Lists
  *     summary: Get MailChimp email lists
- *     description: Retrieve all email lists from the connected MailChimp account
+ *     description: |
+ *       Retrieve email lists from the connected MailChimp account, one page at a
+ *       time. Follow `nextCursor` (pass it back as `cursor`) until it is `null`,
+ *       or use `all=true` to have every page fetched server-side.
+ *
+ *       MailChimp can only sort by creation date and has no name filter, so
+ *       `name`, `sort=name` and `sort=member_count` fetch every list and filter
+ *       or sort them here before paging.
  *     parameters:
  *       - $ref: '#/components/parameters/SessionId'
+ *       - $ref: '#/components/parameters/AccountId'
+ *       - $ref: '#/components/parameters/PageCount'
+ *       - $ref: '#/components/parameters/PageOffset'
+ *       - $ref: '#/components/parameters/PageCursor'
+ *       - in: query
+ *         name: name
+ *         schema:
+ *           type: string
+ *         description: Case-insensitive search on the list name
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [date_created, name, member_count]
+ *       - in: query
+ *         name: sortDir
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: asc
+ *       - in: query
+ *         name: all
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Return every matching list in one response (ignores count, offset and cursor)
  *     responses:
  *       200:
  *         description: Email lists retrieved successfully
@@ -285,57 +500,139 @@ router.get(
  *                 lists:
  *                   - id: "1a2b3c4d5e"
  *                     name: "Newsletter Subscribers"
+ *                     dateCreated: "2023-03-01T09:00:00+00:00"
  *                     stats:
  *                       member_count: 1250
+ *                       unsubscribe_count: 48
+ *                       open_rate: 42.5
+ *                       campaign_last_sent: "2024-01-01T12:00:00+00:00"
  *                   - id: "5e4d3c2b1a"
  *                     name: "Product Updates"
+ *                     dateCreated: "2023-06-15T09:00:00+00:00"
  *                     stats:
  *                       member_count: 892
+ *                       unsubscribe_count: 12
+ *                       open_rate: 38.1
+ *                       campaign_last_sent: null
+ *                 total: 12
+ *                 offset: 0
+ *                 nextCursor: "eyJvZmZzZXQiOjEwfQ"
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/AccountNotFound'
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
+ *       502:
+ *         $ref: '#/components/responses/MailChimpUnavailable'
+ *       504:
+ *         $ref: '#/components/responses/MailChimpTimeout'
  */
 // 4. GET /api/mailchimp/lists
 router.get(
   "/lists",
-  async (req: Request, res: Response<ApiResponse<ListsResponse>>) => {
+  requireSession,
+  requireConnection,
+  validateRequest({ query: listsQuerySchema }),
+  async (
+    req: Request<{}, ApiResponse<ListsResponse>, {}, ListsRequestQuery>,
+    res: Response<ApiResponse<ListsResponse>>,
+    next: NextFunction
+  ) => {
     try {
-      const sessionId = getSessionId(req);
-      const session = mailchimpService.getUserSession(sessionId);
+      const connection = req.mailchimpConnection!;
+      const {
+        name,
+        sort: sortField,
+        sortDir = "asc",
+        all: fetchAll,
+        count = LISTS_DEFAULT_PAGE_SIZE,
+      } = req.query;
+      let offset = pageOffset(req.query);
+      const search = name ? name.trim() : "";
+      const mailchimpSort =
+        sortField === "date_created"
+          ? {
+              sortField,
+              sortDir: sortDir.toUpperCase() as "ASC" | "DESC",
+            }
+          : {};
 
-      if (!session) {
-        return res.status(401).json({
-          success: false,
-          message: "Not connected to MailChimp",
-          data: null,
-        });
+      let lists: MailChimpListsApiResponse["lists"];
+      let total: number;
+
+      if (fetchAll || search || (sortField && sortField !== "date_created")) {
+        // Filtering and custom sorting need every list, so page locally
+        const allLists = await mailchimpService.getAllLists(
+          connection.accessToken,
+          connection.metadata.dc,
+          mailchimpSort
+        );
+
+        lists = allLists.lists;
+        if (search) {
+          const needle = search.toLowerCase();
+          lists = lists.filter((list) =>
+            list.name.toLowerCase().includes(needle)
+          );
+        }
+        if (sortField === "name" || sortField === "member_count") {
+          const direction = sortDir === "desc" ? -1 : 1;
+          lists = [...lists].sort(
+            (a, b) =>
+              direction *
+              (sortField === "name"
+                ? a.name.localeCompare(b.name)
+                : a.stats.member_count - b.stats.member_count)
+          );
+        }
+
+        total = lists.length;
+        if (fetchAll) {
+          offset = 0;
+        } else {
+          lists = lists.slice(offset, offset + count);
+        }
+      } else {
+        const page = await mailchimpService.getLists(
+          connection.accessToken,
+          connection.metadata.dc,
+          { count, offset, ...mailchimpSort }
+        );
+        lists = page.lists;
+        total = page.total_items;
       }
 
-      const listsResponse = await mailchimpService.getLists(
-        session.accessToken,
-        session.metadata.dc
-      );
+      const nextOffset = offset + lists.length;
 
       res.json({
         success: true,
         data: {
-          lists: listsResponse.lists.map((list) => ({
+          lists: lists.map((list) => ({
             id: list.id,
             name: list.name,
+            dateCreated: list.date_created,
             stats: {
               member_count: list.stats.member_count,
+              unsubscribe_count: list.stats.unsubscribe_count,
+              open_rate: list.stats.open_rate,
+              campaign_last_sent: list.stats.campaign_last_sent || null,
             },
           })),
+          total,
+          offset,
+          nextCursor:
+            !fetchAll && lists.length > 0 && nextOffset < total
+              ? encodeCursor(nextOffset)
+              : null,
         },
       });
-    } catch (error: any) {
-      console.error("Lists fetch error:", error);
-      res.status(500).json({
-        success: false,
-        message: error.message || "Failed to fetch email lists",
-        data: null,
-      });
+    } catch (error) {
+      next(error);
     }
   }
 );
@@ -352,16 +649,46 @@ router.get(
  *       This operation will:
  *       1. Create a new campaign with the provided settings
  *       2. Set the HTML content for the campaign
- *       3. Send the campaign immediately
+ *       3. Run MailChimp's send checklist
+ *       4. Send the campaign immediately if the checklist is ready
+ *
+ *       If the checklist reports blocking errors the campaign is left as a draft
+ *       and `422` is returned with the checklist. With `dryRun=true` the draft is
+ *       created and checked but never sent.
+ *
+ *       Pass `accountId` to send from a linked account other than the active one.
+ *
+ *       Send an `Idempotency-Key` header to make retries safe: a repeat of the
+ *       same request with the same key returns the stored response (marked with
+ *       `Idempotent-Replayed: true`) instead of sending another campaign. A
+ *       server error is only forgotten (so the key can be retried) when the
+ *       request failed before the send step.
+ *
+ *       If a step fails after the campaign was created, the draft is deleted
+ *       (unless `keepDraftOnFailure` is set or the campaign is no longer a
+ *       draft). The response keeps the status and code of the failure (for
+ *       example `502` with `mailchimp_unavailable` or `504` with
+ *       `mailchimp_timeout`; unexpected errors are `500` with
+ *       `campaign_send_failed`), and `data` reports the step that failed and
+ *       what happened to the draft.
+ *
+ *       With `async=true` the request is validated, a send job is queued and
+ *       `202` is returned with the job straight away. The job runs these steps
+ *       in the background, survives server restarts, and can be followed with
+ *       `GET /api/mailchimp/campaign/send/jobs/{jobId}`.
  *     parameters:
  *       - $ref: '#/components/parameters/SessionId'
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *       - $ref: '#/components/parameters/DryRun'
+ *       - $ref: '#/components/parameters/AsyncSend'
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
- *             $ref: '#/components/schemas/CampaignRequest'
+ *             $ref: '#/components/schemas/SendCampaignRequest'
  *           example:
+ *             accountId: "us6-12345678"
  *             listId: "1a2b3c4d5e"
  *             subject: "Welcome to our Newsletter!"
  *             content: "<h1>Welcome!</h1><p>Thank you for subscribing to our newsletter.</p>"
@@ -385,84 +712,228 @@ router.get(
  *                 campaignId: "campaign_123456"
  *                 status: "sent"
  *                 message: "Campaign sent successfully"
+ *                 checklist:
+ *                   isReady: true
+ *                   errors: []
+ *                   warnings: []
+ *       202:
+ *         description: Send job queued (with `async=true`)
+ *         headers:
+ *           Location:
+ *             description: URL of the job status endpoint
+ *             schema:
+ *               type: string
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/SendJob'
  *       400:
  *         $ref: '#/components/responses/BadRequest'
  *       401:
  *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/AccountNotFound'
+ *       409:
+ *         $ref: '#/components/responses/IdempotencyConflict'
+ *       422:
+ *         $ref: '#/components/responses/CampaignNotReady'
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
  *       500:
- *         $ref: '#/components/responses/InternalServerError'
+ *         $ref: '#/components/responses/CampaignSendFailed'
+ *       502:
+ *         $ref: '#/components/responses/CampaignSendFailed'
+ *       504:
+ *         $ref: '#/components/responses/CampaignSendFailed'
  */
 // 5. POST /api/mailchimp/campaign/send
 router.post(
   "/campaign/send",
+  requireSession,
+  requireConnection,
+  validateRequest({
+    body: sendCampaignBodySchema,
+    query: sendCampaignQuerySchema,
+    headers: idempotencyHeadersSchema,
+  }),
+  idempotencyKey(),
   async (
-    req: Request<{}, ApiResponse<CampaignResponse>, CampaignRequest>,
-    res: Response<ApiResponse<CampaignResponse>>
+    req: Request<
+      {},
+      ApiResponse<CampaignResponse | SendJobResponse | SendFailure>,
+      SendCampaignBody,
+      SendCampaignQuery
+    >,
+    res: Response<
+      ApiResponse<CampaignResponse | SendJobResponse | SendFailure>
+    >,
+    next: NextFunction
   ) => {
     try {
-      const { listId, subject, content, fromName, replyTo } = req.body;
+      const {
+        listId,
+        subject,
+        content,
+        fromName,
+        replyTo,
+        targeting,
+        keepDraftOnFailure,
+      } = req.body;
 
-      // Validate required fields
-      if (!listId || !subject || !content || !fromName || !replyTo) {
-        return res.status(400).json({
-          success: false,
-          message:
-            "Missing required fields: listId, subject, content, fromName, replyTo",
-          data: null,
-        });
-      }
+      const connection = req.mailchimpConnection!;
 
-      const sessionId = getSessionId(req);
-      const session = mailchimpService.getUserSession(sessionId);
+      if (req.query.async) {
+        const job = await sendJobService.enqueue(
+          req.userSession!.userId,
+          connection,
+          req.body,
+          req.query.dryRun === true
+        );
 
-      if (!session) {
-        return res.status(401).json({
-          success: false,
-          message: "Not connected to MailChimp",
-          data: null,
+        res.setHeader(
+          "Location",
+          `/api/mailchimp/campaign/send/jobs/${job.id}`
+        );
+        return res.status(202).json({
+          success: true,
+          data: toSendJobResponse(job),
         });
       }
 
-      // Create campaign
-      const campaign = await mailchimpService.createCampaign(
-        session.accessToken,
-        session.metadata.dc,
-        listId,
-        subject,
-        fromName,
-        replyTo
-      );
+      // Steps that have succeeded, so a failure can be rolled back
+      const completedSteps: CampaignSendStep[] = [];
+      let campaignId: string | null = null;
 
-      // Set campaign content
-      await mailchimpService.setCampaignContent(
-        session.accessToken,
-        session.metadata.dc,
-        campaign.id,
-        content
-      );
+      try {
+        // Create campaign
+        const campaign = await mailchimpService.createCampaign(
+          connection.accessToken,
+          connection.metadata.dc,
+          listId,
+          subject,
+          fromName,
+          replyTo,
+          targeting && buildSegmentOpts(targeting)
+        );
+        campaignId = campaign.id;
+        completedSteps.push("create");
 
-      // Send campaign
-      await mailchimpService.sendCampaign(
-        session.accessToken,
-        session.metadata.dc,
-        campaign.id
-      );
+        // Set campaign content
+        await mailchimpService.setCampaignContent(
+          connection.accessToken,
+          connection.metadata.dc,
+          campaign.id,
+          content
+        );
+        completedSteps.push("content");
 
-      res.json({
-        success: true,
-        data: {
-          campaignId: campaign.id,
-          status: "sent",
-          message: "Campaign sent successfully",
-        },
-      });
-    } catch (error: any) {
-      console.error("Campaign send error:", error);
-      res.status(500).json({
-        success: false,
-        message: error.message || "Failed to send campaign",
-        data: null,
-      });
+        // Pre-flight: check the campaign is ready before sending
+        const checklist = await mailchimpService.getSendChecklist(
+          connection.accessToken,
+          connection.metadata.dc,
+          campaign.id
+        );
+        completedSteps.push("checklist");
+
+        if (req.query.dryRun) {
+          return res.json({
+            success: true,
+            data: {
+              campaignId: campaign.id,
+              status: "save",
+              message: "Dry run: campaign saved as a draft and not sent",
+              checklist,
+            },
+          });
+        }
+
+        if (!checklist.isReady) {
+          return res.status(422).json({
+            success: false,
+            message: "Campaign is not ready to send; it was saved as a draft",
+            code: "campaign_not_ready",
+            data: {
+              campaignId: campaign.id,
+              status: "save",
+              message: "Campaign is not ready to send",
+              checklist,
+            },
+          });
+        }
+
+        // Send campaign. A failure here may still have sent it, so a retry
+        // with the same Idempotency-Key gets this response back instead
+        markUnsafeToRetry(res);
+        await mailchimpService.sendCampaign(
+          connection.accessToken,
+          connection.metadata.dc,
+          campaign.id
+        );
+
+        res.json({
+          success: true,
+          data: {
+            campaignId: campaign.id,
+            status: "sent",
+            message: "Campaign sent successfully",
+            checklist,
+          },
+        });
+      } catch (error: any) {
+        const failedStep = CAMPAIGN_SEND_STEPS[completedSteps.length];
+
+        // A send call that timed out may still have gone through
+        const sendError = failedStep === "send" ? error : undefined;
+        if (
+          sendError &&
+          isAmbiguousSendFailure(sendError) &&
+          (await isCampaignSent(
+            mailchimpService,
+            connection.accessToken,
+            connection.metadata.dc,
+            campaignId!
+          ))
+        ) {
+          return res.json({
+            success: true,
+            data: {
+              campaignId: campaignId!,
+              status: "sent",
+              message: "Campaign sent successfully",
+            },
+          });
+        }
+
+        const draft = await rollbackFailedSend(
+          mailchimpService,
+          connection.accessToken,
+          connection.metadata.dc,
+          campaignId,
+          keepDraftOnFailure === true,
+          sendError
+        );
+
+        // Keep the status and code of the failure (e.g. 429 rate_limited,
+        // 504 mailchimp_timeout) and report what happened to the campaign
+        const failure =
+          error instanceof ApiError
+            ? error
+            : new ApiError(
+                500,
+                "campaign_send_failed",
+                error.message || "Failed to send campaign"
+              );
+        failure.message = `${failure.message} (${failedStep} step)`;
+        failure.data = { failedStep, completedSteps, campaignId, draft };
+        return next(failure);
+      }
+    } catch (error) {
+      next(error);
     }
   }
 );
@@ -474,7 +945,9 @@ router.post(
  *     tags:
  *       - Connection
  *     summary: Disconnect from MailChimp
- *     description: Remove the MailChimp connection and clear the user session
+ *     description: |
+ *       Remove the MailChimp connection and clear the user session. Disconnecting an
+ *       unknown or already expired session succeeds.
  *     parameters:
  *       - $ref: '#/components/parameters/SessionId'
  *     responses:
@@ -493,16 +966,31 @@ router.post(
  *               success: true
  *               data:
  *                 message: "Successfully disconnected from MailChimp"
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
 // 6. POST /api/mailchimp/disconnect
 router.post(
   "/disconnect",
-  (req: Request, res: Response<ApiResponse<{ message: string }>>) => {
+  async (
+    req: Request,
+    res: Response<ApiResponse<{ message: string }>>,
+    next: NextFunction
+  ) => {
     try {
       const sessionId = getSessionId(req);
-      mailchimpService.removeUserSession(sessionId);
+
+      if (!sessionId) {
+        return next(
+          new SessionError("session_required", "Session ID is required")
+        );
+      }
+
+      // Removing an unknown or expired session is not an error
+      await mailchimpService.removeUserSession(sessionId);
+      clearSessionCookie(res);
 
       res.json({
         success: true,
@@ -511,11 +999,505 @@ router.post(
         },
       });
     } catch (error) {
-      res.status(500).json({
-        success: false,
-        message: "Internal server error",
-        data: null,
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/mailchimp/accounts:
+ *   get:
+ *     tags:
+ *       - Connection
+ *     summary: List linked MailChimp accounts
+ *     description: |
+ *       List every MailChimp account linked to the current session.
+ *       To link another account, call `GET /api/mailchimp/connect` with the session
+ *       and complete the OAuth flow; the new account becomes the active one.
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *     responses:
+ *       200:
+ *         description: Linked accounts retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/AccountsResponse'
+ *             example:
+ *               success: true
+ *               data:
+ *                 userId: "5d1f6a2e-8f8c-4c57-9d1a-0b4b8b0f7c3e"
+ *                 accounts:
+ *                   - accountId: "us6-12345678"
+ *                     accountName: "Client A"
+ *                     userEmail: "user@example.com"
+ *                     dc: "us6"
+ *                     connectedAt: "2024-01-01T12:00:00.000Z"
+ *                     isActive: true
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+// 7. GET /api/mailchimp/accounts
+router.get(
+  "/accounts",
+  requireSession,
+  (
+    req: Request,
+    res: Response<ApiResponse<AccountsResponse>>,
+    next: NextFunction
+  ) => {
+    try {
+      const session = req.userSession!;
+
+      res.json({
+        success: true,
+        data: {
+          userId: session.userId,
+          accounts: session.connections.map((connection) => ({
+            accountId: connection.accountId,
+            accountName: connection.metadata.accountname,
+            userEmail: connection.metadata.login.email,
+            dc: connection.metadata.dc,
+            connectedAt: connection.connectedAt.toISOString(),
+            isActive: connection.accountId === session.activeAccountId,
+          })),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/mailchimp/accounts/active:
+ *   put:
+ *     tags:
+ *       - Connection
+ *     summary: Choose the active MailChimp account
+ *     description: |
+ *       Set which linked account is used by routes that don't receive an explicit
+ *       `accountId` (such as `/lists` and `/campaign/send`).
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ActivateAccountRequest'
+ *           example:
+ *             accountId: "us6-12345678"
+ *     responses:
+ *       200:
+ *         description: Active account updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/ConnectionStatus'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/AccountNotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+// 8. PUT /api/mailchimp/accounts/active
+router.put(
+  "/accounts/active",
+  requireSession,
+  requireConnection,
+  validateRequest({ body: activateAccountBodySchema }),
+  async (
+    req: Request<{}, ApiResponse<ConnectionStatus>, ActivateAccountBody>,
+    res: Response<ApiResponse<ConnectionStatus>>,
+    next: NextFunction
+  ) => {
+    try {
+      const connection = req.mailchimpConnection!;
+      await mailchimpService.setActiveAccount(
+        req.sessionId!,
+        connection.accountId
+      );
+
+      res.json({
+        success: true,
+        data: {
+          isConnected: true,
+          accountId: connection.accountId,
+          accountName: connection.metadata.accountname,
+          userEmail: connection.metadata.login.email,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/mailchimp/campaign/test:
+ *   post:
+ *     tags:
+ *       - Campaigns
+ *     summary: Send a test email of a campaign
+ *     description: |
+ *       Send a campaign to a few test addresses before sending it to the list.
+ *       Pass either the `campaignId` of an existing draft, or the same fields as
+ *       `POST /api/mailchimp/campaign/send` to create a new draft; its ID is
+ *       returned so later tests (and the final send) can reuse it.
+ *
+ *       Up to 10 addresses (`CAMPAIGN_TEST_MAX_RECIPIENTS`) are accepted per
+ *       request. Invalid addresses are reported as `invalid` and skipped; the
+ *       rest are reported as `sent` or `failed`.
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TestCampaignRequest'
+ *           example:
+ *             campaignId: "b03bfc2a2c"
+ *             testEmails: ["editor@example.com", "reviewer@example.com"]
+ *             sendType: "html"
+ *     responses:
+ *       200:
+ *         description: Test email processed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/TestCampaignResponse'
+ *             example:
+ *               success: true
+ *               data:
+ *                 campaignId: "b03bfc2a2c"
+ *                 draftCreated: false
+ *                 sendType: "html"
+ *                 results:
+ *                   - email: "editor@example.com"
+ *                     status: "sent"
+ *                   - email: "not-an-email"
+ *                     status: "invalid"
+ *                     error: "Invalid email address"
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/CampaignNotFound'
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *       502:
+ *         $ref: '#/components/responses/MailChimpUnavailable'
+ *       504:
+ *         $ref: '#/components/responses/MailChimpTimeout'
+ */
+// 9. POST /api/mailchimp/campaign/test
+router.post(
+  "/campaign/test",
+  requireSession,
+  requireConnection,
+  validateRequest({ body: testCampaignBodySchema }),
+  async (
+    req: Request<{}, ApiResponse<TestCampaignResponse>, TestCampaignBody>,
+    res: Response<ApiResponse<TestCampaignResponse>>,
+    next: NextFunction
+  ) => {
+    try {
+      const {
+        campaignId,
+        listId,
+        subject,
+        content,
+        fromName,
+        replyTo,
+        targeting,
+        testEmails,
+        sendType = "html",
+      } = req.body;
+
+      const results: TestEmailResult[] = [];
+      const recipients: string[] = [];
+      for (const email of testEmails) {
+        const address = email.trim();
+        if (!isValidEmail(address)) {
+          results.push({
+            email,
+            status: "invalid",
+            error: "Invalid email address",
+          });
+        } else if (!recipients.includes(address.toLowerCase())) {
+          recipients.push(address.toLowerCase());
+        }
+      }
+
+      if (recipients.length === 0) {
+        return next(new ValidationError("No valid test email addresses"));
+      }
+
+      const connection = req.mailchimpConnection!;
+      let draftId = campaignId;
+
+      if (draftId) {
+        const campaign = await mailchimpService.getCampaign(
+          connection.accessToken,
+          connection.metadata.dc,
+          draftId
+        );
+        if (!campaign) {
+          return next(new NotFoundError("Campaign not found"));
+        }
+      } else {
+        const campaign = await mailchimpService.createCampaign(
+          connection.accessToken,
+          connection.metadata.dc,
+          listId!,
+          subject!,
+          fromName!,
+          replyTo!,
+          targeting && buildSegmentOpts(targeting)
+        );
+        await mailchimpService.setCampaignContent(
+          connection.accessToken,
+          connection.metadata.dc,
+          campaign.id,
+          content!
+        );
+        draftId = campaign.id;
+      }
+
+      try {
+        await mailchimpService.sendTestEmail(
+          connection.accessToken,
+          connection.metadata.dc,
+          draftId,
+          recipients,
+          sendType
+        );
+        results.unshift(
+          ...recipients.map((email) => ({ email, status: "sent" as const }))
+        );
+      } catch (error: any) {
+        // MailChimp accepts or rejects the test as a whole
+        results.unshift(
+          ...recipients.map((email) => ({
+            email,
+            status: "failed" as const,
+            error: error.message,
+          }))
+        );
+      }
+
+      res.json({
+        success: true,
+        data: {
+          campaignId: draftId,
+          draftCreated: !campaignId,
+          sendType,
+          results,
+        },
       });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/mailchimp/campaign/send/jobs/{jobId}:
+ *   get:
+ *     tags:
+ *       - Campaigns
+ *     summary: Get campaign send job status
+ *     description: |
+ *       Returns a job queued by `POST /api/mailchimp/campaign/send?async=true`.
+ *       `step` is the step running next (`create`, `content`, `checklist`,
+ *       `send`), `done` once the job has completed, or the step that failed.
+ *       `campaignId` is set as soon as the campaign has been created. A job
+ *       refused by the send checklist fails with the code `campaign_not_ready`
+ *       and its checklist; the campaign is left as a draft.
+ *
+ *       Finished jobs are kept for `SEND_JOB_RETENTION_MS` (7 days by default).
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Send job ID returned when the send was queued
+ *     responses:
+ *       200:
+ *         description: Send job retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/SendJob'
+ *             example:
+ *               success: true
+ *               data:
+ *                 jobId: "5b7c2d9e-8a41-4c3f-b6e2-0d1f9a8c7e34"
+ *                 accountId: "us6-12345678"
+ *                 listId: "1a2b3c4d5e"
+ *                 status: "failed"
+ *                 step: "send"
+ *                 campaignId: "campaign_123456"
+ *                 dryRun: false
+ *                 error:
+ *                   step: "send"
+ *                   message: "Failed to send campaign"
+ *                 createdAt: "2024-01-01T12:00:00.000Z"
+ *                 updatedAt: "2024-01-01T12:00:04.000Z"
+ *                 finishedAt: "2024-01-01T12:00:04.000Z"
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+// 10. GET /api/mailchimp/campaign/send/jobs/:jobId
+router.get(
+  "/campaign/send/jobs/:jobId",
+  requireSession,
+  async (
+    req: Request<{ jobId: string }>,
+    res: Response<ApiResponse<SendJobResponse>>,
+    next: NextFunction
+  ) => {
+    try {
+      const job = await sendJobService.getJob(
+        req.params.jobId,
+        req.userSession!.userId
+      );
+
+      if (!job) {
+        return next(new NotFoundError("Send job not found"));
+      }
+
+      res.json({
+        success: true,
+        data: toSendJobResponse(job),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/mailchimp/accounts/{accountId}:
+ *   delete:
+ *     tags:
+ *       - Connection
+ *     summary: Unlink a MailChimp account
+ *     description: |
+ *       Remove one linked account from the session. If it was the active
+ *       account, the first remaining account becomes active. Unlinking the last
+ *       account ends the session, like `POST /api/mailchimp/disconnect`.
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *       - in: path
+ *         name: accountId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: "us6-12345678"
+ *     responses:
+ *       200:
+ *         description: Account unlinked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/MessageResponse'
+ *             example:
+ *               success: true
+ *               data:
+ *                 message: "MailChimp account unlinked"
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/AccountNotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+// 11. DELETE /api/mailchimp/accounts/:accountId
+router.delete(
+  "/accounts/:accountId",
+  requireSession,
+  async (
+    req: Request<{ accountId: string }>,
+    res: Response<ApiResponse<{ message: string }>>,
+    next: NextFunction
+  ) => {
+    try {
+      const remaining = await mailchimpService.unlinkAccount(
+        req.sessionId!,
+        req.params.accountId
+      );
+
+      if (remaining === null) {
+        return next(
+          new NotFoundError(
+            "MailChimp account is not linked to this session",
+            "account_not_found"
+          )
+        );
+      }
+
+      if (remaining === 0) {
+        clearSessionCookie(res);
+      }
+
+      res.json({
+        success: true,
+        data: {
+          message:
+            remaining === 0
+              ? "MailChimp account unlinked; the session has ended"
+              : "MailChimp account unlinked",
+        },
+      });
+    } catch (error) {
+      next(error);
     }
   }
 );
@@ -0,0 +1,417 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { MailChimpService } from "../services/mailchimpService";
+import {
+  requireSession,
+  requireConnection,
+  requireCsrfHeader,
+} from "../middleware/session";
+import { validateRequest } from "../middleware/validate";
+import {
+  AddMemberBody,
+  UpdateMemberBody,
+  addMemberBodySchema,
+  updateMemberBodySchema,
+} from "../schemas/members";
+import { toSubscriberHash } from "../utils/subscriberHash";
+import {
+  ApiResponse,
+  ListMember,
+  MailChimpMemberApiResponse,
+} from "../types/mailchimp";
+
+// Mounted at /api/mailchimp/lists/:listId/members
+const router = Router({ mergeParams: true });
+const mailchimpService = new MailChimpService();
+
+type ListParams = { listId: string };
+type MemberParams = { listId: string; memberId: string };
+
+router.use(requireCsrfHeader);
+router.use(requireSession, requireConnection);
+
+// Helper function to map MailChimp's member shape to ours
+const toListMember = (member: MailChimpMemberApiResponse): ListMember => ({
+  id: member.id,
+  email: member.email_address,
+  status: member.status,
+  mergeFields: member.merge_fields,
+  listId: member.list_id,
+  lastChanged: member.last_changed,
+});
+
+/**
+ * @swagger
+ * /api/mailchimp/lists/{listId}/members:
+ *   post:
+ *     tags:
+ *       - Members
+ *     summary: Add or upsert a list member
+ *     description: |
+ *       Add a contact to a MailChimp audience. With `upsert: true` an existing
+ *       member with the same email is updated instead of rejected. The subscriber
+ *       hash MailChimp uses to address members is computed server-side.
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *       - $ref: '#/components/parameters/ListId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/AddMemberRequest'
+ *           example:
+ *             email: "jane@example.com"
+ *             mergeFields:
+ *               FNAME: "Jane"
+ *               LNAME: "Doe"
+ *             upsert: true
+ *     responses:
+ *       200:
+ *         description: Member added or updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/ListMember'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/AccountNotFound'
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *       502:
+ *         $ref: '#/components/responses/MailChimpUnavailable'
+ *       504:
+ *         $ref: '#/components/responses/MailChimpTimeout'
+ */
+// 1. POST /api/mailchimp/lists/:listId/members
+router.post(
+  "/",
+  validateRequest({ body: addMemberBodySchema }),
+  async (
+    req: Request<ListParams, ApiResponse<ListMember>, AddMemberBody>,
+    res: Response<ApiResponse<ListMember>>,
+    next: NextFunction
+  ) => {
+    try {
+      const { email, status, mergeFields, upsert } = req.body;
+      const connection = req.mailchimpConnection!;
+      const member = upsert
+        ? await mailchimpService.upsertListMember(
+            connection.accessToken,
+            connection.metadata.dc,
+            req.params.listId,
+            email,
+            status ?? "subscribed",
+            mergeFields,
+            status
+          )
+        : await mailchimpService.addListMember(
+            connection.accessToken,
+            connection.metadata.dc,
+            req.params.listId,
+            email,
+            status ?? "subscribed",
+            mergeFields
+          );
+
+      res.json({
+        success: true,
+        data: toListMember(member),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/mailchimp/lists/{listId}/members/{memberId}:
+ *   get:
+ *     tags:
+ *       - Members
+ *     summary: Get a list member
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *       - $ref: '#/components/parameters/ListId'
+ *       - $ref: '#/components/parameters/MemberId'
+ *       - $ref: '#/components/parameters/AccountId'
+ *     responses:
+ *       200:
+ *         description: Member retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/ListMember'
+ *             example:
+ *               success: true
+ *               data:
+ *                 id: "62eeb292278cc15f5817cb78f7790b08"
+ *                 email: "jane@example.com"
+ *                 status: "subscribed"
+ *                 mergeFields:
+ *                   FNAME: "Jane"
+ *                 listId: "1a2b3c4d5e"
+ *                 lastChanged: "2024-01-01T12:00:00+00:00"
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *       502:
+ *         $ref: '#/components/responses/MailChimpUnavailable'
+ *       504:
+ *         $ref: '#/components/responses/MailChimpTimeout'
+ */
+// 2. GET /api/mailchimp/lists/:listId/members/:memberId
+router.get(
+  "/:memberId",
+  async (
+    req: Request<MemberParams>,
+    res: Response<ApiResponse<ListMember>>,
+    next: NextFunction
+  ) => {
+    try {
+      const connection = req.mailchimpConnection!;
+      const member = await mailchimpService.getListMember(
+        connection.accessToken,
+        connection.metadata.dc,
+        req.params.listId,
+        toSubscriberHash(req.params.memberId)
+      );
+
+      res.json({
+        success: true,
+        data: toListMember(member),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/mailchimp/lists/{listId}/members/{memberId}:
+ *   patch:
+ *     tags:
+ *       - Members
+ *     summary: Update a list member's status or merge fields
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *       - $ref: '#/components/parameters/ListId'
+ *       - $ref: '#/components/parameters/MemberId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateMemberRequest'
+ *           example:
+ *             status: "subscribed"
+ *             mergeFields:
+ *               FNAME: "Janet"
+ *     responses:
+ *       200:
+ *         description: Member updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/ListMember'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *       502:
+ *         $ref: '#/components/responses/MailChimpUnavailable'
+ *       504:
+ *         $ref: '#/components/responses/MailChimpTimeout'
+ */
+// 3. PATCH /api/mailchimp/lists/:listId/members/:memberId
+router.patch(
+  "/:memberId",
+  validateRequest({ body: updateMemberBodySchema }),
+  async (
+    req: Request<MemberParams, ApiResponse<ListMember>, UpdateMemberBody>,
+    res: Response<ApiResponse<ListMember>>,
+    next: NextFunction
+  ) => {
+    try {
+      const { status, mergeFields } = req.body;
+      const connection = req.mailchimpConnection!;
+      const member = await mailchimpService.updateListMember(
+        connection.accessToken,
+        connection.metadata.dc,
+        req.params.listId,
+        toSubscriberHash(req.params.memberId),
+        { status, mergeFields }
+      );
+
+      res.json({
+        success: true,
+        data: toListMember(member),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/mailchimp/lists/{listId}/members/{memberId}/unsubscribe:
+ *   post:
+ *     tags:
+ *       - Members
+ *     summary: Unsubscribe a list member
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *       - $ref: '#/components/parameters/ListId'
+ *       - $ref: '#/components/parameters/MemberId'
+ *       - $ref: '#/components/parameters/AccountId'
+ *     responses:
+ *       200:
+ *         description: Member unsubscribed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/ListMember'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *       502:
+ *         $ref: '#/components/responses/MailChimpUnavailable'
+ *       504:
+ *         $ref: '#/components/responses/MailChimpTimeout'
+ */
+// 4. POST /api/mailchimp/lists/:listId/members/:memberId/unsubscribe
+router.post(
+  "/:memberId/unsubscribe",
+  async (
+    req: Request<MemberParams>,
+    res: Response<ApiResponse<ListMember>>,
+    next: NextFunction
+  ) => {
+    try {
+      const connection = req.mailchimpConnection!;
+      const member = await mailchimpService.unsubscribeListMember(
+        connection.accessToken,
+        connection.metadata.dc,
+        req.params.listId,
+        toSubscriberHash(req.params.memberId)
+      );
+
+      res.json({
+        success: true,
+        data: toListMember(member),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/mailchimp/lists/{listId}/members/{memberId}:
+ *   delete:
+ *     tags:
+ *       - Members
+ *     summary: Archive a list member
+ *     description: |
+ *       Archive the member. MailChimp keeps the contact's history and the
+ *       member can be re-added later.
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *       - $ref: '#/components/parameters/ListId'
+ *       - $ref: '#/components/parameters/MemberId'
+ *       - $ref: '#/components/parameters/AccountId'
+ *     responses:
+ *       200:
+ *         description: Member archived
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/MessageResponse'
+ *             example:
+ *               success: true
+ *               data:
+ *                 message: "Member archived"
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *       502:
+ *         $ref: '#/components/responses/MailChimpUnavailable'
+ *       504:
+ *         $ref: '#/components/responses/MailChimpTimeout'
+ */
+// 5. DELETE /api/mailchimp/lists/:listId/members/:memberId
+router.delete(
+  "/:memberId",
+  async (
+    req: Request<MemberParams>,
+    res: Response<ApiResponse<{ message: string }>>,
+    next: NextFunction
+  ) => {
+    try {
+      const connection = req.mailchimpConnection!;
+      await mailchimpService.archiveListMember(
+        connection.accessToken,
+        connection.metadata.dc,
+        req.params.listId,
+        toSubscriberHash(req.params.memberId)
+      );
+
+      res.json({
+        success: true,
+        data: {
+          message: "Member archived",
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
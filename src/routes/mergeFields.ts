@@ -0,0 +1,477 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { MailChimpService } from "../services/mailchimpService";
+import {
+  requireSession,
+  requireConnection,
+  requireCsrfHeader,
+} from "../middleware/session";
+import { validateRequest } from "../middleware/validate";
+import {
+  AudiencePageQuery,
+  audiencePageQuerySchema,
+} from "../schemas/audience";
+import {
+  CreateMergeFieldBody,
+  MergeFieldParams,
+  UpdateMergeFieldBody,
+  createMergeFieldBodySchema,
+  mergeFieldParamsSchema,
+  updateMergeFieldBodySchema,
+} from "../schemas/mergeFields";
+import { AUDIENCE_DEFAULT_PAGE_SIZE } from "../config/mailchimp";
+import { encodeCursor, pageOffset } from "../utils/cursor";
+import {
+  ApiResponse,
+  MergeField,
+  MergeFieldsResponse,
+  MailChimpMergeFieldApiResponse,
+} from "../types/mailchimp";
+import { NotFoundError } from "../utils/errors";
+
+// Mounted at /api/mailchimp/lists/:listId/merge-fields
+const router = Router({ mergeParams: true });
+const mailchimpService = new MailChimpService();
+
+type ListParams = { listId: string };
+
+router.use(requireCsrfHeader);
+router.use(requireSession, requireConnection);
+
+// Helper function to map MailChimp's merge field shape to ours
+const toMergeField = (field: MailChimpMergeFieldApiResponse): MergeField => ({
+  mergeId: field.merge_id,
+  tag: field.tag,
+  name: field.name,
+  type: field.type,
+  required: field.required,
+  defaultValue: field.default_value,
+  public: field.public,
+  displayOrder: field.display_order,
+  helpText: field.help_text,
+  options: {
+    defaultCountry: field.options.default_country,
+    phoneFormat: field.options.phone_format,
+    dateFormat: field.options.date_format,
+    choices: field.options.choices,
+    size: field.options.size,
+  },
+  listId: field.list_id,
+});
+
+/**
+ * @swagger
+ * /api/mailchimp/lists/{listId}/merge-fields:
+ *   get:
+ *     tags:
+ *       - Lists
+ *     summary: List an audience's merge fields
+ *     description: The built-in EMAIL field is not included.
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *       - $ref: '#/components/parameters/ListId'
+ *       - $ref: '#/components/parameters/AccountId'
+ *       - $ref: '#/components/parameters/PageCount'
+ *       - $ref: '#/components/parameters/PageOffset'
+ *       - $ref: '#/components/parameters/PageCursor'
+ *     responses:
+ *       200:
+ *         description: Merge fields retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/MergeFieldsResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *       502:
+ *         $ref: '#/components/responses/MailChimpUnavailable'
+ *       504:
+ *         $ref: '#/components/responses/MailChimpTimeout'
+ */
+// 1. GET /api/mailchimp/lists/:listId/merge-fields
+router.get(
+  "/",
+  validateRequest({ query: audiencePageQuerySchema }),
+  async (
+    req: Request<
+      ListParams,
+      ApiResponse<MergeFieldsResponse>,
+      {},
+      AudiencePageQuery
+    >,
+    res: Response<ApiResponse<MergeFieldsResponse>>,
+    next: NextFunction
+  ) => {
+    try {
+      const count = req.query.count ?? AUDIENCE_DEFAULT_PAGE_SIZE;
+      const offset = pageOffset(req.query);
+
+      const connection = req.mailchimpConnection!;
+      const fieldsResponse = await mailchimpService.getMergeFields(
+        connection.accessToken,
+        connection.metadata.dc,
+        req.params.listId,
+        count,
+        offset
+      );
+
+      const nextOffset = offset + fieldsResponse.merge_fields.length;
+
+      res.json({
+        success: true,
+        data: {
+          mergeFields: fieldsResponse.merge_fields.map(toMergeField),
+          total: fieldsResponse.total_items,
+          offset,
+          nextCursor:
+            fieldsResponse.merge_fields.length > 0 &&
+            nextOffset < fieldsResponse.total_items
+              ? encodeCursor(nextOffset)
+              : null,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/mailchimp/lists/{listId}/merge-fields:
+ *   post:
+ *     tags:
+ *       - Lists
+ *     summary: Create a merge field
+ *     description: |
+ *       Add a custom field to the audience. `radio` and `dropdown` fields need
+ *       `options.choices`. When `tag` is omitted MailChimp generates one from
+ *       the name.
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *       - $ref: '#/components/parameters/ListId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateMergeFieldRequest'
+ *           example:
+ *             name: "Company"
+ *             type: "text"
+ *             tag: "COMPANY"
+ *             required: false
+ *     responses:
+ *       201:
+ *         description: Merge field created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/MergeField'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *       502:
+ *         $ref: '#/components/responses/MailChimpUnavailable'
+ *       504:
+ *         $ref: '#/components/responses/MailChimpTimeout'
+ */
+// 2. POST /api/mailchimp/lists/:listId/merge-fields
+router.post(
+  "/",
+  validateRequest({ body: createMergeFieldBodySchema }),
+  async (
+    req: Request<ListParams, ApiResponse<MergeField>, CreateMergeFieldBody>,
+    res: Response<ApiResponse<MergeField>>,
+    next: NextFunction
+  ) => {
+    try {
+      const { accountId, ...field } = req.body;
+      const connection = req.mailchimpConnection!;
+      const created = await mailchimpService.createMergeField(
+        connection.accessToken,
+        connection.metadata.dc,
+        req.params.listId,
+        { ...field, name: field.name.trim() }
+      );
+
+      res.status(201).json({
+        success: true,
+        data: toMergeField(created),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/mailchimp/lists/{listId}/merge-fields/{mergeId}:
+ *   get:
+ *     tags:
+ *       - Lists
+ *     summary: Get a merge field
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *       - $ref: '#/components/parameters/ListId'
+ *       - $ref: '#/components/parameters/MergeId'
+ *       - $ref: '#/components/parameters/AccountId'
+ *     responses:
+ *       200:
+ *         description: Merge field retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/MergeField'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/MergeFieldNotFound'
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *       502:
+ *         $ref: '#/components/responses/MailChimpUnavailable'
+ *       504:
+ *         $ref: '#/components/responses/MailChimpTimeout'
+ */
+// 3. GET /api/mailchimp/lists/:listId/merge-fields/:mergeId
+router.get(
+  "/:mergeId",
+  validateRequest({ params: mergeFieldParamsSchema }),
+  async (
+    req: Request<MergeFieldParams>,
+    res: Response<ApiResponse<MergeField>>,
+    next: NextFunction
+  ) => {
+    try {
+      const mergeId = Number(req.params.mergeId);
+
+      const connection = req.mailchimpConnection!;
+      const field = await mailchimpService.getMergeField(
+        connection.accessToken,
+        connection.metadata.dc,
+        req.params.listId,
+        mergeId
+      );
+
+      if (!field) {
+        return next(new NotFoundError("Merge field not found"));
+      }
+
+      res.json({
+        success: true,
+        data: toMergeField(field),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/mailchimp/lists/{listId}/merge-fields/{mergeId}:
+ *   patch:
+ *     tags:
+ *       - Lists
+ *     summary: Update a merge field
+ *     description: |
+ *       Only the supplied settings are changed. A field's `type` can't be
+ *       changed; delete and recreate it instead.
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *       - $ref: '#/components/parameters/ListId'
+ *       - $ref: '#/components/parameters/MergeId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateMergeFieldRequest'
+ *           example:
+ *             required: true
+ *             defaultValue: "Acme"
+ *     responses:
+ *       200:
+ *         description: Merge field updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/MergeField'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/MergeFieldNotFound'
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *       502:
+ *         $ref: '#/components/responses/MailChimpUnavailable'
+ *       504:
+ *         $ref: '#/components/responses/MailChimpTimeout'
+ */
+// 4. PATCH /api/mailchimp/lists/:listId/merge-fields/:mergeId
+router.patch(
+  "/:mergeId",
+  validateRequest({
+    params: mergeFieldParamsSchema,
+    body: updateMergeFieldBodySchema,
+  }),
+  async (
+    req: Request<
+      MergeFieldParams,
+      ApiResponse<MergeField>,
+      UpdateMergeFieldBody
+    >,
+    res: Response<ApiResponse<MergeField>>,
+    next: NextFunction
+  ) => {
+    try {
+      const mergeId = Number(req.params.mergeId);
+
+      const { accountId, ...changes } = req.body;
+
+      const connection = req.mailchimpConnection!;
+      const current = await mailchimpService.getMergeField(
+        connection.accessToken,
+        connection.metadata.dc,
+        req.params.listId,
+        mergeId
+      );
+
+      if (!current) {
+        return next(new NotFoundError("Merge field not found"));
+      }
+
+      const updated = await mailchimpService.updateMergeField(
+        connection.accessToken,
+        connection.metadata.dc,
+        req.params.listId,
+        mergeId,
+        { ...changes, name: changes.name?.trim() || current.name }
+      );
+
+      res.json({
+        success: true,
+        data: toMergeField(updated),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/mailchimp/lists/{listId}/merge-fields/{mergeId}:
+ *   delete:
+ *     tags:
+ *       - Lists
+ *     summary: Delete a merge field
+ *     description: The field's values are removed from every member.
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *       - $ref: '#/components/parameters/ListId'
+ *       - $ref: '#/components/parameters/MergeId'
+ *       - $ref: '#/components/parameters/AccountId'
+ *     responses:
+ *       200:
+ *         description: Merge field deleted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *             example:
+ *               success: true
+ *               data:
+ *                 message: "Merge field deleted"
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/MergeFieldNotFound'
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *       502:
+ *         $ref: '#/components/responses/MailChimpUnavailable'
+ *       504:
+ *         $ref: '#/components/responses/MailChimpTimeout'
+ */
+// 5. DELETE /api/mailchimp/lists/:listId/merge-fields/:mergeId
+router.delete(
+  "/:mergeId",
+  validateRequest({ params: mergeFieldParamsSchema }),
+  async (
+    req: Request<MergeFieldParams>,
+    res: Response<ApiResponse<{ message: string }>>,
+    next: NextFunction
+  ) => {
+    try {
+      const mergeId = Number(req.params.mergeId);
+
+      const connection = req.mailchimpConnection!;
+      const deleted = await mailchimpService.deleteMergeField(
+        connection.accessToken,
+        connection.metadata.dc,
+        req.params.listId,
+        mergeId
+      );
+
+      if (!deleted) {
+        return next(new NotFoundError("Merge field not found"));
+      }
+
+      res.json({
+        success: true,
+        data: {
+          message: "Merge field deleted",
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
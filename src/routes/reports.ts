@@ -0,0 +1,322 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { MailChimpService } from "../services/mailchimpService";
+import {
+  requireSession,
+  requireConnection,
+  requireCsrfHeader,
+} from "../middleware/session";
+import { validateRequest } from "../middleware/validate";
+import { ReportsPageQuery, reportsPageQuerySchema } from "../schemas/reports";
+import { REPORTS_DEFAULT_PAGE_SIZE } from "../config/mailchimp";
+import { encodeCursor, pageOffset } from "../utils/cursor";
+import {
+  ApiResponse,
+  CampaignReport,
+  ReportsResponse,
+  CampaignLinksResponse,
+  MailChimpReportApiResponse,
+} from "../types/mailchimp";
+import { NotFoundError } from "../utils/errors";
+
+// Mounted at /api/mailchimp/reports
+const router = Router();
+const mailchimpService = new MailChimpService();
+
+type CampaignParams = { campaignId: string };
+
+router.use(requireCsrfHeader);
+router.use(requireSession, requireConnection);
+
+// Helper function to map MailChimp's report shape to ours
+const toCampaignReport = (
+  report: MailChimpReportApiResponse
+): CampaignReport => ({
+  campaignId: report.id,
+  title: report.campaign_title,
+  subject: report.subject_line,
+  listId: report.list_id,
+  listName: report.list_name,
+  sendTime: report.send_time,
+  emailsSent: report.emails_sent,
+  opens: {
+    total: report.opens.opens_total,
+    unique: report.opens.unique_opens,
+    rate: report.opens.open_rate,
+    lastOpen: report.opens.last_open || null,
+  },
+  clicks: {
+    total: report.clicks.clicks_total,
+    unique: report.clicks.unique_clicks,
+    uniqueSubscribers: report.clicks.unique_subscriber_clicks,
+    rate: report.clicks.click_rate,
+    lastClick: report.clicks.last_click || null,
+  },
+  bounces: {
+    hard: report.bounces.hard_bounces,
+    soft: report.bounces.soft_bounces,
+    syntaxErrors: report.bounces.syntax_errors,
+  },
+  unsubscribes: report.unsubscribed,
+  abuseReports: report.abuse_reports,
+  forwards: {
+    count: report.forwards.forwards_count,
+    opens: report.forwards.forwards_opens,
+  },
+});
+
+/**
+ * @swagger
+ * /api/mailchimp/reports:
+ *   get:
+ *     tags:
+ *       - Reports
+ *     summary: List recent campaign reports
+ *     description: |
+ *       Summary statistics for sent campaigns, one page at a time. Follow
+ *       `nextCursor` (pass it back as `cursor`) until it is `null`.
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *       - $ref: '#/components/parameters/AccountId'
+ *       - $ref: '#/components/parameters/PageCount'
+ *       - $ref: '#/components/parameters/PageOffset'
+ *       - $ref: '#/components/parameters/PageCursor'
+ *     responses:
+ *       200:
+ *         description: Reports retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/ReportsResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/AccountNotFound'
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *       502:
+ *         $ref: '#/components/responses/MailChimpUnavailable'
+ *       504:
+ *         $ref: '#/components/responses/MailChimpTimeout'
+ */
+// 1. GET /api/mailchimp/reports
+router.get(
+  "/",
+  validateRequest({ query: reportsPageQuerySchema }),
+  async (
+    req: Request<{}, ApiResponse<ReportsResponse>, {}, ReportsPageQuery>,
+    res: Response<ApiResponse<ReportsResponse>>,
+    next: NextFunction
+  ) => {
+    try {
+      const count = req.query.count ?? REPORTS_DEFAULT_PAGE_SIZE;
+      const offset = pageOffset(req.query);
+
+      const connection = req.mailchimpConnection!;
+      const reportsResponse = await mailchimpService.getCampaignReports(
+        connection.accessToken,
+        connection.metadata.dc,
+        count,
+        offset
+      );
+
+      const nextOffset = offset + reportsResponse.reports.length;
+
+      res.json({
+        success: true,
+        data: {
+          reports: reportsResponse.reports.map(toCampaignReport),
+          total: reportsResponse.total_items,
+          offset,
+          nextCursor:
+            reportsResponse.reports.length > 0 &&
+            nextOffset < reportsResponse.total_items
+              ? encodeCursor(nextOffset)
+              : null,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/mailchimp/reports/{campaignId}:
+ *   get:
+ *     tags:
+ *       - Reports
+ *     summary: Get a campaign's report
+ *     description: |
+ *       Opens, clicks, bounces, unsubscribes, abuse reports and forwards for a
+ *       sent campaign. Rates are fractions between 0 and 1.
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *       - $ref: '#/components/parameters/CampaignId'
+ *       - $ref: '#/components/parameters/AccountId'
+ *     responses:
+ *       200:
+ *         description: Report retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/CampaignReport'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/ReportNotFound'
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *       502:
+ *         $ref: '#/components/responses/MailChimpUnavailable'
+ *       504:
+ *         $ref: '#/components/responses/MailChimpTimeout'
+ */
+// 2. GET /api/mailchimp/reports/:campaignId
+router.get(
+  "/:campaignId",
+  async (
+    req: Request<CampaignParams>,
+    res: Response<ApiResponse<CampaignReport>>,
+    next: NextFunction
+  ) => {
+    try {
+      const connection = req.mailchimpConnection!;
+      const report = await mailchimpService.getCampaignReport(
+        connection.accessToken,
+        connection.metadata.dc,
+        req.params.campaignId
+      );
+
+      if (!report) {
+        return next(new NotFoundError("No report found for this campaign"));
+      }
+
+      res.json({
+        success: true,
+        data: toCampaignReport(report),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /api/mailchimp/reports/{campaignId}/links:
+ *   get:
+ *     tags:
+ *       - Reports
+ *     summary: Get click-through per link for a campaign
+ *     parameters:
+ *       - $ref: '#/components/parameters/SessionId'
+ *       - $ref: '#/components/parameters/CampaignId'
+ *       - $ref: '#/components/parameters/AccountId'
+ *       - $ref: '#/components/parameters/PageCount'
+ *       - $ref: '#/components/parameters/PageOffset'
+ *       - $ref: '#/components/parameters/PageCursor'
+ *     responses:
+ *       200:
+ *         description: Link statistics retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiResponse'
+ *                 - type: object
+ *                   properties:
+ *                     data:
+ *                       $ref: '#/components/schemas/CampaignLinksResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         $ref: '#/components/responses/ReportNotFound'
+ *       429:
+ *         $ref: '#/components/responses/RateLimited'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ *       502:
+ *         $ref: '#/components/responses/MailChimpUnavailable'
+ *       504:
+ *         $ref: '#/components/responses/MailChimpTimeout'
+ */
+// 3. GET /api/mailchimp/reports/:campaignId/links
+router.get(
+  "/:campaignId/links",
+  validateRequest({ query: reportsPageQuerySchema }),
+  async (
+    req: Request<
+      CampaignParams,
+      ApiResponse<CampaignLinksResponse>,
+      {},
+      ReportsPageQuery
+    >,
+    res: Response<ApiResponse<CampaignLinksResponse>>,
+    next: NextFunction
+  ) => {
+    try {
+      const count = req.query.count ?? REPORTS_DEFAULT_PAGE_SIZE;
+      const offset = pageOffset(req.query);
+
+      const connection = req.mailchimpConnection!;
+      const details = await mailchimpService.getCampaignClickDetails(
+        connection.accessToken,
+        connection.metadata.dc,
+        req.params.campaignId,
+        count,
+        offset
+      );
+
+      if (!details) {
+        return next(new NotFoundError("No report found for this campaign"));
+      }
+
+      const nextOffset = offset + details.urls_clicked.length;
+
+      res.json({
+        success: true,
+        data: {
+          campaignId: req.params.campaignId,
+          links: details.urls_clicked.map((link) => ({
+            id: link.id,
+            url: link.url,
+            totalClicks: link.total_clicks,
+            uniqueClicks: link.unique_clicks,
+            clickPercentage: link.click_percentage,
+            uniqueClickPercentage: link.unique_click_percentage,
+            lastClick: link.last_click || null,
+          })),
+          total: details.total_items,
+          offset,
+          nextCursor:
+            details.urls_clicked.length > 0 && nextOffset < details.total_items
+              ? encodeCursor(nextOffset)
+              : null,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
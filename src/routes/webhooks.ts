@@ -0,0 +1,166 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { WebhookService } from "../services/webhookService";
+import { parseWebhookPayload } from "../utils/webhookPayload";
+import { ApiResponse, WebhookEventType } from "../types/mailchimp";
+import { NotFoundError, ValidationError } from "../utils/errors";
+
+// Mounted at /webhooks/mailchimp. Public: MailChimp calls these directly, so
+// there is no session or CSRF check; each URL carries its registration's secret.
+const router = Router();
+const webhookService = new WebhookService();
+
+type RegistrationParams = { registrationId: string };
+
+/**
+ * @swagger
+ * /webhooks/mailchimp/{registrationId}:
+ *   get:
+ *     tags:
+ *       - Webhooks
+ *     summary: MailChimp webhook validation ping
+ *     description: MailChimp requests the URL once when the webhook is registered and expects a 200.
+ *     parameters:
+ *       - $ref: '#/components/parameters/WebhookRegistrationId'
+ *       - $ref: '#/components/parameters/WebhookSecret'
+ *     responses:
+ *       200:
+ *         description: Registration recognised
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *             example:
+ *               success: true
+ *               data:
+ *                 message: "Webhook ready"
+ *       404:
+ *         $ref: '#/components/responses/WebhookNotFound'
+ */
+// 1. GET /webhooks/mailchimp/:registrationId
+router.get(
+  "/:registrationId",
+  async (
+    req: Request<RegistrationParams>,
+    res: Response<ApiResponse<{ message: string }>>,
+    next: NextFunction
+  ) => {
+    try {
+      const registration = await webhookService.authenticate(
+        req.params.registrationId,
+        req.query.secret
+      );
+
+      if (!registration) {
+        return next(new NotFoundError("Webhook not found"));
+      }
+
+      res.json({
+        success: true,
+        data: {
+          message: "Webhook ready",
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /webhooks/mailchimp/{registrationId}:
+ *   post:
+ *     tags:
+ *       - Webhooks
+ *     summary: Receive a MailChimp audience event
+ *     description: |
+ *       MailChimp posts `subscribe`, `unsubscribe`, `profile`, `upemail`,
+ *       `cleaned` and `campaign` events as form-encoded bodies. Each event is
+ *       parsed and passed to the registered webhook handlers. If a handler
+ *       fails a 500 is returned so MailChimp retries the delivery.
+ *     parameters:
+ *       - $ref: '#/components/parameters/WebhookRegistrationId'
+ *       - $ref: '#/components/parameters/WebhookSecret'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/x-www-form-urlencoded:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [subscribe, unsubscribe, profile, upemail, cleaned, campaign]
+ *               fired_at:
+ *                 type: string
+ *                 example: "2024-05-01 09:30:00"
+ *               data[list_id]:
+ *                 type: string
+ *               data[email]:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Event accepted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *             example:
+ *               success: true
+ *               data:
+ *                 type: "unsubscribe"
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         $ref: '#/components/responses/WebhookNotFound'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+// 2. POST /webhooks/mailchimp/:registrationId
+router.post(
+  "/:registrationId",
+  async (
+    req: Request<RegistrationParams>,
+    res: Response<ApiResponse<{ type: WebhookEventType }>>,
+    next: NextFunction
+  ) => {
+    try {
+      const registration = await webhookService.authenticate(
+        req.params.registrationId,
+        req.query.secret
+      );
+
+      if (!registration) {
+        return next(new NotFoundError("Webhook not found"));
+      }
+
+      const event = parseWebhookPayload(req.body, {
+        registrationId: registration.id,
+        accountId: registration.accountId,
+      });
+
+      if (!event) {
+        return next(new ValidationError("Unrecognised webhook payload"));
+      }
+
+      if (event.listId !== registration.listId) {
+        return next(
+          new ValidationError("Webhook payload is for a different list")
+        );
+      }
+
+      await webhookService.dispatch(event);
+
+      res.json({
+        success: true,
+        data: {
+          type: event.type,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
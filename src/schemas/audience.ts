@@ -0,0 +1,27 @@
+import { Infer, SameType, object, optional } from "../utils/schema";
+import { id, pageFields, targetingSchema } from "./common";
+import { AUDIENCE_MAX_PAGE_SIZE } from "../config/mailchimp";
+import { RecipientPreviewRequest } from "../types/mailchimp";
+
+// Paged audience routes: segments, tags and merge fields
+export const audiencePageQuerySchema = object({
+  accountId: optional(id()),
+  ...pageFields(AUDIENCE_MAX_PAGE_SIZE),
+});
+
+// 3. POST /api/mailchimp/lists/:listId/recipients/preview
+export const recipientPreviewBodySchema = object({
+  accountId: optional(id()),
+  targeting: optional(targetingSchema),
+});
+
+// Request types, derived from the schemas above
+export type AudiencePageQuery = Infer<typeof audiencePageQuerySchema>;
+export type RecipientPreviewBody = Infer<typeof recipientPreviewBodySchema>;
+
+// Compile-time check that the schemas describe exactly the request
+// interfaces in types/mailchimp.ts
+type Assert<T extends true> = T;
+type SchemasMatchTypes = [
+  Assert<SameType<RecipientPreviewBody, RecipientPreviewRequest>>
+];
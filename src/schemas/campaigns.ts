@@ -0,0 +1,152 @@
+import {
+  Infer,
+  SameType,
+  boolean,
+  childPath,
+  integer,
+  nullable,
+  object,
+  optional,
+  string,
+} from "../utils/schema";
+import {
+  CAMPAIGN_SCHEDULE_SLOT_MINUTES,
+  TIMEWARP_MIN_LEAD_MS,
+} from "../config/mailchimp";
+import {
+  isOnScheduleSlot,
+  isValidTimeZone,
+  resolveScheduleTime,
+} from "../utils/schedule";
+import { campaignFields, flag, id, targetingSchema } from "./common";
+import {
+  CampaignRequest,
+  FieldError,
+  ScheduleCampaignRequest,
+  UpdateCampaignRequest,
+} from "../types/mailchimp";
+
+// Draft fields that a PATCH can change
+const DRAFT_UPDATE_FIELDS = [
+  "subject",
+  "content",
+  "fromName",
+  "replyTo",
+  "targeting",
+] as const;
+
+// 1. POST /api/mailchimp/campaigns
+export const createCampaignBodySchema = object(campaignFields);
+
+// 3. PATCH /api/mailchimp/campaigns/:campaignId
+export const updateCampaignBodySchema = object(
+  {
+    accountId: optional(id()),
+    subject: optional(campaignFields.subject),
+    content: optional(campaignFields.content),
+    fromName: optional(campaignFields.fromName),
+    replyTo: optional(campaignFields.replyTo),
+    // null sends to the whole list again
+    targeting: optional(nullable(targetingSchema)),
+  },
+  {
+    refine: (body, path) =>
+      DRAFT_UPDATE_FIELDS.every((field) => body[field] === undefined)
+        ? [
+            {
+              field: path,
+              message:
+                "Nothing to update: provide subject, content, fromName, replyTo and/or targeting",
+            },
+          ]
+        : [],
+  }
+);
+
+// 5. POST /api/mailchimp/campaigns/:campaignId/send
+export const sendDraftQuerySchema = object({
+  accountId: optional(id()),
+  dryRun: flag(),
+});
+
+// 6. POST /api/mailchimp/campaigns/:campaignId/schedule
+export const scheduleCampaignBodySchema = object(
+  {
+    accountId: optional(id()),
+    // ISO 8601 with an offset, or a wall-clock time read in timeZone
+    scheduleTime: string({ max: 64 }),
+    timeZone: optional(
+      string({
+        max: 64,
+        check: (value) =>
+          isValidTimeZone(value) ? null : "must be an IANA time zone name",
+      })
+    ),
+    timewarp: optional(boolean()),
+    batchDelivery: optional(
+      object({
+        // Minutes between batches
+        batchDelay: integer({ min: 1 }),
+        batchCount: integer({ min: 2 }),
+      })
+    ),
+  },
+  {
+    // When the campaign goes out, and how that fits its delivery options
+    refine: ({ scheduleTime, timeZone, timewarp, batchDelivery }, path) => {
+      const problem = (field: string, message: string): FieldError[] => [
+        { field: childPath(path, field), message },
+      ];
+
+      const sendAt = resolveScheduleTime(scheduleTime, timeZone);
+      if (!sendAt) {
+        return problem(
+          "scheduleTime",
+          "scheduleTime must be an ISO 8601 date and time (e.g. 2024-05-01T09:30)"
+        );
+      }
+
+      if (!isOnScheduleSlot(sendAt, CAMPAIGN_SCHEDULE_SLOT_MINUTES)) {
+        return problem(
+          "scheduleTime",
+          `scheduleTime must fall on a ${CAMPAIGN_SCHEDULE_SLOT_MINUTES}-minute boundary (:00, :15, :30 or :45)`
+        );
+      }
+
+      if (sendAt.getTime() <= Date.now()) {
+        return problem("scheduleTime", "scheduleTime must be in the future");
+      }
+
+      if (timewarp && batchDelivery) {
+        return problem(
+          "batchDelivery",
+          "timewarp and batchDelivery cannot be combined"
+        );
+      }
+
+      if (timewarp && sendAt.getTime() - Date.now() < TIMEWARP_MIN_LEAD_MS) {
+        return problem(
+          "scheduleTime",
+          "Timewarp campaigns must be scheduled at least 24 hours ahead"
+        );
+      }
+
+      return [];
+    },
+  }
+);
+
+// Request types, derived from the schemas above
+export type CreateCampaignBody = Infer<typeof createCampaignBodySchema>;
+export type UpdateCampaignBody = Infer<typeof updateCampaignBodySchema>;
+export type SendDraftQuery = Infer<typeof sendDraftQuerySchema>;
+export type ScheduleCampaignBody = Infer<typeof scheduleCampaignBodySchema>;
+
+// Compile-time check that the schemas describe exactly the request
+// interfaces in types/mailchimp.ts
+type Assert<T extends true> = T;
+type SchemasMatchTypes = [
+  Assert<SameType<CreateCampaignBody, CampaignRequest>>,
+  Assert<SameType<UpdateCampaignBody, UpdateCampaignRequest>>,
+  Assert<SameType<ScheduleCampaignBody, ScheduleCampaignRequest>>
+];
@@ -0,0 +1,66 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { email, html, pageFields } from "./common";
+import { Schema, object } from "../utils/schema";
+import { encodeCursor } from "../utils/cursor";
+import { FieldError } from "../types/mailchimp";
+
+// Parse a value, returning the result along with every error reported
+const run = <T>(schema: Schema<T>, value: unknown) => {
+  const errors: FieldError[] = [];
+  const result = schema.parse(value, "", errors);
+  return { result, errors: errors.map((error) => error.message) };
+};
+
+test("page queries convert count, offset and cursor", () => {
+  const page = object(pageFields(100));
+  const cursor = encodeCursor(40);
+
+  assert.deepEqual(run(page, {}), { result: {}, errors: [] });
+  assert.deepEqual(run(page, { count: "25", offset: "50", cursor }), {
+    result: { count: 25, offset: 50, cursor },
+    errors: [],
+  });
+});
+
+test("page queries reject out-of-range values and bad cursors", () => {
+  const page = object(pageFields(100));
+
+  assert.deepEqual(run(page, { count: "0" }).errors, [
+    "count must be at least 1",
+  ]);
+  assert.deepEqual(run(page, { count: "101" }).errors, [
+    "count must be at most 100",
+  ]);
+  assert.deepEqual(run(page, { offset: "-5" }).errors, [
+    "offset must be at least 0",
+  ]);
+  assert.deepEqual(run(page, { cursor: "bogus" }).errors, [
+    "cursor is not a valid cursor",
+  ]);
+  assert.deepEqual(run(page, { cursor: ["a", "b"] }).errors, [
+    "cursor must be a string",
+  ]);
+});
+
+test("email accepts addresses only", () => {
+  assert.deepEqual(run(email(), "ann@example.com").errors, []);
+  assert.deepEqual(run(email(), "ann@").errors, [
+    "value must be a valid email address",
+  ]);
+});
+
+test("html needs markup with visible text", () => {
+  assert.deepEqual(run(html(), "<p>Hello</p>").errors, []);
+
+  for (const content of [
+    "Hello",
+    "<p> </p>",
+    "<p>&nbsp;</p>",
+    "<style>p { color: red }</style><p></p>",
+  ]) {
+    assert.deepEqual(run(html(), content).errors, [
+      "value must be HTML with some visible text",
+    ]);
+  }
+});
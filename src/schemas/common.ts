@@ -0,0 +1,119 @@
+import {
+  array,
+  integer,
+  object,
+  oneOf,
+  optional,
+  string,
+  unknownValue,
+  boolean,
+} from "../utils/schema";
+import {
+  CAMPAIGN_FROM_NAME_MAX_LENGTH,
+  CAMPAIGN_SUBJECT_MAX_LENGTH,
+} from "../config/mailchimp";
+import { IDEMPOTENCY_KEY_PATTERN } from "../middleware/idempotency";
+import { decodeCursor } from "../utils/cursor";
+import { isValidEmail } from "../utils/email";
+import { validateTargeting } from "../utils/segment";
+
+// Schemas shared by the route schemas in this folder
+
+// IDs of MailChimp resources (lists, campaigns, accounts)
+export const id = () => string({ max: 100 });
+
+export const email = () =>
+  string({
+    check: (value) =>
+      isValidEmail(value) ? null : "must be a valid email address",
+  });
+
+// Campaign content needs at least one HTML element and some visible text
+export const html = () =>
+  string({
+    check: (value) => {
+      const text = value
+        .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, "")
+        .replace(/<[^>]*>/g, "")
+        .replace(/&nbsp;/gi, " ")
+        .trim();
+
+      return /<[a-z][^>]*>/i.test(value) && text
+        ? null
+        : "must be HTML with some visible text";
+    },
+  });
+
+// Query-string flags: "true" or "false"
+export const flag = () => optional(boolean({ coerce: true }));
+
+// Headers of routes that take an Idempotency-Key
+export const idempotencyHeadersSchema = object({
+  "idempotency-key": optional(
+    string({
+      check: (value) =>
+        IDEMPOTENCY_KEY_PATTERN.test(value)
+          ? null
+          : "must be 1-255 printable characters without spaces",
+    })
+  ),
+});
+
+// Query parameters of paged routes; a cursor takes precedence over offset
+export const pageFields = (maxCount: number) => ({
+  count: optional(integer({ min: 1, max: maxCount, coerce: true })),
+  offset: optional(integer({ min: 0, coerce: true })),
+  cursor: optional(
+    string({
+      check: (value) =>
+        decodeCursor(value) === null ? "is not a valid cursor" : null,
+    })
+  ),
+});
+
+export const targetingSchema = object(
+  {
+    segmentId: optional(integer({ min: 1 })),
+    tags: optional(array(integer({ min: 1 }), { min: 1 })),
+    interests: optional(
+      array(
+        object({
+          categoryId: string(),
+          interestIds: array(string(), { min: 1 }),
+          match: optional(oneOf(["any", "all", "none"] as const)),
+        }),
+        { min: 1 }
+      )
+    ),
+    conditions: optional(
+      array(
+        object({
+          conditionType: string(),
+          field: string(),
+          op: string(),
+          value: unknownValue(),
+        }),
+        { min: 1 }
+      )
+    ),
+    match: optional(oneOf(["any", "all"] as const)),
+  },
+  {
+    // How the options combine, and MailChimp's condition limit
+    refine: (targeting, path) => {
+      const problem = validateTargeting(targeting);
+      return problem ? [{ field: path, message: problem }] : [];
+    },
+  }
+);
+
+// Fields of a new campaign, in every route that creates one
+export const campaignFields = {
+  accountId: optional(id()),
+  listId: id(),
+  subject: string({ max: CAMPAIGN_SUBJECT_MAX_LENGTH }),
+  content: html(),
+  fromName: string({ max: CAMPAIGN_FROM_NAME_MAX_LENGTH }),
+  replyTo: email(),
+  targeting: optional(targetingSchema),
+};
@@ -0,0 +1,12 @@
+import { Infer, object, optional } from "../utils/schema";
+import { flag, id } from "./common";
+
+// 1. POST /api/mailchimp/lists/:listId/imports; the upload itself is the
+// CSV or NDJSON body, checked as it is parsed
+export const startImportQuerySchema = object({
+  accountId: optional(id()),
+  // Existing members are updated unless this is "false"
+  updateExisting: flag(),
+});
+
+export type StartImportQuery = Infer<typeof startImportQuerySchema>;
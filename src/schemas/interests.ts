@@ -0,0 +1,86 @@
+import {
+  Infer,
+  SameType,
+  integer,
+  object,
+  oneOf,
+  optional,
+  string,
+} from "../utils/schema";
+import { id } from "./common";
+import {
+  CreateInterestCategoryRequest,
+  CreateInterestRequest,
+  InterestCategoryType,
+  UpdateInterestCategoryRequest,
+  UpdateInterestRequest,
+} from "../types/mailchimp";
+
+const INTEREST_CATEGORY_TYPES: InterestCategoryType[] = [
+  "checkboxes",
+  "dropdown",
+  "radio",
+  "hidden",
+];
+
+const displayOrder = () => optional(integer({ min: 0 }));
+
+// Update bodies must change at least one of the fields besides accountId
+const nothingToUpdate =
+  (fields: string) =>
+  ({ accountId, ...changes }: { accountId?: string }, path: string) =>
+    Object.values(changes).every((value) => value === undefined)
+      ? [{ field: path, message: `Nothing to update: provide ${fields}` }]
+      : [];
+
+// 2. POST /api/mailchimp/lists/:listId/interest-categories
+export const createCategoryBodySchema = object({
+  accountId: optional(id()),
+  title: string(),
+  type: oneOf(INTEREST_CATEGORY_TYPES),
+  displayOrder: displayOrder(),
+});
+
+// 4. PATCH /api/mailchimp/lists/:listId/interest-categories/:categoryId
+export const updateCategoryBodySchema = object(
+  {
+    accountId: optional(id()),
+    title: optional(string()),
+    type: optional(oneOf(INTEREST_CATEGORY_TYPES)),
+    displayOrder: displayOrder(),
+  },
+  { refine: nothingToUpdate("title, type and/or displayOrder") }
+);
+
+// 6. POST /api/mailchimp/lists/:listId/interest-categories/:categoryId/interests
+export const createInterestBodySchema = object({
+  accountId: optional(id()),
+  name: string(),
+  displayOrder: displayOrder(),
+});
+
+// 7. PATCH /api/mailchimp/lists/:listId/interest-categories/:categoryId/interests/:interestId
+export const updateInterestBodySchema = object(
+  {
+    accountId: optional(id()),
+    name: optional(string()),
+    displayOrder: displayOrder(),
+  },
+  { refine: nothingToUpdate("name and/or displayOrder") }
+);
+
+// Request types, derived from the schemas above
+export type CreateCategoryBody = Infer<typeof createCategoryBodySchema>;
+export type UpdateCategoryBody = Infer<typeof updateCategoryBodySchema>;
+export type CreateInterestBody = Infer<typeof createInterestBodySchema>;
+export type UpdateInterestBody = Infer<typeof updateInterestBodySchema>;
+
+// Compile-time check that the schemas describe exactly the request
+// interfaces in types/mailchimp.ts
+type Assert<T extends true> = T;
+type SchemasMatchTypes = [
+  Assert<SameType<CreateCategoryBody, CreateInterestCategoryRequest>>,
+  Assert<SameType<UpdateCategoryBody, UpdateInterestCategoryRequest>>,
+  Assert<SameType<CreateInterestBody, CreateInterestRequest>>,
+  Assert<SameType<UpdateInterestBody, UpdateInterestRequest>>
+];
@@ -0,0 +1,29 @@
+import {
+  Infer,
+  SameType,
+  array,
+  object,
+  oneOf,
+  optional,
+} from "../utils/schema";
+import { id } from "./common";
+import { WEBHOOK_EVENT_TYPES, WEBHOOK_SOURCES } from "../config/mailchimp";
+import { RegisterWebhookRequest } from "../types/mailchimp";
+
+// 1. POST /api/mailchimp/lists/:listId/webhooks; left-out events and
+// sources default to all of them
+export const registerWebhookBodySchema = object({
+  accountId: optional(id()),
+  events: optional(array(oneOf(WEBHOOK_EVENT_TYPES), { min: 1 })),
+  sources: optional(array(oneOf(WEBHOOK_SOURCES), { min: 1 })),
+});
+
+// Request types, derived from the schemas above
+export type RegisterWebhookBody = Infer<typeof registerWebhookBodySchema>;
+
+// Compile-time check that the schemas describe exactly the request
+// interfaces in types/mailchimp.ts
+type Assert<T extends true> = T;
+type SchemasMatchTypes = [
+  Assert<SameType<RegisterWebhookBody, RegisterWebhookRequest>>
+];
@@ -0,0 +1,158 @@
+import {
+  Infer,
+  SameType,
+  array,
+  boolean,
+  childPath,
+  object,
+  oneOf,
+  optional,
+  string,
+} from "../utils/schema";
+import {
+  CAMPAIGN_TEST_MAX_RECIPIENTS,
+  LISTS_MAX_PAGE_SIZE,
+} from "../config/mailchimp";
+import {
+  campaignFields,
+  flag,
+  id,
+  pageFields,
+  targetingSchema,
+} from "./common";
+import {
+  ActivateAccountRequest,
+  CampaignTargeting,
+  ListsSortField,
+  OAuthTokenRequest,
+  SendCampaignRequest,
+  TestCampaignRequest,
+  TestSendType,
+} from "../types/mailchimp";
+
+const LISTS_SORT_FIELDS: ListsSortField[] = [
+  "date_created",
+  "name",
+  "member_count",
+];
+
+const TEST_SEND_TYPES: TestSendType[] = ["html", "plaintext"];
+
+// Fields a test send needs when it creates its own draft
+const NEW_DRAFT_FIELDS = [
+  "listId",
+  "subject",
+  "content",
+  "fromName",
+  "replyTo",
+] as const;
+
+// X-Session-Id, read by the session middleware on every route. Session IDs
+// are URL-safe base64; an empty header means no session.
+export const sessionHeadersSchema = object({
+  "x-session-id": optional(
+    string({
+      max: 128,
+      allowEmpty: true,
+      check: (value) =>
+        /^[A-Za-z0-9_-]*$/.test(value) ? null : "must be a session ID",
+    })
+  ),
+});
+
+// 1. GET /api/mailchimp/connect
+export const connectQuerySchema = object({
+  redirect: flag(),
+});
+
+// 2. POST /api/mailchimp/oauth/token
+export const oauthTokenBodySchema = object({
+  code: string({ max: 512 }),
+  state: string({ max: 512 }),
+});
+
+// 3. GET /api/mailchimp/status
+export const statusQuerySchema = object({
+  verify: flag(),
+});
+
+// 4. GET /api/mailchimp/lists
+export const listsQuerySchema = object({
+  accountId: optional(id()),
+  name: optional(string({ max: 100, allowEmpty: true })),
+  sort: optional(oneOf(LISTS_SORT_FIELDS, { coerce: true })),
+  sortDir: optional(oneOf(["asc", "desc"] as const, { coerce: true })),
+  all: flag(),
+  ...pageFields(LISTS_MAX_PAGE_SIZE),
+});
+
+// 5. POST /api/mailchimp/campaign/send
+export const sendCampaignBodySchema = object({
+  ...campaignFields,
+  keepDraftOnFailure: optional(boolean()),
+});
+
+export const sendCampaignQuerySchema = object({
+  accountId: optional(id()),
+  dryRun: flag(),
+  async: flag(),
+});
+
+// 8. PUT /api/mailchimp/accounts/active
+export const activateAccountBodySchema = object({
+  accountId: id(),
+});
+
+// 9. POST /api/mailchimp/campaign/test
+export const testCampaignBodySchema = object(
+  {
+    accountId: optional(id()),
+    // Either an existing draft...
+    campaignId: optional(id()),
+    // ...or content for a new draft
+    listId: optional(campaignFields.listId),
+    subject: optional(campaignFields.subject),
+    content: optional(campaignFields.content),
+    fromName: optional(campaignFields.fromName),
+    replyTo: optional(campaignFields.replyTo),
+    targeting: optional(targetingSchema),
+    // Malformed addresses are reported per recipient rather than rejected
+    testEmails: array(string({ max: 254 }), {
+      min: 1,
+      max: CAMPAIGN_TEST_MAX_RECIPIENTS,
+    }),
+    sendType: optional(oneOf(TEST_SEND_TYPES)),
+  },
+  {
+    refine: (body, path) =>
+      body.campaignId
+        ? []
+        : NEW_DRAFT_FIELDS.filter((field) => body[field] === undefined).map(
+            (field) => ({
+              field: childPath(path, field),
+              message: `${field} is required unless campaignId is given`,
+            })
+          ),
+  }
+);
+
+// Request types, derived from the schemas above
+export type ConnectQuery = Infer<typeof connectQuerySchema>;
+export type OAuthTokenBody = Infer<typeof oauthTokenBodySchema>;
+export type StatusQuery = Infer<typeof statusQuerySchema>;
+export type ListsRequestQuery = Infer<typeof listsQuerySchema>;
+export type SendCampaignBody = Infer<typeof sendCampaignBodySchema>;
+export type SendCampaignQuery = Infer<typeof sendCampaignQuerySchema>;
+export type ActivateAccountBody = Infer<typeof activateAccountBodySchema>;
+export type TestCampaignBody = Infer<typeof testCampaignBodySchema>;
+
+// Compile-time check that the schemas describe exactly the request
+// interfaces in types/mailchimp.ts, which the services use
+type Assert<T extends true> = T;
+type SchemasMatchTypes = [
+  Assert<SameType<Infer<typeof targetingSchema>, CampaignTargeting>>,
+  Assert<SameType<OAuthTokenBody, OAuthTokenRequest>>,
+  Assert<SameType<SendCampaignBody, SendCampaignRequest>>,
+  Assert<SameType<ActivateAccountBody, ActivateAccountRequest>>,
+  Assert<SameType<TestCampaignBody, TestCampaignRequest>>
+];
@@ -0,0 +1,85 @@
+import {
+  Infer,
+  SameType,
+  Schema,
+  boolean,
+  object,
+  oneOf,
+  optional,
+  record,
+} from "../utils/schema";
+import { email, id } from "./common";
+import {
+  AddMemberRequest,
+  MemberStatus,
+  MergeFieldValue,
+  UpdateMemberRequest,
+} from "../types/mailchimp";
+
+const MEMBER_STATUSES: MemberStatus[] = [
+  "subscribed",
+  "unsubscribed",
+  "cleaned",
+  "pending",
+  "transactional",
+];
+
+// Text, numbers, or objects for composite fields such as addresses
+const mergeFieldValue = (): Schema<MergeFieldValue> => ({
+  parse(value, path, errors) {
+    if (typeof value === "string") return value;
+    if (typeof value === "number" && Number.isFinite(value)) return value;
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+      return value as Record<string, unknown>;
+    }
+
+    errors.push({
+      field: path,
+      message: `${path} must be text, a number or an object`,
+    });
+    return undefined;
+  },
+});
+
+const mergeFields = () => record(mergeFieldValue());
+
+// 1. POST /api/mailchimp/lists/:listId/members
+export const addMemberBodySchema = object({
+  accountId: optional(id()),
+  email: email(),
+  status: optional(oneOf(MEMBER_STATUSES)),
+  mergeFields: optional(mergeFields()),
+  upsert: optional(boolean()),
+});
+
+// 3. PATCH /api/mailchimp/lists/:listId/members/:memberId
+export const updateMemberBodySchema = object(
+  {
+    accountId: optional(id()),
+    status: optional(oneOf(MEMBER_STATUSES)),
+    mergeFields: optional(mergeFields()),
+  },
+  {
+    refine: (body, path) =>
+      body.status === undefined && body.mergeFields === undefined
+        ? [
+            {
+              field: path,
+              message: "Nothing to update: provide status and/or mergeFields",
+            },
+          ]
+        : [],
+  }
+);
+
+// Request types, derived from the schemas above
+export type AddMemberBody = Infer<typeof addMemberBodySchema>;
+export type UpdateMemberBody = Infer<typeof updateMemberBodySchema>;
+
+// Compile-time check that the schemas describe exactly the request
+// interfaces in types/mailchimp.ts
+type Assert<T extends true> = T;
+type SchemasMatchTypes = [
+  Assert<SameType<AddMemberBody, AddMemberRequest>>,
+  Assert<SameType<UpdateMemberBody, UpdateMemberRequest>>
+];
@@ -0,0 +1,127 @@
+import {
+  Infer,
+  SameType,
+  array,
+  boolean,
+  childPath,
+  forbidden,
+  integer,
+  object,
+  oneOf,
+  optional,
+  string,
+} from "../utils/schema";
+import { id } from "./common";
+import {
+  CreateMergeFieldRequest,
+  MergeFieldType,
+  UpdateMergeFieldRequest,
+} from "../types/mailchimp";
+
+const MERGE_FIELD_TYPES: MergeFieldType[] = [
+  "text",
+  "number",
+  "address",
+  "phone",
+  "date",
+  "url",
+  "imageurl",
+  "radio",
+  "dropdown",
+  "birthday",
+  "zip",
+];
+
+// Types that need a list of choices
+const CHOICE_TYPES: MergeFieldType[] = ["radio", "dropdown"];
+
+// MailChimp merge tags are at most 10 characters
+const MERGE_TAG_PATTERN = /^[A-Z0-9_]{1,10}$/;
+
+// Optional settings shared by create and update
+const settingsFields = {
+  accountId: optional(id()),
+  tag: optional(
+    string({
+      check: (value) =>
+        MERGE_TAG_PATTERN.test(value)
+          ? null
+          : "must be 1-10 uppercase letters, digits or underscores",
+    })
+  ),
+  required: optional(boolean()),
+  defaultValue: optional(string({ allowEmpty: true })),
+  public: optional(boolean()),
+  displayOrder: optional(integer({ min: 0 })),
+  helpText: optional(string({ allowEmpty: true })),
+  options: optional(
+    object({
+      defaultCountry: optional(integer()),
+      phoneFormat: optional(string()),
+      dateFormat: optional(string()),
+      choices: optional(array(string(), { min: 1 })),
+      size: optional(integer({ min: 1 })),
+    })
+  ),
+};
+
+// 3-5. /api/mailchimp/lists/:listId/merge-fields/:mergeId. Express types
+// route parameters as strings, so mergeId stays one.
+export const mergeFieldParamsSchema = object({
+  listId: id(),
+  mergeId: string({
+    check: (value) =>
+      /^\d+$/.test(value) ? null : "must be a non-negative integer",
+  }),
+});
+
+// 2. POST /api/mailchimp/lists/:listId/merge-fields
+export const createMergeFieldBodySchema = object(
+  {
+    ...settingsFields,
+    name: string(),
+    type: oneOf(MERGE_FIELD_TYPES),
+  },
+  {
+    refine: (field, path) =>
+      CHOICE_TYPES.includes(field.type) && !field.options?.choices
+        ? [
+            {
+              field: childPath(path, "options.choices"),
+              message: `${field.type} fields need options.choices`,
+            },
+          ]
+        : [],
+  }
+);
+
+// 4. PATCH /api/mailchimp/lists/:listId/merge-fields/:mergeId
+export const updateMergeFieldBodySchema = object(
+  {
+    ...settingsFields,
+    name: optional(string()),
+    type: forbidden("can't be changed; delete and recreate the field"),
+  },
+  {
+    refine: ({ accountId, ...changes }, path) =>
+      Object.values(changes).every((value) => value === undefined)
+        ? [{ field: path, message: "Nothing to update" }]
+        : [],
+  }
+);
+
+// Request types, derived from the schemas above
+export type MergeFieldParams = Infer<typeof mergeFieldParamsSchema>;
+export type CreateMergeFieldBody = Infer<typeof createMergeFieldBodySchema>;
+export type UpdateMergeFieldBody = Omit<
+  Infer<typeof updateMergeFieldBodySchema>,
+  "type"
+>;
+
+// Compile-time check that the schemas describe exactly the request
+// interfaces in types/mailchimp.ts
+type Assert<T extends true> = T;
+type SchemasMatchTypes = [
+  Assert<SameType<CreateMergeFieldBody, CreateMergeFieldRequest>>,
+  Assert<SameType<UpdateMergeFieldBody, UpdateMergeFieldRequest>>
+];
@@ -0,0 +1,12 @@
+import { Infer, object, optional } from "../utils/schema";
+import { id, pageFields } from "./common";
+import { REPORTS_MAX_PAGE_SIZE } from "../config/mailchimp";
+
+// 1. GET /api/mailchimp/reports and
+// 3. GET /api/mailchimp/reports/:campaignId/links
+export const reportsPageQuerySchema = object({
+  accountId: optional(id()),
+  ...pageFields(REPORTS_MAX_PAGE_SIZE),
+});
+
+export type ReportsPageQuery = Infer<typeof reportsPageQuerySchema>;
@@ -0,0 +1,73 @@
+import { SendDraftCleanup } from "../types/mailchimp";
+import { MailChimpService } from "./mailchimpService";
+import { ApiError } from "../utils/errors";
+
+// MailChimp's status for an unsent, unscheduled campaign
+const DRAFT_STATUS = "save";
+
+// Statuses of a campaign MailChimp has accepted for sending
+const SENT_STATUSES = ["sending", "sent"];
+
+// Whether a failed send call leaves it unknown if the campaign went out: a
+// timeout or server error may come after MailChimp accepted the send, while
+// other errors (validation, rate limits, auth) mean it was refused
+export const isAmbiguousSendFailure = (error: unknown): boolean =>
+  !(error instanceof ApiError) || error.status >= 500;
+
+// Whether MailChimp has started sending the campaign; false when it can't be
+// told (including when the status check itself fails)
+export const isCampaignSent = async (
+  mailchimpService: MailChimpService,
+  accessToken: string,
+  datacenter: string,
+  campaignId: string
+): Promise<boolean> => {
+  try {
+    const campaign = await mailchimpService.getCampaign(
+      accessToken,
+      datacenter,
+      campaignId
+    );
+    return !!campaign && SENT_STATUSES.includes(campaign.status);
+  } catch (error: any) {
+    console.error("Send status check error:", error.message);
+    return false;
+  }
+};
+
+// Clean up after a send that failed partway: delete the campaign it created
+// unless the caller asked to keep it. Only drafts are deleted, so a campaign
+// MailChimp accepted for sending despite the error is left alone. Pass the
+// send call's error when that step failed: after an ambiguous failure the
+// campaign may still be sent even though it reads as a draft, so it is kept.
+export const rollbackFailedSend = async (
+  mailchimpService: MailChimpService,
+  accessToken: string,
+  datacenter: string,
+  campaignId: string | null,
+  keepDraft: boolean,
+  sendError?: unknown
+): Promise<SendDraftCleanup> => {
+  if (!campaignId) return "none";
+  if (sendError !== undefined && isAmbiguousSendFailure(sendError)) {
+    return "send_unconfirmed";
+  }
+  if (keepDraft) return "kept";
+
+  try {
+    const campaign = await mailchimpService.getCampaign(
+      accessToken,
+      datacenter,
+      campaignId
+    );
+
+    if (!campaign) return "none";
+    if (campaign.status !== DRAFT_STATUS) return "not_draft";
+
+    await mailchimpService.deleteCampaign(accessToken, datacenter, campaignId);
+    return "deleted";
+  } catch (error: any) {
+    console.error("Send rollback error:", error.message);
+    return "delete_failed";
+  }
+};
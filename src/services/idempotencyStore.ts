@@ -0,0 +1,115 @@
+import { IdempotencyRecord, StoredIdempotencyRecord } from "../types/mailchimp";
+import { getIdempotencyConfig } from "../config/mailchimp";
+import { JsonFile } from "../utils/jsonFile";
+
+/**
+ * Storage backend for idempotency keys. `claim` must be atomic so that two
+ * concurrent requests with the same key can't both start.
+ */
+export interface IdempotencyStore {
+  // Store `record` under `key` unless an unexpired record already exists;
+  // returns that existing record, or null when the claim succeeded
+  claim(
+    key: string,
+    record: IdempotencyRecord
+  ): Promise<IdempotencyRecord | null>;
+  set(key: string, record: IdempotencyRecord): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+const serializeRecord = (
+  record: IdempotencyRecord
+): StoredIdempotencyRecord => ({
+  ...record,
+  createdAt: record.createdAt.toISOString(),
+  expiresAt: record.expiresAt.toISOString(),
+});
+
+const deserializeRecord = (
+  stored: StoredIdempotencyRecord
+): IdempotencyRecord => ({
+  ...stored,
+  createdAt: new Date(stored.createdAt),
+  expiresAt: new Date(stored.expiresAt),
+});
+
+// Process-local storage; keys are forgotten on restart
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  private records = new Map<string, IdempotencyRecord>();
+
+  async claim(
+    key: string,
+    record: IdempotencyRecord
+  ): Promise<IdempotencyRecord | null> {
+    const now = Date.now();
+    for (const [storedKey, stored] of this.records) {
+      if (stored.expiresAt.getTime() <= now) this.records.delete(storedKey);
+    }
+
+    const existing = this.records.get(key);
+    if (existing) return existing;
+
+    this.records.set(key, record);
+    return null;
+  }
+
+  async set(key: string, record: IdempotencyRecord): Promise<void> {
+    this.records.set(key, record);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+}
+
+// JSON file storage; survives restarts, for a single server process only
+export class FileIdempotencyStore implements IdempotencyStore {
+  private file: JsonFile<StoredIdempotencyRecord>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFile(filePath);
+  }
+
+  claim(
+    key: string,
+    record: IdempotencyRecord
+  ): Promise<IdempotencyRecord | null> {
+    return this.file.update((records) => {
+      const now = Date.now();
+      for (const [storedKey, stored] of Object.entries(records)) {
+        if (new Date(stored.expiresAt).getTime() <= now) {
+          delete records[storedKey];
+        }
+      }
+
+      const existing = records[key];
+      if (existing) return deserializeRecord(existing);
+
+      records[key] = serializeRecord(record);
+      return null;
+    });
+  }
+
+  async set(key: string, record: IdempotencyRecord): Promise<void> {
+    await this.file.update((records) => {
+      records[key] = serializeRecord(record);
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.file.update((records) => {
+      delete records[key];
+    });
+  }
+}
+
+// Build the idempotency store selected by IDEMPOTENCY_STORE
+export const createIdempotencyStore = (): IdempotencyStore => {
+  const config = getIdempotencyConfig();
+
+  if (config.storeDriver === "file") {
+    return new FileIdempotencyStore(config.storeFilePath);
+  }
+
+  return new MemoryIdempotencyStore();
+};
@@ -0,0 +1,75 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ImportService } from "./importService";
+import { MailChimpService } from "./mailchimpService";
+import {
+  ImportJob,
+  ImportRow,
+  MailChimpBatchSubscribeApiResponse,
+  MailChimpConnection,
+} from "../types/mailchimp";
+
+// Batch subscribe that treats every row as an already existing member
+class FakeMailChimp {
+  upserts: string[] = [];
+
+  async batchSubscribe(
+    accessToken: string,
+    dc: string,
+    listId: string,
+    rows: ImportRow[]
+  ): Promise<MailChimpBatchSubscribeApiResponse> {
+    return {
+      new_members: [],
+      updated_members: [],
+      errors: rows.map((row) => ({
+        email_address: row.email,
+        error: `${row.email} is already a list member`,
+        error_code: "ERROR_CONTACT_EXISTS",
+      })),
+      total_created: 0,
+      total_updated: 0,
+      error_count: rows.length,
+    };
+  }
+
+  async upsertListMember(
+    accessToken: string,
+    dc: string,
+    listId: string,
+    email: string
+  ) {
+    this.upserts.push(email);
+  }
+}
+
+const connection = {
+  accountId: "account-1",
+  accessToken: "token",
+  metadata: { dc: "us1" },
+  connectedAt: new Date(),
+} as MailChimpConnection;
+
+const waitForJob = async (job: ImportJob) => {
+  while (job.status === "queued" || job.status === "running") {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+};
+
+test("existing members without merge fields count as unchanged", async () => {
+  const mailchimp = new FakeMailChimp();
+  const service = new ImportService(mailchimp as unknown as MailChimpService);
+  const parsed = service.parse(
+    "email,FNAME\nada@example.com,Ada\ngrace@example.com,\n",
+    "csv"
+  );
+
+  const job = service.startJob("user-1", connection, "list-1", parsed, true);
+  await waitForJob(job);
+
+  assert.equal(job.status, "completed");
+  assert.deepEqual(mailchimp.upserts, ["ada@example.com"]);
+  assert.equal(job.updated, 1);
+  assert.equal(job.unchanged, 1);
+  assert.equal(job.failed, 0);
+});
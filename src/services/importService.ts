@@ -0,0 +1,393 @@
+import crypto from "crypto";
+import {
+  ImportJob,
+  ImportRow,
+  ImportRowError,
+  MailChimpConnection,
+  MemberStatus,
+  MergeFieldValue,
+  MergeFields,
+} from "../types/mailchimp";
+import { IMPORT_BATCH_SIZE, IMPORT_MAX_ROW_ERRORS } from "../config/mailchimp";
+import { MailChimpService } from "./mailchimpService";
+import { parseCsv } from "../utils/csv";
+import { isValidEmail } from "../utils/email";
+import { ValidationError } from "../utils/errors";
+
+export type ImportFormat = "csv" | "ndjson";
+
+export class ImportParseError extends ValidationError {
+  constructor(message: string) {
+    super(message, [], "import_parse_failed");
+    this.name = "ImportParseError";
+  }
+}
+
+const EMAIL_KEYS = ["email", "email_address", "emailaddress"];
+const STATUS_KEYS = ["status"];
+const MERGE_FIELDS_KEYS = ["merge_fields", "mergefields"];
+const IMPORT_STATUSES: MemberStatus[] = [
+  "subscribed",
+  "unsubscribed",
+  "pending",
+  "transactional",
+];
+
+// MailChimp's batch error code for an email that is already on the list
+const CONTACT_EXISTS_ERROR = "ERROR_CONTACT_EXISTS";
+
+// In-memory import job storage (jobs are kept for the life of the process)
+const importJobs = new Map<string, ImportJob>();
+
+const normalizeKey = (key: string): string =>
+  key.trim().toLowerCase().replace(/\s+/g, "_");
+
+// Merge tags are upper case without spaces (e.g. "First Name" -> "FIRST_NAME")
+const toMergeTag = (key: string): string =>
+  key
+    .trim()
+    .toUpperCase()
+    .replace(/[^A-Z0-9_]+/g, "_");
+
+// Merge values from an upload; null, undefined and empty text are skipped
+const toMergeValue = (value: unknown): MergeFieldValue | undefined => {
+  if (value === null || value === undefined) return undefined;
+  if (typeof value === "number") return value;
+  if (typeof value === "object" && !Array.isArray(value)) {
+    return value as Record<string, unknown>;
+  }
+  return String(value).trim() || undefined;
+};
+
+// One parsed line of an upload, before validation
+interface ImportRecord {
+  row: number;
+  fields?: Record<string, unknown>;
+  error?: string;
+}
+
+export class ImportService {
+  constructor(private mailchimpService: MailChimpService) {}
+
+  // Parse and validate an upload into importable rows and per-row errors
+  parse(
+    body: string,
+    format: ImportFormat
+  ): { rows: ImportRow[]; errors: ImportRowError[]; totalRows: number } {
+    const records =
+      format === "csv" ? this.readCsv(body) : this.readNdjson(body);
+    const rows: ImportRow[] = [];
+    const errors: ImportRowError[] = [];
+    const seen = new Set<string>();
+
+    for (const { row, fields, error } of records) {
+      if (error) {
+        errors.push({ row, message: error });
+        continue;
+      }
+
+      let email: string | undefined;
+      let status: string | undefined;
+      const mergeFields: MergeFields = {};
+
+      for (const [key, value] of Object.entries(fields!)) {
+        const normalized = normalizeKey(key);
+        if (EMAIL_KEYS.includes(normalized)) {
+          email = String(value).trim().toLowerCase();
+        } else if (STATUS_KEYS.includes(normalized)) {
+          status = String(value).trim().toLowerCase() || undefined;
+        } else if (
+          MERGE_FIELDS_KEYS.includes(normalized) &&
+          value &&
+          typeof value === "object"
+        ) {
+          for (const [tag, entry] of Object.entries(value)) {
+            const mergeValue = toMergeValue(entry);
+            if (mergeValue !== undefined) {
+              mergeFields[toMergeTag(tag)] = mergeValue;
+            }
+          }
+        } else {
+          const mergeValue = toMergeValue(value);
+          if (mergeValue !== undefined) {
+            mergeFields[toMergeTag(key)] = mergeValue;
+          }
+        }
+      }
+
+      if (!isValidEmail(email)) {
+        errors.push({ row, email, message: "Invalid or missing email" });
+        continue;
+      }
+
+      if (status && !IMPORT_STATUSES.includes(status as MemberStatus)) {
+        errors.push({
+          row,
+          email,
+          message: `Invalid status "${status}" (expected ${IMPORT_STATUSES.join(
+            ", "
+          )})`,
+        });
+        continue;
+      }
+
+      if (seen.has(email)) {
+        errors.push({ row, email, message: "Duplicate email in import" });
+        continue;
+      }
+      seen.add(email);
+
+      rows.push({
+        row,
+        email,
+        status: status as MemberStatus | undefined,
+        mergeFields,
+      });
+    }
+
+    return { rows, errors, totalRows: records.length };
+  }
+
+  // Create a job and start processing it in the background
+  startJob(
+    userId: string,
+    connection: MailChimpConnection,
+    listId: string,
+    parsed: { rows: ImportRow[]; errors: ImportRowError[]; totalRows: number },
+    updateExisting: boolean
+  ): ImportJob {
+    const job: ImportJob = {
+      id: crypto.randomUUID(),
+      userId,
+      accountId: connection.accountId,
+      listId,
+      status: "queued",
+      totalRows: parsed.totalRows,
+      processedRows: 0,
+      created: 0,
+      updated: 0,
+      unchanged: 0,
+      failed: 0,
+      errors: [],
+      errorsTruncated: false,
+      createdAt: new Date(),
+    };
+    importJobs.set(job.id, job);
+
+    // Rows rejected during parsing count as processed failures
+    for (const error of parsed.errors) {
+      this.recordError(job, error);
+    }
+    job.processedRows = parsed.errors.length;
+
+    this.run(job, connection, parsed.rows, updateExisting).catch((error) => {
+      console.error("Import job error:", error);
+      job.status = "failed";
+      job.message = error.message || "Import failed";
+      job.finishedAt = new Date();
+    });
+
+    return job;
+  }
+
+  // Get a job, only for the user who started it
+  getJob(jobId: string, userId: string): ImportJob | null {
+    const job = importJobs.get(jobId);
+    return job && job.userId === userId ? job : null;
+  }
+
+  // Send rows to MailChimp in batch-subscribe chunks. Batch updates overwrite
+  // the status of existing members, so rows without a status are only added
+  // as new members there; existing members among them get their merge fields
+  // updated one by one and keep their status (an unsubscribed or cleaned
+  // contact is never re-subscribed by an import that didn't ask for it).
+  private async run(
+    job: ImportJob,
+    connection: MailChimpConnection,
+    rows: ImportRow[],
+    updateExisting: boolean
+  ): Promise<void> {
+    job.status = "running";
+
+    for (let i = 0; i < rows.length; i += IMPORT_BATCH_SIZE) {
+      const chunk = rows.slice(i, i + IMPORT_BATCH_SIZE);
+      const withStatus = chunk.filter((row) => row.status);
+      const withoutStatus = chunk.filter((row) => !row.status);
+
+      if (withStatus.length > 0) {
+        await this.importBatch(job, connection, withStatus, updateExisting);
+      }
+
+      if (withoutStatus.length > 0) {
+        const existing = await this.importBatch(
+          job,
+          connection,
+          withoutStatus,
+          false,
+          updateExisting
+        );
+
+        for (const row of existing) {
+          await this.updateExistingMember(job, connection, row);
+        }
+      }
+
+      job.processedRows += chunk.length;
+    }
+
+    job.status = "completed";
+    job.finishedAt = new Date();
+  }
+
+  // Send one batch and record its counts and row errors. With
+  // `collectExisting`, rows rejected because the member already exists are
+  // returned instead of reported as errors.
+  private async importBatch(
+    job: ImportJob,
+    connection: MailChimpConnection,
+    rows: ImportRow[],
+    updateExisting: boolean,
+    collectExisting = false
+  ): Promise<ImportRow[]> {
+    const existing: ImportRow[] = [];
+
+    try {
+      const result = await this.mailchimpService.batchSubscribe(
+        connection.accessToken,
+        connection.metadata.dc,
+        job.listId,
+        rows,
+        updateExisting
+      );
+
+      job.created += result.total_created;
+      job.updated += result.total_updated;
+
+      const rowsByEmail = new Map(
+        rows.map((row) => [row.email.toLowerCase(), row])
+      );
+      for (const error of result.errors) {
+        const email = error.email_address.toLowerCase();
+        const row = rowsByEmail.get(email);
+
+        if (
+          collectExisting &&
+          row &&
+          error.error_code === CONTACT_EXISTS_ERROR
+        ) {
+          existing.push(row);
+          continue;
+        }
+
+        this.recordError(job, {
+          row: row?.row ?? 0,
+          email,
+          message: error.error,
+        });
+      }
+    } catch (error: any) {
+      // The whole batch failed; report every row in it
+      for (const row of rows) {
+        this.recordError(job, {
+          row: row.row,
+          email: row.email,
+          message: error.message || "Batch request failed",
+        });
+      }
+    }
+
+    return existing;
+  }
+
+  // Update an existing member's merge fields without touching its status. A
+  // row with no merge fields has nothing to change, so the member is left
+  // unchanged.
+  private async updateExistingMember(
+    job: ImportJob,
+    connection: MailChimpConnection,
+    row: ImportRow
+  ): Promise<void> {
+    if (Object.keys(row.mergeFields).length === 0) {
+      job.unchanged++;
+      return;
+    }
+
+    try {
+      await this.mailchimpService.upsertListMember(
+        connection.accessToken,
+        connection.metadata.dc,
+        job.listId,
+        row.email,
+        "subscribed",
+        row.mergeFields
+      );
+      job.updated++;
+    } catch (error: any) {
+      this.recordError(job, {
+        row: row.row,
+        email: row.email,
+        message: error.message || "Member update failed",
+      });
+    }
+  }
+
+  private recordError(job: ImportJob, error: ImportRowError): void {
+    job.failed++;
+    if (job.errors.length < IMPORT_MAX_ROW_ERRORS) {
+      job.errors.push(error);
+    } else {
+      job.errorsTruncated = true;
+    }
+  }
+
+  // CSV: first row holds column names; row numbers are the lines rows start on
+  private readCsv(body: string): ImportRecord[] {
+    const [headerRow, ...lines] = parseCsv(body);
+    const header = headerRow?.values;
+
+    if (!header) {
+      throw new ImportParseError("CSV upload is empty");
+    }
+    if (!header.some((column) => EMAIL_KEYS.includes(normalizeKey(column)))) {
+      throw new ImportParseError("CSV header must include an email column");
+    }
+
+    return lines.map(({ line, values }) => {
+      if (values.length > header.length) {
+        return { row: line, error: "Row has more values than columns" };
+      }
+
+      const fields: Record<string, unknown> = {};
+      header.forEach((column, position) => {
+        fields[column] = values[position] ?? "";
+      });
+      return { row: line, fields };
+    });
+  }
+
+  // NDJSON: one JSON object per line; row numbers are line numbers
+  private readNdjson(body: string): ImportRecord[] {
+    const records: ImportRecord[] = [];
+
+    body.split(/\r?\n/).forEach((line, index) => {
+      if (!line.trim()) return;
+
+      try {
+        const value = JSON.parse(line);
+        if (!value || typeof value !== "object" || Array.isArray(value)) {
+          records.push({ row: index + 1, error: "Line is not a JSON object" });
+        } else {
+          records.push({ row: index + 1, fields: value });
+        }
+      } catch {
+        records.push({ row: index + 1, error: "Line is not valid JSON" });
+      }
+    });
+
+    if (records.length === 0) {
+      throw new ImportParseError("NDJSON upload is empty");
+    }
+
+    return records;
+  }
+}
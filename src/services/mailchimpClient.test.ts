@@ -0,0 +1,184 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { AxiosInstance, AxiosRequestConfig } from "axios";
+import { MailChimpClient } from "./mailchimpClient";
+import { MailChimpClientConfig } from "../types/mailchimp";
+
+const config: MailChimpClientConfig = {
+  maxConcurrent: 2,
+  timeoutMs: 1000,
+  maxRetries: 3,
+  retryBaseDelayMs: 1,
+  retryMaxDelayMs: 100,
+};
+
+// An axios-style failure: an HTTP status, or a network error code
+const httpError = (status: number, headers: Record<string, string> = {}) =>
+  Object.assign(new Error(`Request failed with status ${status}`), {
+    response: { status, headers },
+  });
+
+const networkError = (code: string) => Object.assign(new Error(code), { code });
+
+// Fake axios instance answering each call with the next outcome in the list
+// (an Error is thrown); the last outcome repeats
+const fakeHttp = (
+  outcomes: Array<unknown>,
+  onRequest?: (config: AxiosRequestConfig) => Promise<void>
+) => {
+  const requests: AxiosRequestConfig[] = [];
+  const http = {
+    async request(requestConfig: AxiosRequestConfig) {
+      requests.push(requestConfig);
+      await onRequest?.(requestConfig);
+      const outcome = outcomes[Math.min(requests.length, outcomes.length) - 1];
+      if (outcome instanceof Error) throw outcome;
+      return { data: outcome };
+    },
+  };
+
+  return { http: http as unknown as AxiosInstance, requests };
+};
+
+test("requests go to the account's datacenter with its token", async () => {
+  const { http, requests } = fakeHttp([{ id: "list1" }]);
+  const client = new MailChimpClient(config, http);
+
+  const data = await client.get("token", "us6", "/lists/list1", {
+    params: { fields: "id" },
+  });
+
+  assert.deepEqual(data, { id: "list1" });
+  assert.equal(
+    requests[0].url,
+    "https://us6.api.mailchimp.com/3.0/lists/list1"
+  );
+  assert.deepEqual(requests[0].params, { fields: "id" });
+  assert.deepEqual(requests[0].headers, { Authorization: "Bearer token" });
+  assert.equal(requests[0].timeout, 1000);
+});
+
+test("idempotent requests are retried after server and network errors", async () => {
+  const { http, requests } = fakeHttp([
+    httpError(503),
+    networkError("ECONNRESET"),
+    { ok: true },
+  ]);
+  const client = new MailChimpClient(config, http);
+
+  assert.deepEqual(await client.put("token", "us1", "/x", {}), { ok: true });
+  assert.equal(requests.length, 3);
+});
+
+test("retries stop after maxRetries and reject with the last error", async () => {
+  const last = httpError(500);
+  const { http, requests } = fakeHttp([httpError(502), httpError(503), last]);
+  const client = new MailChimpClient({ ...config, maxRetries: 2 }, http);
+
+  await assert.rejects(
+    client.get("token", "us1", "/x"),
+    (error) => error === last
+  );
+  assert.equal(requests.length, 3);
+});
+
+test("a maxRetries of 0 disables retries", async () => {
+  const { http, requests } = fakeHttp([httpError(503)]);
+  const client = new MailChimpClient({ ...config, maxRetries: 0 }, http);
+
+  await assert.rejects(client.get("token", "us1", "/x"));
+  assert.equal(requests.length, 1);
+});
+
+test("client errors are not retried", async () => {
+  const { http, requests } = fakeHttp([httpError(400), { ok: true }]);
+  const client = new MailChimpClient(config, http);
+
+  await assert.rejects(client.get("token", "us1", "/x"), (error: any) => {
+    assert.equal(error.response.status, 400);
+    return true;
+  });
+  assert.equal(requests.length, 1);
+});
+
+test("POSTs are only retried when MailChimp can't have acted on them", async () => {
+  const retried = async (error: Error) => {
+    const { http, requests } = fakeHttp([error, { ok: true }]);
+    const client = new MailChimpClient(config, http);
+    await client
+      .post("token", "us1", "/campaigns/c1/actions/send")
+      .catch(() => undefined);
+    return requests.length > 1;
+  };
+
+  assert.equal(await retried(httpError(429)), true);
+  assert.equal(await retried(networkError("ECONNREFUSED")), true);
+  assert.equal(await retried(httpError(500)), false);
+  assert.equal(await retried(httpError(504)), false);
+  assert.equal(await retried(networkError("ECONNABORTED")), false);
+  assert.equal(await retried(networkError("ECONNRESET")), false);
+});
+
+test("Retry-After is waited out, unless it is longer than the backoff allows", async () => {
+  const { http, requests } = fakeHttp([
+    httpError(429, { "retry-after": "0.05" }),
+    { ok: true },
+  ]);
+  const client = new MailChimpClient(config, http);
+
+  const startedAt = Date.now();
+  await client.get("token", "us1", "/x");
+  assert.equal(requests.length, 2);
+  assert.ok(Date.now() - startedAt >= 45);
+
+  const slow = fakeHttp([httpError(429, { "retry-after": "60" }), { ok: 1 }]);
+  const slowClient = new MailChimpClient(config, slow.http);
+  await assert.rejects(slowClient.get("token", "us1", "/x"));
+  assert.equal(slow.requests.length, 1);
+});
+
+test("concurrent requests are limited per account", async () => {
+  const inFlight = new Map<string, number>();
+  const peak = new Map<string, number>();
+  const { http } = fakeHttp([{ ok: true }], async (requestConfig) => {
+    const token = String(requestConfig.headers!.Authorization);
+    inFlight.set(token, (inFlight.get(token) || 0) + 1);
+    peak.set(token, Math.max(peak.get(token) || 0, inFlight.get(token)!));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    inFlight.set(token, inFlight.get(token)! - 1);
+  });
+  const client = new MailChimpClient(config, http);
+
+  await Promise.all(
+    ["a", "a", "a", "a", "a", "b", "b", "b"].map((token) =>
+      client.get(token, "us1", "/x")
+    )
+  );
+
+  assert.equal(peak.get("Bearer a"), 2);
+  assert.equal(peak.get("Bearer b"), 2);
+});
+
+test("a request waiting to retry frees its connection", async () => {
+  const order: string[] = [];
+  let firstAttempt = true;
+  const http = {
+    async request(requestConfig: AxiosRequestConfig) {
+      const path = String(requestConfig.url).split("/3.0")[1];
+      order.push(path);
+      if (path === "/slow" && firstAttempt) {
+        firstAttempt = false;
+        throw httpError(429, { "retry-after": "0.03" });
+      }
+      return { data: path };
+    },
+  } as unknown as AxiosInstance;
+  const client = new MailChimpClient({ ...config, maxConcurrent: 1 }, http);
+
+  await Promise.all([
+    client.get("token", "us1", "/slow"),
+    client.get("token", "us1", "/fast"),
+  ]);
+
+  assert.deepEqual(order, ["/slow", "/fast", "/slow"]);
+});
@@ -0,0 +1,279 @@
+import axios, { AxiosInstance, AxiosRequestConfig, Method } from "axios";
+import crypto from "crypto";
+import { MailChimpClientConfig } from "../types/mailchimp";
+import { getMailChimpClientConfig } from "../config/mailchimp";
+
+export interface MailChimpRequestOptions {
+  params?: Record<string, unknown>;
+  headers?: Record<string, string>;
+  // Overrides the default per-call timeout
+  timeoutMs?: number;
+}
+
+// Methods whose requests can be repeated without repeating their effect.
+// MailChimp's PATCH endpoints set fields, so they are safe to repeat too.
+const IDEMPOTENT_METHODS: Method[] = ["GET", "PUT", "PATCH", "DELETE"];
+
+// Network failures where the request never reached MailChimp, so even a
+// non-idempotent request can be sent again
+const NOT_SENT_CODES = ["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN"];
+
+// Connection-level failures worth retrying for idempotent requests
+const NETWORK_ERROR_CODES = [
+  ...NOT_SENT_CODES,
+  "ECONNRESET",
+  "ETIMEDOUT",
+  "ECONNABORTED",
+  "EPIPE",
+  "ERR_NETWORK",
+];
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (value: unknown): number | null => {
+  if (typeof value !== "string" || !value.trim()) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+// Counting semaphore guarding one account's connections
+class ConnectionLimiter {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(private limit: number) {}
+
+  get idle(): boolean {
+    return this.active === 0 && this.waiting.length === 0;
+  }
+
+  async acquire(): Promise<void> {
+    if (this.active < this.limit) {
+      this.active++;
+      return;
+    }
+    // The releasing request hands its slot straight to us
+    await new Promise<void>((resolve) => this.waiting.push(resolve));
+  }
+
+  release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+/**
+ * HTTP client for MailChimp's API. Limits concurrent requests per account,
+ * applies a timeout to every call, and retries rate-limited (429), failed
+ * (5xx) and dropped requests with jittered exponential backoff. Requests that
+ * aren't idempotent (POST) are only retried when MailChimp can't have acted
+ * on them: a 429, or a connection that was never made.
+ *
+ * Failed requests reject with the last axios error, so callers can inspect
+ * `error.response`.
+ */
+export class MailChimpClient {
+  // Keyed by a hash of the access token, which identifies the account
+  private limiters = new Map<string, ConnectionLimiter>();
+
+  constructor(
+    private config: MailChimpClientConfig = getMailChimpClientConfig(),
+    private http: AxiosInstance = axios.create()
+  ) {}
+
+  // Call the Marketing API (`path` is relative to /3.0) on a datacenter
+  get<T>(
+    accessToken: string,
+    datacenter: string,
+    path: string,
+    options?: MailChimpRequestOptions
+  ): Promise<T> {
+    return this.api("GET", accessToken, datacenter, path, undefined, options);
+  }
+
+  post<T>(
+    accessToken: string,
+    datacenter: string,
+    path: string,
+    data: unknown = {},
+    options?: MailChimpRequestOptions
+  ): Promise<T> {
+    return this.api("POST", accessToken, datacenter, path, data, options);
+  }
+
+  put<T>(
+    accessToken: string,
+    datacenter: string,
+    path: string,
+    data: unknown,
+    options?: MailChimpRequestOptions
+  ): Promise<T> {
+    return this.api("PUT", accessToken, datacenter, path, data, options);
+  }
+
+  patch<T>(
+    accessToken: string,
+    datacenter: string,
+    path: string,
+    data: unknown,
+    options?: MailChimpRequestOptions
+  ): Promise<T> {
+    return this.api("PATCH", accessToken, datacenter, path, data, options);
+  }
+
+  delete<T = void>(
+    accessToken: string,
+    datacenter: string,
+    path: string,
+    options?: MailChimpRequestOptions
+  ): Promise<T> {
+    return this.api(
+      "DELETE",
+      accessToken,
+      datacenter,
+      path,
+      undefined,
+      options
+    );
+  }
+
+  // Call any MailChimp URL (e.g. the OAuth endpoints on login.mailchimp.com).
+  // Requests with an access token share that account's connection limit.
+  async request<T>(
+    method: Method,
+    url: string,
+    options: MailChimpRequestOptions & {
+      accessToken?: string;
+      data?: unknown;
+    } = {}
+  ): Promise<T> {
+    const { accessToken, data, params, headers, timeoutMs } = options;
+    const requestConfig: AxiosRequestConfig = {
+      method,
+      url,
+      data,
+      params,
+      headers: {
+        ...(accessToken && { Authorization: `Bearer ${accessToken}` }),
+        ...headers,
+      },
+      timeout: timeoutMs ?? this.config.timeoutMs,
+    };
+
+    for (let attempt = 0; ; attempt++) {
+      const limiter = accessToken ? this.getLimiter(accessToken) : null;
+      let delay = 0;
+
+      await limiter?.acquire();
+      try {
+        const response = await this.http.request<T>(requestConfig);
+        return response.data;
+      } catch (error: any) {
+        const retryDelay = this.retryDelay(method, error, attempt);
+        if (retryDelay === null) throw error;
+
+        console.warn(
+          `MailChimp ${method} ${url} failed (${
+            error.response?.status || error.code || error.message
+          }), retrying in ${retryDelay}ms`
+        );
+        delay = retryDelay;
+      } finally {
+        // Free the connection, including while waiting to retry
+        if (limiter) this.releaseLimiter(accessToken!, limiter);
+      }
+
+      await sleep(delay);
+    }
+  }
+
+  private api<T>(
+    method: Method,
+    accessToken: string,
+    datacenter: string,
+    path: string,
+    data: unknown,
+    options: MailChimpRequestOptions = {}
+  ): Promise<T> {
+    return this.request<T>(
+      method,
+      `https://${datacenter}.api.mailchimp.com/3.0${path}`,
+      { ...options, accessToken, data }
+    );
+  }
+
+  // How long to wait before retrying, or null if the error is final
+  private retryDelay(
+    method: Method,
+    error: any,
+    attempt: number
+  ): number | null {
+    if (attempt >= this.config.maxRetries) return null;
+
+    const status: number | undefined = error.response?.status;
+    const idempotent = IDEMPOTENT_METHODS.includes(
+      method.toUpperCase() as Method
+    );
+
+    let retryable: boolean;
+    if (status === 429) {
+      // Rejected before MailChimp did anything with it
+      retryable = true;
+    } else if (status !== undefined) {
+      retryable = status >= 500 && idempotent;
+    } else {
+      retryable = idempotent
+        ? NETWORK_ERROR_CODES.includes(error.code)
+        : NOT_SENT_CODES.includes(error.code);
+    }
+    if (!retryable) return null;
+
+    const backoff = Math.min(
+      this.config.retryMaxDelayMs,
+      this.config.retryBaseDelayMs * 2 ** attempt
+    );
+    // Full jitter spreads out retries from concurrent requests
+    const delay = Math.round(Math.random() * backoff);
+
+    const retryAfter = parseRetryAfter(
+      error.response?.headers?.["retry-after"]
+    );
+    if (retryAfter === null) return delay;
+
+    // Don't hold a request open for longer than the backoff allows
+    return retryAfter > this.config.retryMaxDelayMs
+      ? null
+      : Math.max(retryAfter, delay);
+  }
+
+  private limiterKey(accessToken: string): string {
+    return crypto.createHash("sha256").update(accessToken).digest("hex");
+  }
+
+  private releaseLimiter(accessToken: string, limiter: ConnectionLimiter) {
+    limiter.release();
+    if (limiter.idle) this.limiters.delete(this.limiterKey(accessToken));
+  }
+
+  private getLimiter(accessToken: string): ConnectionLimiter {
+    const key = this.limiterKey(accessToken);
+    let limiter = this.limiters.get(key);
+
+    if (!limiter) {
+      limiter = new ConnectionLimiter(this.config.maxConcurrent);
+      this.limiters.set(key, limiter);
+    }
+
+    return limiter;
+  }
+}
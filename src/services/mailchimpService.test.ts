@@ -0,0 +1,126 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import { MailChimpService } from "./mailchimpService";
+import { MailChimpClient } from "./mailchimpClient";
+import { MemorySessionStore } from "./sessionStore";
+import { TokenCipher } from "./tokenCipher";
+import { MailChimpSegmentOpts } from "../types/mailchimp";
+
+const minutesAgo = (minutes: number) =>
+  new Date(Date.now() - minutes * 60 * 1000).toISOString();
+
+// Stand-in for the MailChimp client serving a list's segments, recording each
+// call as "METHOD path"
+class FakeClient {
+  calls: string[] = [];
+  segments = [
+    { id: 1, name: "VIPs", member_count: 40, created_at: minutesAgo(600) },
+    {
+      id: 2,
+      name: "Newsletter",
+      member_count: 75,
+      created_at: minutesAgo(600),
+    },
+  ];
+  failDeletes = false;
+
+  async get(accessToken: string, dc: string, path: string) {
+    this.calls.push(`GET ${path}`);
+    if (path === "/lists/list1/segments") return { segments: this.segments };
+    const id = Number(path.split("/").pop());
+    return this.segments.find((segment) => segment.id === id);
+  }
+
+  async post(accessToken: string, dc: string, path: string, data: any) {
+    this.calls.push(`POST ${path}`);
+    const segment = {
+      id: 100 + this.segments.length,
+      name: data.name,
+      member_count: 12,
+      created_at: new Date().toISOString(),
+    };
+    this.segments.push(segment);
+    return segment;
+  }
+
+  async delete(accessToken: string, dc: string, path: string) {
+    this.calls.push(`DELETE ${path}`);
+    if (this.failDeletes) throw new Error("MailChimp unavailable");
+    const id = Number(path.split("/").pop());
+    this.segments = this.segments.filter((segment) => segment.id !== id);
+  }
+}
+
+const setup = () => {
+  const client = new FakeClient();
+  const service = new MailChimpService(
+    new MemorySessionStore(),
+    new TokenCipher({
+      currentKeyId: "test",
+      keys: { test: crypto.randomBytes(32) },
+    }),
+    client as unknown as MailChimpClient
+  );
+  const preview = (segmentOpts: MailChimpSegmentOpts) =>
+    service.previewRecipientCount("token", "us1", "list1", segmentOpts);
+
+  return { client, preview };
+};
+
+const tag = (id: number) => ({
+  condition_type: "StaticSegment",
+  field: "static_segment",
+  op: "static_is",
+  value: id,
+});
+
+test("saved segments and a single tag are counted without writing", async () => {
+  const { client, preview } = setup();
+
+  assert.deepEqual(await preview({ saved_segment_id: 1 }), {
+    recipientCount: 40,
+  });
+  assert.deepEqual(await preview({ match: "all", conditions: [tag(2)] }), {
+    recipientCount: 75,
+  });
+  assert.deepEqual(client.calls, [
+    "GET /lists/list1/segments/1",
+    "GET /lists/list1/segments/2",
+  ]);
+});
+
+test("other targeting is counted with a temporary segment that is deleted", async () => {
+  const { client, preview } = setup();
+
+  const result = await preview({ match: "any", conditions: [tag(1), tag(2)] });
+
+  assert.deepEqual(result, { recipientCount: 12 });
+  assert.deepEqual(
+    client.segments.map((segment) => segment.id),
+    [1, 2]
+  );
+});
+
+test("a preview segment that couldn't be deleted is removed later", async () => {
+  const { client, preview } = setup();
+
+  client.failDeletes = true;
+  await preview({ match: "any", conditions: [tag(1), tag(2)] });
+  const [leftover] = client.segments.filter((segment) =>
+    segment.name.startsWith("Recipient preview (temporary) ")
+  );
+  assert.ok(leftover);
+
+  // Still recent, so it may belong to a preview in progress
+  client.failDeletes = false;
+  await preview({ match: "any", conditions: [tag(1), tag(2)] });
+  assert.ok(client.segments.includes(leftover));
+
+  leftover.created_at = minutesAgo(11);
+  await preview({ match: "any", conditions: [tag(1), tag(2)] });
+  assert.deepEqual(
+    client.segments.map((segment) => segment.id),
+    [1, 2]
+  );
+});
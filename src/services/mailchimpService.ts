@@ -1,212 +1,1722 @@
-import axios from "axios";
+import crypto from "crypto";
 import {
   MailChimpTokenResponse,
   MailChimpMetadata,
+  MailChimpListApiResponse,
   MailChimpListsApiResponse,
+  ListsQuery,
   MailChimpCampaignApiResponse,
+  MailChimpCampaignContentApiResponse,
+  MailChimpSendChecklistApiResponse,
+  MailChimpReportApiResponse,
+  MailChimpReportsApiResponse,
+  MailChimpClickDetailsApiResponse,
+  MailChimpSegmentOpts,
+  MailChimpSegmentApiResponse,
+  MailChimpSegmentsApiResponse,
+  MailChimpInterestCategoriesApiResponse,
+  MailChimpInterestsApiResponse,
+  MailChimpInterestCategoryApiResponse,
+  MailChimpInterestApiResponse,
+  MailChimpMergeFieldApiResponse,
+  MailChimpMergeFieldsApiResponse,
+  CreateMergeFieldRequest,
+  InterestCategoryType,
+  MailChimpWebhookApiResponse,
+  WebhookEventType,
+  WebhookSource,
+  CampaignChecklist,
+  MailChimpMemberApiResponse,
+  MailChimpBatchSubscribeApiResponse,
+  ImportRow,
+  BatchDelivery,
+  TestSendType,
+  MemberStatus,
+  MergeFields,
   UserSession,
+  MailChimpConnection,
+  ReencryptSessionsResult,
 } from "../types/mailchimp";
 import {
   getMailChimpConfig,
   MAILCHIMP_OAUTH_URL,
   MAILCHIMP_METADATA_URL,
+  TOKEN_VERIFY_CACHE_MS,
+  LISTS_MAX_PAGE_SIZE,
+  AUDIENCE_MAX_PAGE_SIZE,
+  WEBHOOK_EVENT_TYPES,
+  WEBHOOK_SOURCES,
+  IMPORT_BATCH_TIMEOUT_MS,
 } from "../config/mailchimp";
+import {
+  getSessionTtlConfig,
+  SESSION_TOUCH_INTERVAL_MS,
+} from "../config/session";
+import {
+  SessionStore,
+  createSessionStore,
+  buildAccountId,
+} from "./sessionStore";
+import { TokenCipher } from "./tokenCipher";
+import { MailChimpClient } from "./mailchimpClient";
+import { getSubscriberHash } from "../utils/subscriberHash";
+import {
+  SessionError,
+  TokenRevokedError,
+  fromMailChimpError,
+} from "../utils/errors";
+
+// Shared session storage, selected via SESSION_STORE
+const defaultSessionStore = createSessionStore();
+const defaultTokenCipher = new TokenCipher();
+// Shared so every service instance counts against the same connection limits
+const defaultClient = new MailChimpClient();
 
-// In-memory session storage (replace with Redis/Database in production)
-const userSessions = new Map<string, UserSession>();
+// Names the temporary segments recipient previews count with
+const PREVIEW_SEGMENT_PREFIX = "Recipient preview (temporary) ";
+// Preview segments older than this were left behind and can be removed
+const PREVIEW_SEGMENT_STALE_MS = 10 * 60 * 1000;
+
+// Only request the list fields we expose
+const LIST_FIELDS = [
+  "lists.id",
+  "lists.name",
+  "lists.date_created",
+  "lists.stats.member_count",
+  "lists.stats.unsubscribe_count",
+  "lists.stats.open_rate",
+  "lists.stats.campaign_last_sent",
+  "total_items",
+].join(",");
+
+// Helper function to build MailChimp's merge field body from our field names
+const toMergeFieldBody = (
+  field: Partial<Omit<CreateMergeFieldRequest, "accountId">>
+) => ({
+  name: field.name,
+  type: field.type,
+  tag: field.tag,
+  required: field.required,
+  default_value: field.defaultValue,
+  public: field.public,
+  display_order: field.displayOrder,
+  help_text: field.helpText,
+  options: field.options && {
+    default_country: field.options.defaultCountry,
+    phone_format: field.options.phoneFormat,
+    date_format: field.options.dateFormat,
+    choices: field.options.choices,
+    size: field.options.size,
+  },
+});
 
 export class MailChimpService {
   private config = getMailChimpConfig();
+  private ttlConfig = getSessionTtlConfig();
+
+  constructor(
+    private sessionStore: SessionStore = defaultSessionStore,
+    private tokenCipher: TokenCipher = defaultTokenCipher,
+    private client: MailChimpClient = defaultClient
+  ) {}
 
   // Exchange authorization code for access token
   async exchangeCodeForToken(code: string): Promise<MailChimpTokenResponse> {
     try {
-      const response = await axios.post(
+      // The code is single-use, so this POST is never retried after it was sent
+      return await this.client.request<MailChimpTokenResponse>(
+        "POST",
         MAILCHIMP_OAUTH_URL,
-        new URLSearchParams({
-          grant_type: "authorization_code",
-          client_id: this.config.clientId,
-          client_secret: this.config.clientSecret,
-          redirect_uri: this.config.redirectUri,
-          code: code,
-        }),
         {
+          data: new URLSearchParams({
+            grant_type: "authorization_code",
+            client_id: this.config.clientId,
+            client_secret: this.config.clientSecret,
+            redirect_uri: this.config.redirectUri,
+            code: code,
+          }),
           headers: {
             "Content-Type": "application/x-www-form-urlencoded",
           },
         }
       );
-
-      return response.data;
     } catch (error: any) {
       console.error(
         "Token exchange error:",
         error.response?.data || error.message
       );
-      throw new Error("Failed to exchange code for token");
+      throw fromMailChimpError(error, "Failed to exchange code for token");
     }
   }
 
   // Get user metadata using access token
   async getUserMetadata(accessToken: string): Promise<MailChimpMetadata> {
     try {
-      const response = await axios.get(MAILCHIMP_METADATA_URL, {
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-        },
-      });
-
-      return response.data;
+      return await this.client.request<MailChimpMetadata>(
+        "GET",
+        MAILCHIMP_METADATA_URL,
+        { accessToken }
+      );
     } catch (error: any) {
       console.error(
         "Metadata fetch error:",
         error.response?.data || error.message
       );
-      throw new Error("Failed to fetch user metadata");
+      // A 401 becomes TokenRevokedError
+      throw fromMailChimpError(error, "Failed to fetch user metadata");
     }
   }
 
-  // Store user session
-  storeUserSession(
-    sessionId: string,
+  // Generate an unguessable session ID
+  generateSessionId(): string {
+    return crypto.randomBytes(32).toString("base64url");
+  }
+
+  // Link a MailChimp account into an existing session, or start a new one.
+  // Reconnecting an already linked account replaces its token.
+  async connectAccount(
+    existingSessionId: string | undefined,
     accessToken: string,
     metadata: MailChimpMetadata
-  ): void {
-    userSessions.set(sessionId, {
-      accessToken,
+  ): Promise<{ sessionId: string; accountId: string }> {
+    const now = new Date();
+    const connection: MailChimpConnection = {
+      accountId: buildAccountId(metadata),
+      accessToken: this.tokenCipher.seal(accessToken),
       metadata,
-      connectedAt: new Date(),
+      connectedAt: now,
+    };
+
+    const existing = existingSessionId
+      ? await this.sessionStore.get(existingSessionId)
+      : null;
+
+    if (
+      existingSessionId &&
+      existing &&
+      this.getSessionExpiry(existing).getTime() > Date.now()
+    ) {
+      existing.connections = existing.connections
+        .filter((c) => c.accountId !== connection.accountId)
+        .concat(connection);
+      existing.activeAccountId = connection.accountId;
+      existing.lastUsedAt = now;
+      await this.sessionStore.set(existingSessionId, existing);
+
+      return { sessionId: existingSessionId, accountId: connection.accountId };
+    }
+
+    const sessionId = this.generateSessionId();
+    await this.sessionStore.set(sessionId, {
+      userId: crypto.randomUUID(),
+      connections: [connection],
+      activeAccountId: connection.accountId,
+      connectedAt: now,
+      lastUsedAt: now,
+    });
+
+    return { sessionId, accountId: connection.accountId };
+  }
+
+  // Get user session (with access tokens decrypted); throws SessionError if expired
+  async getUserSession(sessionId: string): Promise<UserSession | null> {
+    const session = await this.sessionStore.get(sessionId);
+    if (!session) return null;
+
+    if (this.getSessionExpiry(session).getTime() <= Date.now()) {
+      await this.sessionStore.delete(sessionId);
+      throw new SessionError("session_expired", "Session has expired");
+    }
+
+    // Slide the idle timeout forward
+    if (
+      Date.now() - session.lastUsedAt.getTime() >=
+      SESSION_TOUCH_INTERVAL_MS
+    ) {
+      session.lastUsedAt = new Date();
+      await this.sessionStore.set(sessionId, session);
+    }
+
+    try {
+      return {
+        ...session,
+        connections: session.connections.map((connection) => ({
+          ...connection,
+          accessToken: this.tokenCipher.open(connection.accessToken),
+        })),
+      };
+    } catch (error: any) {
+      console.error("Session token decryption error:", error.message);
+      return null;
+    }
+  }
+
+  // Pick a linked account, defaulting to the session's active one
+  getConnection(
+    session: UserSession,
+    accountId?: string
+  ): MailChimpConnection | null {
+    const targetId = accountId || session.activeAccountId;
+    return session.connections.find((c) => c.accountId === targetId) || null;
+  }
+
+  // Make a linked account the default for subsequent requests
+  async setActiveAccount(
+    sessionId: string,
+    accountId: string
+  ): Promise<boolean> {
+    const session = await this.sessionStore.get(sessionId);
+    if (
+      !session ||
+      !session.connections.some((c) => c.accountId === accountId)
+    ) {
+      return false;
+    }
+
+    session.activeAccountId = accountId;
+    await this.sessionStore.set(sessionId, session);
+    return true;
+  }
+
+  // Unlink one account from a session; if it was active, the first remaining
+  // account takes over. Unlinking the last account ends the session. Returns
+  // how many accounts are left, or null if the account wasn't linked.
+  async unlinkAccount(
+    sessionId: string,
+    accountId: string
+  ): Promise<number | null> {
+    const session = await this.sessionStore.get(sessionId);
+    if (!session?.connections.some((c) => c.accountId === accountId)) {
+      return null;
+    }
+
+    session.connections = session.connections.filter(
+      (c) => c.accountId !== accountId
+    );
+
+    if (session.connections.length === 0) {
+      await this.sessionStore.delete(sessionId);
+      return 0;
+    }
+
+    if (session.activeAccountId === accountId) {
+      session.activeAccountId = session.connections[0].accountId;
+    }
+    await this.sessionStore.set(sessionId, session);
+    return session.connections.length;
+  }
+
+  // Check a linked account's token against MailChimp, refreshing its stored
+  // metadata or marking it revoked. Recent successful checks are reused.
+  async verifyConnection(
+    sessionId: string,
+    connection: MailChimpConnection
+  ): Promise<MailChimpConnection> {
+    if (
+      connection.revokedAt ||
+      (connection.lastVerifiedAt &&
+        Date.now() - connection.lastVerifiedAt.getTime() <
+          TOKEN_VERIFY_CACHE_MS)
+    ) {
+      return connection;
+    }
+
+    const now = new Date();
+    let update: Partial<MailChimpConnection>;
+
+    try {
+      const metadata = await this.getUserMetadata(connection.accessToken);
+      update = { metadata, lastVerifiedAt: now };
+    } catch (error) {
+      if (!(error instanceof TokenRevokedError)) throw error;
+      update = { revokedAt: now };
+    }
+
+    await this.updateConnection(sessionId, connection.accountId, update);
+    return { ...connection, ...update };
+  }
+
+  // Mark a linked account's token as revoked after MailChimp rejected it, so
+  // the session reports reconnectRequired
+  async markConnectionRevoked(
+    sessionId: string,
+    accountId: string
+  ): Promise<void> {
+    await this.updateConnection(sessionId, accountId, {
+      revokedAt: new Date(),
     });
   }
 
-  // Get user session
-  getUserSession(sessionId: string): UserSession | null {
-    return userSessions.get(sessionId) || null;
+  private async updateConnection(
+    sessionId: string,
+    accountId: string,
+    update: Partial<MailChimpConnection>
+  ): Promise<void> {
+    const session = await this.sessionStore.get(sessionId);
+    const stored = session?.connections.find((c) => c.accountId === accountId);
+    if (session && stored) {
+      Object.assign(stored, update);
+      await this.sessionStore.set(sessionId, session);
+    }
   }
 
   // Remove user session
-  removeUserSession(sessionId: string): void {
-    userSessions.delete(sessionId);
+  async removeUserSession(sessionId: string): Promise<void> {
+    await this.sessionStore.delete(sessionId);
+  }
+
+  // Session expires at the earlier of the absolute and idle deadlines
+  getSessionExpiry(session: UserSession): Date {
+    return new Date(
+      Math.min(
+        session.connectedAt.getTime() + this.ttlConfig.absoluteTtlMs,
+        session.lastUsedAt.getTime() + this.ttlConfig.idleTtlMs
+      )
+    );
+  }
+
+  // Delete every expired session; returns how many were removed
+  async sweepExpiredSessions(): Promise<number> {
+    let removed = 0;
+
+    for (const sessionId of await this.sessionStore.keys()) {
+      const session = await this.sessionStore.get(sessionId);
+      if (session && this.getSessionExpiry(session).getTime() <= Date.now()) {
+        await this.sessionStore.delete(sessionId);
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  // Periodically sweep expired sessions in the background
+  startSessionSweeper(): NodeJS.Timeout {
+    const timer = setInterval(async () => {
+      try {
+        const removed = await this.sweepExpiredSessions();
+        if (removed > 0) {
+          console.log(`🧹 Removed ${removed} expired session(s)`);
+        }
+      } catch (error: any) {
+        console.error("Session sweep error:", error.message);
+      }
+    }, this.ttlConfig.sweepIntervalMs);
+
+    // Don't keep the process alive just for the sweeper
+    timer.unref();
+    return timer;
+  }
+
+  // Re-encrypt every stored access token under the current key
+  async reencryptSessions(): Promise<ReencryptSessionsResult> {
+    const result: ReencryptSessionsResult = {
+      total: 0,
+      reencrypted: 0,
+      failed: 0,
+    };
+
+    for (const sessionId of await this.sessionStore.keys()) {
+      const session = await this.sessionStore.get(sessionId);
+      if (!session) continue;
+      result.total++;
+
+      const stale = session.connections.filter(
+        (c) =>
+          this.tokenCipher.keyIdOf(c.accessToken) !==
+          this.tokenCipher.currentKeyId
+      );
+      if (stale.length === 0) continue;
+
+      try {
+        for (const connection of stale) {
+          // Tokens stored before encryption was introduced are plain text
+          const accessToken = this.tokenCipher.isSealed(connection.accessToken)
+            ? this.tokenCipher.open(connection.accessToken)
+            : connection.accessToken;
+          connection.accessToken = this.tokenCipher.seal(accessToken);
+        }
+
+        await this.sessionStore.set(sessionId, session);
+        result.reencrypted++;
+      } catch (error: any) {
+        console.error("Session re-encryption error:", error.message);
+        result.failed++;
+      }
+    }
+
+    return result;
   }
 
-  // Get user's email lists
+  // Get one page of the user's email lists
   async getLists(
     accessToken: string,
-    datacenter: string
+    datacenter: string,
+    query: ListsQuery = {}
   ): Promise<MailChimpListsApiResponse> {
     try {
-      const response = await axios.get(
-        `https://${datacenter}.api.mailchimp.com/3.0/lists`,
+      return await this.client.get<MailChimpListsApiResponse>(
+        accessToken,
+        datacenter,
+        "/lists",
         {
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
+          params: {
+            count: query.count,
+            offset: query.offset,
+            sort_field: query.sortField,
+            sort_dir: query.sortDir,
+            fields: LIST_FIELDS,
           },
         }
       );
-
-      return response.data;
     } catch (error: any) {
       console.error(
         "Lists fetch error:",
         error.response?.data || error.message
       );
-      throw new Error("Failed to fetch email lists");
+      throw fromMailChimpError(error, "Failed to fetch email lists");
     }
   }
 
-  // Create campaign
-  async createCampaign(
+  // Fetch every list by walking all pages
+  async getAllLists(
+    accessToken: string,
+    datacenter: string,
+    query: Omit<ListsQuery, "count" | "offset"> = {}
+  ): Promise<MailChimpListsApiResponse> {
+    const lists: MailChimpListsApiResponse["lists"] = [];
+    let totalItems = 0;
+
+    do {
+      const page = await this.getLists(accessToken, datacenter, {
+        ...query,
+        count: LISTS_MAX_PAGE_SIZE,
+        offset: lists.length,
+      });
+      totalItems = page.total_items;
+      lists.push(...page.lists);
+
+      // Stop if lists were deleted while paging
+      if (page.lists.length === 0) break;
+    } while (lists.length < totalItems);
+
+    return { lists, total_items: lists.length };
+  }
+
+  // Get one page of a list's saved segments ("saved") or tags ("static")
+  async getSegments(
     accessToken: string,
     datacenter: string,
     listId: string,
-    subject: string,
-    fromName: string,
-    replyTo: string
-  ): Promise<MailChimpCampaignApiResponse> {
+    type: "saved" | "static",
+    count: number,
+    offset: number
+  ): Promise<MailChimpSegmentsApiResponse> {
     try {
-      const response = await axios.post(
-        `https://${datacenter}.api.mailchimp.com/3.0/campaigns`,
+      return await this.client.get<MailChimpSegmentsApiResponse>(
+        accessToken,
+        datacenter,
+        `/lists/${listId}/segments`,
         {
-          type: "regular",
-          recipients: {
-            list_id: listId,
+          params: {
+            type,
+            count,
+            offset,
           },
-          settings: {
-            subject_line: subject,
-            from_name: fromName,
-            reply_to: replyTo,
-            title: `Campaign - ${subject}`,
+        }
+      );
+    } catch (error: any) {
+      console.error(
+        "Segments fetch error:",
+        error.response?.data || error.message
+      );
+      throw fromMailChimpError(
+        error,
+        type === "static"
+          ? "Failed to fetch list tags"
+          : "Failed to fetch list segments"
+      );
+    }
+  }
+
+  // Get a list's interest categories (groups)
+  async getInterestCategories(
+    accessToken: string,
+    datacenter: string,
+    listId: string
+  ): Promise<MailChimpInterestCategoriesApiResponse> {
+    try {
+      return await this.client.get<MailChimpInterestCategoriesApiResponse>(
+        accessToken,
+        datacenter,
+        `/lists/${listId}/interest-categories`,
+        {
+          params: {
+            count: AUDIENCE_MAX_PAGE_SIZE,
           },
-        },
+        }
+      );
+    } catch (error: any) {
+      console.error(
+        "Interest categories fetch error:",
+        error.response?.data || error.message
+      );
+      throw fromMailChimpError(error, "Failed to fetch interest categories");
+    }
+  }
+
+  // Get the interests within an interest category
+  async getInterests(
+    accessToken: string,
+    datacenter: string,
+    listId: string,
+    categoryId: string
+  ): Promise<MailChimpInterestsApiResponse> {
+    try {
+      return await this.client.get<MailChimpInterestsApiResponse>(
+        accessToken,
+        datacenter,
+        `/lists/${listId}/interest-categories/${categoryId}/interests`,
         {
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-            "Content-Type": "application/json",
+          params: {
+            count: AUDIENCE_MAX_PAGE_SIZE,
           },
         }
       );
+    } catch (error: any) {
+      console.error(
+        "Interests fetch error:",
+        error.response?.data || error.message
+      );
+      throw fromMailChimpError(error, "Failed to fetch interests");
+    }
+  }
 
-      return response.data;
+  // Get an interest category, or null if it doesn't exist
+  async getInterestCategory(
+    accessToken: string,
+    datacenter: string,
+    listId: string,
+    categoryId: string
+  ): Promise<MailChimpInterestCategoryApiResponse | null> {
+    try {
+      return await this.client.get<MailChimpInterestCategoryApiResponse>(
+        accessToken,
+        datacenter,
+        `/lists/${listId}/interest-categories/${categoryId}`
+      );
     } catch (error: any) {
+      if (error.response?.status === 404) {
+        return null;
+      }
       console.error(
-        "Campaign creation error:",
+        "Interest category fetch error:",
         error.response?.data || error.message
       );
-      throw new Error("Failed to create campaign");
+      throw fromMailChimpError(error, "Failed to fetch interest category");
     }
   }
 
-  // Set campaign content
-  async setCampaignContent(
+  // Create an interest category (group) on a list
+  async createInterestCategory(
     accessToken: string,
     datacenter: string,
-    campaignId: string,
-    htmlContent: string
-  ): Promise<void> {
+    listId: string,
+    category: {
+      title: string;
+      type: InterestCategoryType;
+      displayOrder?: number;
+    }
+  ): Promise<MailChimpInterestCategoryApiResponse> {
     try {
-      await axios.put(
-        `https://${datacenter}.api.mailchimp.com/3.0/campaigns/${campaignId}/content`,
+      return await this.client.post<MailChimpInterestCategoryApiResponse>(
+        accessToken,
+        datacenter,
+        `/lists/${listId}/interest-categories`,
         {
-          html: htmlContent,
-        },
+          title: category.title,
+          type: category.type,
+          display_order: category.displayOrder,
+        }
+      );
+    } catch (error: any) {
+      console.error(
+        "Interest category create error:",
+        error.response?.data || error.message
+      );
+      throw fromMailChimpError(error, "Failed to create interest category");
+    }
+  }
+
+  // Update an interest category. MailChimp requires title and type on every update
+  async updateInterestCategory(
+    accessToken: string,
+    datacenter: string,
+    listId: string,
+    categoryId: string,
+    category: {
+      title: string;
+      type: InterestCategoryType;
+      displayOrder?: number;
+    }
+  ): Promise<MailChimpInterestCategoryApiResponse> {
+    try {
+      return await this.client.patch<MailChimpInterestCategoryApiResponse>(
+        accessToken,
+        datacenter,
+        `/lists/${listId}/interest-categories/${categoryId}`,
         {
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-            "Content-Type": "application/json",
-          },
+          title: category.title,
+          type: category.type,
+          display_order: category.displayOrder,
         }
       );
     } catch (error: any) {
       console.error(
-        "Campaign content error:",
+        "Interest category update error:",
         error.response?.data || error.message
       );
-      throw new Error("Failed to set campaign content");
+      throw fromMailChimpError(error, "Failed to update interest category");
     }
   }
 
-  // Send campaign
-  async sendCampaign(
+  // Delete an interest category and its interests; false if it doesn't exist
+  async deleteInterestCategory(
     accessToken: string,
     datacenter: string,
-    campaignId: string
-  ): Promise<void> {
+    listId: string,
+    categoryId: string
+  ): Promise<boolean> {
+    try {
+      await this.client.delete(
+        accessToken,
+        datacenter,
+        `/lists/${listId}/interest-categories/${categoryId}`
+      );
+      return true;
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        return false;
+      }
+      console.error(
+        "Interest category delete error:",
+        error.response?.data || error.message
+      );
+      throw fromMailChimpError(error, "Failed to delete interest category");
+    }
+  }
+
+  // Get an interest, or null if it doesn't exist
+  async getInterest(
+    accessToken: string,
+    datacenter: string,
+    listId: string,
+    categoryId: string,
+    interestId: string
+  ): Promise<MailChimpInterestApiResponse | null> {
+    try {
+      return await this.client.get<MailChimpInterestApiResponse>(
+        accessToken,
+        datacenter,
+        `/lists/${listId}/interest-categories/${categoryId}/interests/${interestId}`
+      );
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        return null;
+      }
+      console.error(
+        "Interest fetch error:",
+        error.response?.data || error.message
+      );
+      throw fromMailChimpError(error, "Failed to fetch interest");
+    }
+  }
+
+  // Add an interest to an interest category
+  async createInterest(
+    accessToken: string,
+    datacenter: string,
+    listId: string,
+    categoryId: string,
+    interest: { name: string; displayOrder?: number }
+  ): Promise<MailChimpInterestApiResponse> {
     try {
-      await axios.post(
-        `https://${datacenter}.api.mailchimp.com/3.0/campaigns/${campaignId}/actions/send`,
-        {},
+      return await this.client.post<MailChimpInterestApiResponse>(
+        accessToken,
+        datacenter,
+        `/lists/${listId}/interest-categories/${categoryId}/interests`,
         {
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
+          name: interest.name,
+          display_order: interest.displayOrder,
+        }
+      );
+    } catch (error: any) {
+      console.error(
+        "Interest create error:",
+        error.response?.data || error.message
+      );
+      throw fromMailChimpError(error, "Failed to create interest");
+    }
+  }
+
+  // Update an interest. MailChimp requires the name on every update
+  async updateInterest(
+    accessToken: string,
+    datacenter: string,
+    listId: string,
+    categoryId: string,
+    interestId: string,
+    interest: { name: string; displayOrder?: number }
+  ): Promise<MailChimpInterestApiResponse> {
+    try {
+      return await this.client.patch<MailChimpInterestApiResponse>(
+        accessToken,
+        datacenter,
+        `/lists/${listId}/interest-categories/${categoryId}/interests/${interestId}`,
+        {
+          name: interest.name,
+          display_order: interest.displayOrder,
+        }
+      );
+    } catch (error: any) {
+      console.error(
+        "Interest update error:",
+        error.response?.data || error.message
+      );
+      throw fromMailChimpError(error, "Failed to update interest");
+    }
+  }
+
+  // Delete an interest; false if it doesn't exist
+  async deleteInterest(
+    accessToken: string,
+    datacenter: string,
+    listId: string,
+    categoryId: string,
+    interestId: string
+  ): Promise<boolean> {
+    try {
+      await this.client.delete(
+        accessToken,
+        datacenter,
+        `/lists/${listId}/interest-categories/${categoryId}/interests/${interestId}`
+      );
+      return true;
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        return false;
+      }
+      console.error(
+        "Interest delete error:",
+        error.response?.data || error.message
+      );
+      throw fromMailChimpError(error, "Failed to delete interest");
+    }
+  }
+
+  // Get one page of a list's merge fields
+  async getMergeFields(
+    accessToken: string,
+    datacenter: string,
+    listId: string,
+    count: number,
+    offset: number
+  ): Promise<MailChimpMergeFieldsApiResponse> {
+    try {
+      return await this.client.get<MailChimpMergeFieldsApiResponse>(
+        accessToken,
+        datacenter,
+        `/lists/${listId}/merge-fields`,
+        {
+          params: {
+            count,
+            offset,
           },
         }
       );
     } catch (error: any) {
       console.error(
-        "Campaign send error:",
+        "Merge fields fetch error:",
+        error.response?.data || error.message
+      );
+      throw fromMailChimpError(error, "Failed to fetch merge fields");
+    }
+  }
+
+  // Get a merge field, or null if it doesn't exist
+  async getMergeField(
+    accessToken: string,
+    datacenter: string,
+    listId: string,
+    mergeId: number
+  ): Promise<MailChimpMergeFieldApiResponse | null> {
+    try {
+      return await this.client.get<MailChimpMergeFieldApiResponse>(
+        accessToken,
+        datacenter,
+        `/lists/${listId}/merge-fields/${mergeId}`
+      );
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        return null;
+      }
+      console.error(
+        "Merge field fetch error:",
+        error.response?.data || error.message
+      );
+      throw fromMailChimpError(error, "Failed to fetch merge field");
+    }
+  }
+
+  // Create a merge field on a list
+  async createMergeField(
+    accessToken: string,
+    datacenter: string,
+    listId: string,
+    field: Omit<CreateMergeFieldRequest, "accountId">
+  ): Promise<MailChimpMergeFieldApiResponse> {
+    try {
+      return await this.client.post<MailChimpMergeFieldApiResponse>(
+        accessToken,
+        datacenter,
+        `/lists/${listId}/merge-fields`,
+        toMergeFieldBody(field)
+      );
+    } catch (error: any) {
+      console.error(
+        "Merge field create error:",
+        error.response?.data || error.message
+      );
+      throw fromMailChimpError(error, "Failed to create merge field");
+    }
+  }
+
+  // Update a merge field. MailChimp requires the name on every update
+  async updateMergeField(
+    accessToken: string,
+    datacenter: string,
+    listId: string,
+    mergeId: number,
+    field: Partial<Omit<CreateMergeFieldRequest, "accountId" | "type">> & {
+      name: string;
+    }
+  ): Promise<MailChimpMergeFieldApiResponse> {
+    try {
+      return await this.client.patch<MailChimpMergeFieldApiResponse>(
+        accessToken,
+        datacenter,
+        `/lists/${listId}/merge-fields/${mergeId}`,
+        toMergeFieldBody(field)
+      );
+    } catch (error: any) {
+      console.error(
+        "Merge field update error:",
+        error.response?.data || error.message
+      );
+      throw fromMailChimpError(error, "Failed to update merge field");
+    }
+  }
+
+  // Delete a merge field; false if it doesn't exist
+  async deleteMergeField(
+    accessToken: string,
+    datacenter: string,
+    listId: string,
+    mergeId: number
+  ): Promise<boolean> {
+    try {
+      await this.client.delete(
+        accessToken,
+        datacenter,
+        `/lists/${listId}/merge-fields/${mergeId}`
+      );
+      return true;
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        return false;
+      }
+      console.error(
+        "Merge field delete error:",
+        error.response?.data || error.message
+      );
+      throw fromMailChimpError(error, "Failed to delete merge field");
+    }
+  }
+
+  // Register a webhook on a list. MailChimp checks the URL with a GET first
+  async createListWebhook(
+    accessToken: string,
+    datacenter: string,
+    listId: string,
+    url: string,
+    events: WebhookEventType[],
+    sources: WebhookSource[]
+  ): Promise<MailChimpWebhookApiResponse> {
+    try {
+      return await this.client.post<MailChimpWebhookApiResponse>(
+        accessToken,
+        datacenter,
+        `/lists/${listId}/webhooks`,
+        {
+          url,
+          events: Object.fromEntries(
+            WEBHOOK_EVENT_TYPES.map((type) => [type, events.includes(type)])
+          ),
+          sources: Object.fromEntries(
+            WEBHOOK_SOURCES.map((source) => [source, sources.includes(source)])
+          ),
+        }
+      );
+    } catch (error: any) {
+      console.error(
+        "Webhook create error:",
+        error.response?.data || error.message
+      );
+      throw fromMailChimpError(error, "Failed to register webhook");
+    }
+  }
+
+  // Remove a webhook from a list; false if it doesn't exist
+  async deleteListWebhook(
+    accessToken: string,
+    datacenter: string,
+    listId: string,
+    webhookId: string
+  ): Promise<boolean> {
+    try {
+      await this.client.delete(
+        accessToken,
+        datacenter,
+        `/lists/${listId}/webhooks/${webhookId}`
+      );
+      return true;
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        return false;
+      }
+      console.error(
+        "Webhook delete error:",
+        error.response?.data || error.message
+      );
+      throw fromMailChimpError(error, "Failed to unregister webhook");
+    }
+  }
+
+  // Add a new member to a list
+  async addListMember(
+    accessToken: string,
+    datacenter: string,
+    listId: string,
+    email: string,
+    status: MemberStatus,
+    mergeFields?: MergeFields
+  ): Promise<MailChimpMemberApiResponse> {
+    try {
+      return await this.client.post<MailChimpMemberApiResponse>(
+        accessToken,
+        datacenter,
+        `/lists/${listId}/members`,
+        {
+          email_address: email,
+          status,
+          merge_fields: mergeFields,
+        }
+      );
+    } catch (error: any) {
+      console.error("Member add error:", error.response?.data || error.message);
+      throw fromMailChimpError(error, "Failed to add list member");
+    }
+  }
+
+  // Add a member, or update it if the email is already on the list. New
+  // members get `statusIfNew`; an existing member's status only changes when
+  // `status` is given, so unsubscribed and cleaned contacts stay that way.
+  async upsertListMember(
+    accessToken: string,
+    datacenter: string,
+    listId: string,
+    email: string,
+    statusIfNew: MemberStatus,
+    mergeFields?: MergeFields,
+    status?: MemberStatus
+  ): Promise<MailChimpMemberApiResponse> {
+    try {
+      return await this.client.put<MailChimpMemberApiResponse>(
+        accessToken,
+        datacenter,
+        `/lists/${listId}/members/${getSubscriberHash(email)}`,
+        {
+          email_address: email,
+          status_if_new: statusIfNew,
+          status,
+          merge_fields: mergeFields,
+        }
+      );
+    } catch (error: any) {
+      console.error(
+        "Member upsert error:",
+        error.response?.data || error.message
+      );
+      throw fromMailChimpError(error, "Failed to upsert list member");
+    }
+  }
+
+  // Get a single list member by subscriber hash
+  async getListMember(
+    accessToken: string,
+    datacenter: string,
+    listId: string,
+    subscriberHash: string
+  ): Promise<MailChimpMemberApiResponse> {
+    try {
+      return await this.client.get<MailChimpMemberApiResponse>(
+        accessToken,
+        datacenter,
+        `/lists/${listId}/members/${subscriberHash}`
+      );
+    } catch (error: any) {
+      console.error(
+        "Member fetch error:",
+        error.response?.data || error.message
+      );
+      throw fromMailChimpError(error, "Failed to fetch list member");
+    }
+  }
+
+  // Update a list member's status and/or merge fields
+  async updateListMember(
+    accessToken: string,
+    datacenter: string,
+    listId: string,
+    subscriberHash: string,
+    changes: { status?: MemberStatus; mergeFields?: MergeFields }
+  ): Promise<MailChimpMemberApiResponse> {
+    try {
+      return await this.client.patch<MailChimpMemberApiResponse>(
+        accessToken,
+        datacenter,
+        `/lists/${listId}/members/${subscriberHash}`,
+        {
+          status: changes.status,
+          merge_fields: changes.mergeFields,
+        }
+      );
+    } catch (error: any) {
+      console.error(
+        "Member update error:",
+        error.response?.data || error.message
+      );
+      throw fromMailChimpError(error, "Failed to update list member");
+    }
+  }
+
+  // Unsubscribe a list member
+  async unsubscribeListMember(
+    accessToken: string,
+    datacenter: string,
+    listId: string,
+    subscriberHash: string
+  ): Promise<MailChimpMemberApiResponse> {
+    return this.updateListMember(
+      accessToken,
+      datacenter,
+      listId,
+      subscriberHash,
+      { status: "unsubscribed" }
+    );
+  }
+
+  // Archive a list member (MailChimp keeps the contact's history)
+  async archiveListMember(
+    accessToken: string,
+    datacenter: string,
+    listId: string,
+    subscriberHash: string
+  ): Promise<void> {
+    try {
+      await this.client.delete(
+        accessToken,
+        datacenter,
+        `/lists/${listId}/members/${subscriberHash}`
+      );
+    } catch (error: any) {
+      console.error(
+        "Member archive error:",
+        error.response?.data || error.message
+      );
+      throw fromMailChimpError(error, "Failed to archive list member");
+    }
+  }
+
+  // Add or update up to 500 members in one call
+  async batchSubscribe(
+    accessToken: string,
+    datacenter: string,
+    listId: string,
+    rows: ImportRow[],
+    updateExisting: boolean
+  ): Promise<MailChimpBatchSubscribeApiResponse> {
+    try {
+      return await this.client.post<MailChimpBatchSubscribeApiResponse>(
+        accessToken,
+        datacenter,
+        `/lists/${listId}`,
+        {
+          members: rows.map((row) => ({
+            email_address: row.email,
+            // Rows without a status are added as new subscribers
+            status: row.status ?? "subscribed",
+            merge_fields: row.mergeFields,
+          })),
+          update_existing: updateExisting,
+        },
+        { timeoutMs: IMPORT_BATCH_TIMEOUT_MS }
+      );
+    } catch (error: any) {
+      console.error(
+        "Batch subscribe error:",
+        error.response?.data || error.message
+      );
+      throw fromMailChimpError(error, "Failed to batch subscribe members");
+    }
+  }
+
+  // Create campaign
+  async createCampaign(
+    accessToken: string,
+    datacenter: string,
+    listId: string,
+    subject: string,
+    fromName: string,
+    replyTo: string,
+    segmentOpts?: MailChimpSegmentOpts
+  ): Promise<MailChimpCampaignApiResponse> {
+    try {
+      return await this.client.post<MailChimpCampaignApiResponse>(
+        accessToken,
+        datacenter,
+        "/campaigns",
+        {
+          type: "regular",
+          recipients: {
+            list_id: listId,
+            segment_opts: segmentOpts,
+          },
+          settings: {
+            subject_line: subject,
+            from_name: fromName,
+            reply_to: replyTo,
+            title: `Campaign - ${subject}`,
+          },
+        }
+      );
+    } catch (error: any) {
+      console.error(
+        "Campaign creation error:",
+        error.response?.data || error.message
+      );
+      throw fromMailChimpError(error, "Failed to create campaign");
+    }
+  }
+
+  // Get a campaign, or null if it doesn't exist
+  async getCampaign(
+    accessToken: string,
+    datacenter: string,
+    campaignId: string
+  ): Promise<MailChimpCampaignApiResponse | null> {
+    try {
+      return await this.client.get<MailChimpCampaignApiResponse>(
+        accessToken,
+        datacenter,
+        `/campaigns/${campaignId}`
+      );
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        return null;
+      }
+      console.error(
+        "Campaign fetch error:",
+        error.response?.data || error.message
+      );
+      throw fromMailChimpError(error, "Failed to fetch campaign");
+    }
+  }
+
+  // Get a campaign's content
+  async getCampaignContent(
+    accessToken: string,
+    datacenter: string,
+    campaignId: string
+  ): Promise<MailChimpCampaignContentApiResponse> {
+    try {
+      return await this.client.get<MailChimpCampaignContentApiResponse>(
+        accessToken,
+        datacenter,
+        `/campaigns/${campaignId}/content`
+      );
+    } catch (error: any) {
+      console.error(
+        "Campaign content fetch error:",
+        error.response?.data || error.message
+      );
+      throw fromMailChimpError(error, "Failed to fetch campaign content");
+    }
+  }
+
+  // Update a campaign's subject, sender name and/or reply-to address
+  async updateCampaignSettings(
+    accessToken: string,
+    datacenter: string,
+    campaignId: string,
+    changes: { subject?: string; fromName?: string; replyTo?: string }
+  ): Promise<MailChimpCampaignApiResponse> {
+    try {
+      return await this.client.patch<MailChimpCampaignApiResponse>(
+        accessToken,
+        datacenter,
+        `/campaigns/${campaignId}`,
+        {
+          settings: {
+            subject_line: changes.subject,
+            from_name: changes.fromName,
+            reply_to: changes.replyTo,
+            title: changes.subject
+              ? `Campaign - ${changes.subject}`
+              : undefined,
+          },
+        }
+      );
+    } catch (error: any) {
+      console.error(
+        "Campaign update error:",
+        error.response?.data || error.message
+      );
+      throw fromMailChimpError(error, "Failed to update campaign");
+    }
+  }
+
+  // Change who a campaign goes to (null targets the whole list)
+  async updateCampaignRecipients(
+    accessToken: string,
+    datacenter: string,
+    campaignId: string,
+    listId: string,
+    segmentOpts: MailChimpSegmentOpts | null
+  ): Promise<MailChimpCampaignApiResponse> {
+    try {
+      return await this.client.patch<MailChimpCampaignApiResponse>(
+        accessToken,
+        datacenter,
+        `/campaigns/${campaignId}`,
+        {
+          recipients: {
+            list_id: listId,
+            segment_opts: segmentOpts || { match: "all", conditions: [] },
+          },
+        }
+      );
+    } catch (error: any) {
+      console.error(
+        "Campaign recipients update error:",
+        error.response?.data || error.message
+      );
+      throw fromMailChimpError(error, "Failed to update campaign recipients");
+    }
+  }
+
+  // Count the subscribed members a targeting would reach. Whole lists, saved
+  // segments and a single tag report their own counts. MailChimp can only
+  // count other conditions as a saved segment, so those are counted with a
+  // temporary one that is deleted afterwards; its name marks it so one left
+  // behind by a failed delete is removed by a later preview.
+  async previewRecipientCount(
+    accessToken: string,
+    datacenter: string,
+    listId: string,
+    segmentOpts?: MailChimpSegmentOpts
+  ): Promise<{ recipientCount: number }> {
+    const [condition, ...otherConditions] = segmentOpts?.conditions || [];
+    const segmentId =
+      segmentOpts?.saved_segment_id ??
+      (condition?.condition_type === "StaticSegment" &&
+      otherConditions.length === 0
+        ? Number(condition.value)
+        : undefined);
+    let segment: MailChimpSegmentApiResponse;
+
+    try {
+      if (!segmentOpts) {
+        const list = await this.client.get<MailChimpListApiResponse>(
+          accessToken,
+          datacenter,
+          `/lists/${listId}`,
+          { params: { fields: "stats.member_count" } }
+        );
+        return { recipientCount: list.stats.member_count };
+      }
+
+      if (segmentId !== undefined) {
+        segment = await this.client.get<MailChimpSegmentApiResponse>(
+          accessToken,
+          datacenter,
+          `/lists/${listId}/segments/${segmentId}`,
+          { params: { fields: "member_count" } }
+        );
+        return { recipientCount: segment.member_count };
+      }
+
+      await this.deleteStalePreviewSegments(accessToken, datacenter, listId);
+
+      segment = await this.client.post<MailChimpSegmentApiResponse>(
+        accessToken,
+        datacenter,
+        `/lists/${listId}/segments`,
+        {
+          name: `${PREVIEW_SEGMENT_PREFIX}${new Date().toISOString()}`,
+          options: {
+            match: segmentOpts.match,
+            conditions: segmentOpts.conditions,
+          },
+        }
+      );
+    } catch (error: any) {
+      console.error(
+        "Recipient preview error:",
+        error.response?.data || error.message
+      );
+      throw fromMailChimpError(error, "Failed to preview recipients");
+    }
+
+    try {
+      await this.client.delete(
+        accessToken,
+        datacenter,
+        `/lists/${listId}/segments/${segment.id}`
+      );
+    } catch (error: any) {
+      // The next preview on this list removes it
+      console.error(
+        "Preview segment delete error:",
+        error.response?.data || error.message
+      );
+    }
+
+    return { recipientCount: segment.member_count };
+  }
+
+  // Remove temporary preview segments left behind on a list. Recent ones may
+  // belong to a preview still running, so they are kept.
+  private async deleteStalePreviewSegments(
+    accessToken: string,
+    datacenter: string,
+    listId: string
+  ): Promise<void> {
+    try {
+      const { segments } = await this.client.get<MailChimpSegmentsApiResponse>(
+        accessToken,
+        datacenter,
+        `/lists/${listId}/segments`,
+        {
+          params: {
+            type: "saved",
+            count: 1000,
+            fields: "segments.id,segments.name,segments.created_at",
+          },
+        }
+      );
+      const staleBefore = Date.now() - PREVIEW_SEGMENT_STALE_MS;
+
+      for (const segment of segments) {
+        if (
+          segment.name.startsWith(PREVIEW_SEGMENT_PREFIX) &&
+          Date.parse(segment.created_at) < staleBefore
+        ) {
+          await this.client.delete(
+            accessToken,
+            datacenter,
+            `/lists/${listId}/segments/${segment.id}`
+          );
+        }
+      }
+    } catch (error: any) {
+      // Cleanup is best effort; the preview itself can still go ahead
+      console.error(
+        "Preview segment cleanup error:",
+        error.response?.data || error.message
+      );
+    }
+  }
+
+  // Delete a campaign
+  async deleteCampaign(
+    accessToken: string,
+    datacenter: string,
+    campaignId: string
+  ): Promise<void> {
+    try {
+      await this.client.delete(
+        accessToken,
+        datacenter,
+        `/campaigns/${campaignId}`
+      );
+    } catch (error: any) {
+      console.error(
+        "Campaign delete error:",
+        error.response?.data || error.message
+      );
+      throw fromMailChimpError(error, "Failed to delete campaign");
+    }
+  }
+
+  // Set campaign content
+  async setCampaignContent(
+    accessToken: string,
+    datacenter: string,
+    campaignId: string,
+    htmlContent: string
+  ): Promise<void> {
+    try {
+      await this.client.put(
+        accessToken,
+        datacenter,
+        `/campaigns/${campaignId}/content`,
+        {
+          html: htmlContent,
+        }
+      );
+    } catch (error: any) {
+      console.error(
+        "Campaign content error:",
+        error.response?.data || error.message
+      );
+      throw fromMailChimpError(error, "Failed to set campaign content");
+    }
+  }
+
+  // Run MailChimp's pre-send checklist for a campaign
+  async getSendChecklist(
+    accessToken: string,
+    datacenter: string,
+    campaignId: string
+  ): Promise<CampaignChecklist> {
+    try {
+      const data = await this.client.get<MailChimpSendChecklistApiResponse>(
+        accessToken,
+        datacenter,
+        `/campaigns/${campaignId}/send-checklist`
+      );
+
+      const toItem = ({
+        id,
+        heading,
+        details,
+      }: MailChimpSendChecklistApiResponse["items"][number]) => ({
+        id,
+        heading,
+        details,
+      });
+
+      return {
+        isReady: data.is_ready,
+        errors: data.items.filter((item) => item.type === "error").map(toItem),
+        warnings: data.items
+          .filter((item) => item.type === "warning")
+          .map(toItem),
+      };
+    } catch (error: any) {
+      console.error(
+        "Send checklist error:",
+        error.response?.data || error.message
+      );
+      throw fromMailChimpError(
+        error,
+        "Failed to fetch campaign send checklist"
+      );
+    }
+  }
+
+  // Send campaign
+  async sendCampaign(
+    accessToken: string,
+    datacenter: string,
+    campaignId: string
+  ): Promise<void> {
+    try {
+      await this.client.post(
+        accessToken,
+        datacenter,
+        `/campaigns/${campaignId}/actions/send`
+      );
+    } catch (error: any) {
+      console.error(
+        "Campaign send error:",
+        error.response?.data || error.message
+      );
+      throw fromMailChimpError(error, "Failed to send campaign");
+    }
+  }
+
+  // Schedule a campaign, optionally with Timewarp or batch delivery
+  async scheduleCampaign(
+    accessToken: string,
+    datacenter: string,
+    campaignId: string,
+    scheduleTime: Date,
+    options: { timewarp?: boolean; batchDelivery?: BatchDelivery } = {}
+  ): Promise<void> {
+    try {
+      await this.client.post(
+        accessToken,
+        datacenter,
+        `/campaigns/${campaignId}/actions/schedule`,
+        {
+          schedule_time: scheduleTime.toISOString(),
+          timewarp: options.timewarp || false,
+          batch_delivery: options.batchDelivery && {
+            batch_delay: options.batchDelivery.batchDelay,
+            batch_count: options.batchDelivery.batchCount,
+          },
+        }
+      );
+    } catch (error: any) {
+      console.error(
+        "Campaign schedule error:",
+        error.response?.data || error.message
+      );
+      throw fromMailChimpError(error, "Failed to schedule campaign");
+    }
+  }
+
+  // Unschedule a campaign, returning it to draft
+  async unscheduleCampaign(
+    accessToken: string,
+    datacenter: string,
+    campaignId: string
+  ): Promise<void> {
+    try {
+      await this.client.post(
+        accessToken,
+        datacenter,
+        `/campaigns/${campaignId}/actions/unschedule`
+      );
+    } catch (error: any) {
+      console.error(
+        "Campaign unschedule error:",
+        error.response?.data || error.message
+      );
+      throw fromMailChimpError(error, "Failed to unschedule campaign");
+    }
+  }
+
+  // Send a test email of a campaign to the given addresses
+  async sendTestEmail(
+    accessToken: string,
+    datacenter: string,
+    campaignId: string,
+    emails: string[],
+    sendType: TestSendType
+  ): Promise<void> {
+    try {
+      await this.client.post(
+        accessToken,
+        datacenter,
+        `/campaigns/${campaignId}/actions/test`,
+        {
+          test_emails: emails,
+          send_type: sendType,
+        }
+      );
+    } catch (error: any) {
+      console.error(
+        "Campaign test error:",
+        error.response?.data || error.message
+      );
+      throw fromMailChimpError(error, "Failed to send test email");
+    }
+  }
+
+  // Get one page of sent campaign reports
+  async getCampaignReports(
+    accessToken: string,
+    datacenter: string,
+    count: number,
+    offset: number
+  ): Promise<MailChimpReportsApiResponse> {
+    try {
+      return await this.client.get<MailChimpReportsApiResponse>(
+        accessToken,
+        datacenter,
+        "/reports",
+        {
+          params: {
+            count,
+            offset,
+          },
+        }
+      );
+    } catch (error: any) {
+      console.error(
+        "Reports fetch error:",
+        error.response?.data || error.message
+      );
+      throw fromMailChimpError(error, "Failed to fetch campaign reports");
+    }
+  }
+
+  // Get a campaign's report, or null if the campaign has no report
+  async getCampaignReport(
+    accessToken: string,
+    datacenter: string,
+    campaignId: string
+  ): Promise<MailChimpReportApiResponse | null> {
+    try {
+      return await this.client.get<MailChimpReportApiResponse>(
+        accessToken,
+        datacenter,
+        `/reports/${campaignId}`
+      );
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        return null;
+      }
+      console.error(
+        "Report fetch error:",
+        error.response?.data || error.message
+      );
+      throw fromMailChimpError(error, "Failed to fetch campaign report");
+    }
+  }
+
+  // Get one page of per-link click statistics for a campaign
+  async getCampaignClickDetails(
+    accessToken: string,
+    datacenter: string,
+    campaignId: string,
+    count: number,
+    offset: number
+  ): Promise<MailChimpClickDetailsApiResponse | null> {
+    try {
+      return await this.client.get<MailChimpClickDetailsApiResponse>(
+        accessToken,
+        datacenter,
+        `/reports/${campaignId}/click-details`,
+        {
+          params: {
+            count,
+            offset,
+          },
+        }
+      );
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        return null;
+      }
+      console.error(
+        "Click details fetch error:",
         error.response?.data || error.message
       );
-      throw new Error("Failed to send campaign");
+      throw fromMailChimpError(error, "Failed to fetch campaign click details");
     }
   }
 }
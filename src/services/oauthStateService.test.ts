@@ -0,0 +1,81 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import os from "os";
+import path from "path";
+import { promises as fs } from "fs";
+import { OAuthStateError, OAuthStateService } from "./oauthStateService";
+import { FileOAuthStateStore, MemoryOAuthStateStore } from "./oauthStateStore";
+
+// The code of the OAuthStateError a call rejects with
+const rejection = async (promise: Promise<unknown>) => {
+  try {
+    await promise;
+  } catch (error) {
+    assert.ok(error instanceof OAuthStateError);
+    return error.code;
+  }
+  assert.fail("expected an OAuthStateError");
+};
+
+test("a state can be used once, by the client it was issued to", async () => {
+  const service = new OAuthStateService(new MemoryOAuthStateStore());
+  const { state } = await service.createState("binding", "session-1");
+
+  assert.equal(
+    await rejection(service.consumeState(state, "other")),
+    "state_mismatch"
+  );
+
+  const record = await service.consumeState(state, "binding");
+  assert.equal(record.sessionId, "session-1");
+  assert.ok(record.consumedAt);
+
+  assert.equal(
+    await rejection(service.consumeState(state, "binding")),
+    "replayed_state"
+  );
+  assert.equal(
+    await rejection(service.consumeState("unknown", "binding")),
+    "invalid_state"
+  );
+  assert.equal(
+    await rejection(service.consumeState(undefined, "binding")),
+    "missing_state"
+  );
+});
+
+test("concurrent callbacks can't both use a state", async () => {
+  const service = new OAuthStateService(new MemoryOAuthStateStore());
+  const { state } = await service.createState("binding");
+
+  const results = await Promise.allSettled([
+    service.consumeState(state, "binding"),
+    service.consumeState(state, "binding"),
+  ]);
+
+  assert.deepEqual(results.map((result) => result.status).sort(), [
+    "fulfilled",
+    "rejected",
+  ]);
+});
+
+test("file-stored states survive a restart", async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "oauth-states-"));
+  const filePath = path.join(dir, "states.json");
+
+  try {
+    const { state } = await new OAuthStateService(
+      new FileOAuthStateStore(filePath)
+    ).createState("binding");
+
+    // A new process reading the same file
+    const restarted = new OAuthStateService(new FileOAuthStateStore(filePath));
+    assert.ok(await restarted.consumeState(state, "binding"));
+    assert.equal(
+      await rejection(restarted.consumeState(state, "binding")),
+      "replayed_state"
+    );
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
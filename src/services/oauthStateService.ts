@@ -0,0 +1,126 @@
+import crypto from "crypto";
+import { ValidationError } from "../utils/errors";
+import { OAuthStateRecord } from "../types/mailchimp";
+import { OAuthStateStore, createOAuthStateStore } from "./oauthStateStore";
+import {
+  getMailChimpConfig,
+  MAILCHIMP_AUTHORIZE_URL,
+  OAUTH_STATE_TTL_MS,
+} from "../config/mailchimp";
+
+export type OAuthStateErrorCode =
+  | "missing_state"
+  | "invalid_state"
+  | "expired_state"
+  | "replayed_state"
+  | "state_mismatch";
+
+export class OAuthStateError extends ValidationError {
+  constructor(public code: OAuthStateErrorCode, message: string) {
+    super(message, [], code);
+    this.name = "OAuthStateError";
+  }
+}
+
+// Shared state storage, selected via OAUTH_STATE_STORE (states are
+// short-lived and single-use)
+const defaultOAuthStateStore = createOAuthStateStore();
+
+const hashBinding = (binding: string): string =>
+  crypto.createHash("sha256").update(binding).digest("hex");
+
+export class OAuthStateService {
+  private config = getMailChimpConfig();
+
+  constructor(private store: OAuthStateStore = defaultOAuthStateStore) {}
+
+  // Generate a random value used to bind a state to the caller's browser
+  generateBinding(): string {
+    return crypto.randomBytes(32).toString("base64url");
+  }
+
+  // Mint a single-use state bound to the caller (and to its session, if any)
+  async createState(
+    binding: string,
+    sessionId?: string
+  ): Promise<{ state: string; expiresAt: Date }> {
+    const state = crypto.randomBytes(32).toString("base64url");
+    const createdAt = new Date();
+    const expiresAt = new Date(createdAt.getTime() + OAUTH_STATE_TTL_MS);
+
+    await this.store.add(state, {
+      bindingHash: hashBinding(binding),
+      sessionId,
+      createdAt,
+      expiresAt,
+    });
+
+    return { state, expiresAt };
+  }
+
+  // Build the MailChimp authorization URL for a given state
+  buildAuthorizeUrl(state: string): string {
+    const params = new URLSearchParams({
+      response_type: "code",
+      client_id: this.config.clientId,
+      redirect_uri: this.config.redirectUri,
+      state,
+    });
+
+    return `${MAILCHIMP_AUTHORIZE_URL}?${params.toString()}`;
+  }
+
+  // Validate and consume a state; throws OAuthStateError when it can't be used
+  async consumeState(
+    state: unknown,
+    binding: unknown
+  ): Promise<OAuthStateRecord> {
+    if (!state || typeof state !== "string") {
+      throw new OAuthStateError("missing_state", "OAuth state is required");
+    }
+
+    const record = await this.store.get(state);
+
+    if (!record) {
+      throw new OAuthStateError("invalid_state", "OAuth state is not recognized");
+    }
+
+    if (record.consumedAt) {
+      throw new OAuthStateError(
+        "replayed_state",
+        "OAuth state has already been used"
+      );
+    }
+
+    if (record.expiresAt.getTime() <= Date.now()) {
+      await this.store.delete(state);
+      throw new OAuthStateError("expired_state", "OAuth state has expired");
+    }
+
+    if (
+      !binding ||
+      typeof binding !== "string" ||
+      !crypto.timingSafeEqual(
+        Buffer.from(hashBinding(binding), "hex"),
+        Buffer.from(record.bindingHash, "hex")
+      )
+    ) {
+      throw new OAuthStateError(
+        "state_mismatch",
+        "OAuth state was not issued to this client"
+      );
+    }
+
+    // Keep the consumed record until it expires so replays can be detected.
+    // A callback racing this one may have used the state since it was read.
+    const consumedAt = new Date();
+    if (!(await this.store.markConsumed(state, consumedAt))) {
+      throw new OAuthStateError(
+        "replayed_state",
+        "OAuth state has already been used"
+      );
+    }
+
+    return { ...record, consumedAt };
+  }
+}
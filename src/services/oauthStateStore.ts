@@ -0,0 +1,118 @@
+import { OAuthStateRecord, StoredOAuthStateRecord } from "../types/mailchimp";
+import { getOAuthStateStoreConfig } from "../config/mailchimp";
+import { JsonFile } from "../utils/jsonFile";
+
+/**
+ * Storage backend for OAuth states. `markConsumed` must be atomic so that a
+ * state can't be used by two callbacks at once.
+ */
+export interface OAuthStateStore {
+  // Store a new state, dropping any whose lifetime has passed
+  add(state: string, record: OAuthStateRecord): Promise<void>;
+  get(state: string): Promise<OAuthStateRecord | null>;
+  // Record that the state was used; false when it already had been
+  markConsumed(state: string, consumedAt: Date): Promise<boolean>;
+  delete(state: string): Promise<void>;
+}
+
+const serializeRecord = (record: OAuthStateRecord): StoredOAuthStateRecord => ({
+  ...record,
+  createdAt: record.createdAt.toISOString(),
+  expiresAt: record.expiresAt.toISOString(),
+  consumedAt: record.consumedAt?.toISOString(),
+});
+
+const deserializeRecord = (
+  stored: StoredOAuthStateRecord
+): OAuthStateRecord => ({
+  ...stored,
+  createdAt: new Date(stored.createdAt),
+  expiresAt: new Date(stored.expiresAt),
+  consumedAt: stored.consumedAt ? new Date(stored.consumedAt) : undefined,
+});
+
+// Process-local storage; the callback must reach the process that served
+// /connect, and states are lost on restart
+export class MemoryOAuthStateStore implements OAuthStateStore {
+  private states = new Map<string, OAuthStateRecord>();
+
+  async add(state: string, record: OAuthStateRecord): Promise<void> {
+    const now = Date.now();
+    for (const [storedState, stored] of this.states) {
+      if (stored.expiresAt.getTime() <= now) this.states.delete(storedState);
+    }
+
+    this.states.set(state, record);
+  }
+
+  async get(state: string): Promise<OAuthStateRecord | null> {
+    const record = this.states.get(state);
+    return record ? { ...record } : null;
+  }
+
+  async markConsumed(state: string, consumedAt: Date): Promise<boolean> {
+    const record = this.states.get(state);
+    if (!record || record.consumedAt) return false;
+
+    record.consumedAt = consumedAt;
+    return true;
+  }
+
+  async delete(state: string): Promise<void> {
+    this.states.delete(state);
+  }
+}
+
+// JSON file storage; survives restarts, for a single server process only
+export class FileOAuthStateStore implements OAuthStateStore {
+  private file: JsonFile<StoredOAuthStateRecord>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFile(filePath);
+  }
+
+  async add(state: string, record: OAuthStateRecord): Promise<void> {
+    await this.file.update((states) => {
+      const now = Date.now();
+      for (const [storedState, stored] of Object.entries(states)) {
+        if (new Date(stored.expiresAt).getTime() <= now) {
+          delete states[storedState];
+        }
+      }
+
+      states[state] = serializeRecord(record);
+    });
+  }
+
+  async get(state: string): Promise<OAuthStateRecord | null> {
+    const stored = (await this.file.read())[state];
+    return stored ? deserializeRecord(stored) : null;
+  }
+
+  markConsumed(state: string, consumedAt: Date): Promise<boolean> {
+    return this.file.update((states) => {
+      const stored = states[state];
+      if (!stored || stored.consumedAt) return false;
+
+      stored.consumedAt = consumedAt.toISOString();
+      return true;
+    });
+  }
+
+  async delete(state: string): Promise<void> {
+    await this.file.update((states) => {
+      delete states[state];
+    });
+  }
+}
+
+// Build the OAuth state store selected by OAUTH_STATE_STORE
+export const createOAuthStateStore = (): OAuthStateStore => {
+  const config = getOAuthStateStoreConfig();
+
+  if (config.driver === "file") {
+    return new FileOAuthStateStore(config.filePath);
+  }
+
+  return new MemoryOAuthStateStore();
+};
@@ -0,0 +1,290 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import { SendJobService } from "./sendJobService";
+import { MemorySendJobStore } from "./sendJobStore";
+import { MailChimpService } from "./mailchimpService";
+import { TokenCipher } from "./tokenCipher";
+import { ApiError } from "../utils/errors";
+import { SendJob } from "../types/mailchimp";
+
+const tokenCipher = new TokenCipher({
+  currentKeyId: "test",
+  keys: { test: crypto.randomBytes(32) },
+});
+
+// In-memory stand-in for the MailChimp campaign API, recording each call
+class FakeMailChimp {
+  calls: string[] = [];
+  campaigns = new Map<string, { id: string; status: string }>();
+  // Thrown by sendCampaign; `accepted` marks the campaign sent first, as when
+  // MailChimp took the send but the response was lost
+  sendError?: { error: Error; accepted: boolean };
+
+  async createCampaign() {
+    this.calls.push("create");
+    const campaign = { id: "new-campaign", status: "save" };
+    this.campaigns.set(campaign.id, campaign);
+    return campaign;
+  }
+
+  async setCampaignContent() {
+    this.calls.push("content");
+  }
+
+  async getSendChecklist() {
+    this.calls.push("checklist");
+    return { isReady: true, errors: [], warnings: [] };
+  }
+
+  async getCampaign(accessToken: string, dc: string, campaignId: string) {
+    const campaign = this.campaigns.get(campaignId);
+    return campaign ? { ...campaign } : null;
+  }
+
+  async sendCampaign(accessToken: string, dc: string, campaignId: string) {
+    this.calls.push("send");
+    if (this.sendError) {
+      if (this.sendError.accepted) {
+        this.campaigns.get(campaignId)!.status = "sending";
+      }
+      throw this.sendError.error;
+    }
+    this.campaigns.get(campaignId)!.status = "sending";
+  }
+
+  async deleteCampaign(accessToken: string, dc: string, campaignId: string) {
+    this.calls.push("delete");
+    this.campaigns.delete(campaignId);
+  }
+}
+
+const setup = () => {
+  const store = new MemorySendJobStore();
+  const mailchimp = new FakeMailChimp();
+  const service = new SendJobService(
+    store,
+    mailchimp as unknown as MailChimpService,
+    tokenCipher
+  );
+  return { store, mailchimp, service };
+};
+
+const makeJob = (overrides: Partial<SendJob> = {}): SendJob => {
+  const now = new Date();
+  return {
+    id: crypto.randomUUID(),
+    userId: "user-1",
+    accountId: "account-1",
+    datacenter: "us1",
+    accessToken: tokenCipher.seal("token"),
+    request: {
+      listId: "list-1",
+      subject: "Hello",
+      content: "<p>Hello</p>",
+      fromName: "Sender",
+      replyTo: "sender@example.com",
+    },
+    dryRun: false,
+    status: "queued",
+    step: "create",
+    campaignId: null,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+};
+
+// A job that was running on a worker that stopped, e.g. in a restart
+const abandonedJob = (overrides: Partial<SendJob>) =>
+  makeJob({
+    status: "running",
+    lockedBy: "stopped-worker",
+    lockedUntil: new Date(Date.now() - 1000),
+    ...overrides,
+  });
+
+// Wait for the background run to finish and release its lease
+const waitForJob = async (store: MemorySendJobStore, jobId: string) => {
+  const deadline = Date.now() + 2000;
+
+  while (Date.now() < deadline) {
+    const job = await store.get(jobId);
+    if (
+      job &&
+      !job.lockedBy &&
+      (job.status === "completed" || job.status === "failed")
+    ) {
+      return job;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+
+  throw new Error(`Send job ${jobId} did not finish`);
+};
+
+test("a queued job runs every step", async () => {
+  const { store, mailchimp, service } = setup();
+  const job = makeJob();
+  await store.set(job);
+
+  await service.pollJobs();
+  const finished = await waitForJob(store, job.id);
+
+  assert.equal(finished.status, "completed");
+  assert.equal(finished.step, "done");
+  assert.equal(finished.campaignId, "new-campaign");
+  assert.deepEqual(mailchimp.calls, ["create", "content", "checklist", "send"]);
+});
+
+test("a resumed job carries on from its saved step", async () => {
+  const { store, mailchimp, service } = setup();
+  mailchimp.campaigns.set("c1", { id: "c1", status: "save" });
+  const job = abandonedJob({ step: "content", campaignId: "c1" });
+  await store.set(job);
+
+  await service.pollJobs();
+  const finished = await waitForJob(store, job.id);
+
+  assert.equal(finished.status, "completed");
+  assert.deepEqual(mailchimp.calls, ["content", "checklist", "send"]);
+});
+
+test("a resumed send step doesn't send a campaign that already went out", async () => {
+  const { store, mailchimp, service } = setup();
+  mailchimp.campaigns.set("c1", { id: "c1", status: "sent" });
+  const job = abandonedJob({ step: "send", campaignId: "c1" });
+  await store.set(job);
+
+  await service.pollJobs();
+  const finished = await waitForJob(store, job.id);
+
+  assert.equal(finished.status, "completed");
+  assert.deepEqual(mailchimp.calls, []);
+});
+
+test("a resumed send step sends a campaign that is still a draft", async () => {
+  const { store, mailchimp, service } = setup();
+  mailchimp.campaigns.set("c1", { id: "c1", status: "save" });
+  const job = abandonedJob({ step: "send", campaignId: "c1" });
+  await store.set(job);
+
+  await service.pollJobs();
+  await waitForJob(store, job.id);
+
+  assert.deepEqual(mailchimp.calls, ["send"]);
+  assert.equal(mailchimp.campaigns.get("c1")!.status, "sending");
+});
+
+test("jobs leased by a live worker are left alone", async () => {
+  const { store, mailchimp, service } = setup();
+  const job = makeJob({
+    status: "running",
+    lockedBy: "other-worker",
+    lockedUntil: new Date(Date.now() + 60 * 1000),
+  });
+  await store.set(job);
+
+  await service.pollJobs();
+  await new Promise((resolve) => setTimeout(resolve, 20));
+
+  const unchanged = await store.get(job.id);
+  assert.equal(unchanged!.lockedBy, "other-worker");
+  assert.equal(unchanged!.step, "create");
+  assert.deepEqual(mailchimp.calls, []);
+});
+
+test("a refused send fails the job and deletes its draft", async () => {
+  const { store, mailchimp, service } = setup();
+  mailchimp.sendError = {
+    error: new ApiError(400, "campaign_rejected", "Campaign rejected"),
+    accepted: false,
+  };
+  const job = makeJob();
+  await store.set(job);
+
+  await service.pollJobs();
+  const finished = await waitForJob(store, job.id);
+
+  assert.equal(finished.status, "failed");
+  assert.deepEqual(finished.error, {
+    step: "send",
+    message: "Campaign rejected",
+    code: "campaign_rejected",
+    draft: "deleted",
+  });
+  assert.equal(mailchimp.campaigns.size, 0);
+});
+
+test("a timed-out send that went through completes the job", async () => {
+  const { store, mailchimp, service } = setup();
+  mailchimp.sendError = {
+    error: new ApiError(504, "mailchimp_timeout", "MailChimp timed out"),
+    accepted: true,
+  };
+  const job = makeJob();
+  await store.set(job);
+
+  await service.pollJobs();
+  const finished = await waitForJob(store, job.id);
+
+  assert.equal(finished.status, "completed");
+  assert.equal(finished.error, undefined);
+  assert.equal(mailchimp.campaigns.get("new-campaign")!.status, "sending");
+});
+
+test("a timed-out send that can't be confirmed keeps the campaign", async () => {
+  const { store, mailchimp, service } = setup();
+  mailchimp.sendError = {
+    error: new Error("socket hang up"),
+    accepted: false,
+  };
+  const job = makeJob();
+  await store.set(job);
+
+  await service.pollJobs();
+  const finished = await waitForJob(store, job.id);
+
+  assert.equal(finished.status, "failed");
+  assert.equal(finished.error!.step, "send");
+  assert.equal(finished.error!.draft, "send_unconfirmed");
+  assert.ok(mailchimp.campaigns.has("new-campaign"));
+  assert.ok(!mailchimp.calls.includes("delete"));
+});
+
+test("a job whose token can't be decrypted fails without calling MailChimp", async () => {
+  const { store, mailchimp, service } = setup();
+  const job = makeJob({ accessToken: "not-sealed" });
+  await store.set(job);
+
+  await service.pollJobs();
+  const finished = await waitForJob(store, job.id);
+
+  assert.equal(finished.status, "failed");
+  assert.equal(
+    finished.error!.message,
+    "Stored access token could not be decrypted"
+  );
+  assert.deepEqual(mailchimp.calls, []);
+});
+
+test("finished jobs are dropped after their retention", async () => {
+  const { store, service } = setup();
+  const old = makeJob({
+    status: "completed",
+    step: "done",
+    finishedAt: new Date(0),
+  });
+  const recent = makeJob({
+    status: "completed",
+    step: "done",
+    finishedAt: new Date(),
+  });
+  await store.set(old);
+  await store.set(recent);
+
+  await service.pollJobs();
+
+  assert.equal(await store.get(old.id), null);
+  assert.notEqual(await store.get(recent.id), null);
+});
@@ -0,0 +1,300 @@
+import crypto from "crypto";
+import os from "os";
+import {
+  MailChimpConnection,
+  SendCampaignRequest,
+  SendJob,
+} from "../types/mailchimp";
+import { getSendJobConfig } from "../config/mailchimp";
+import { MailChimpService } from "./mailchimpService";
+import { SendJobStore, createSendJobStore } from "./sendJobStore";
+import { TokenCipher } from "./tokenCipher";
+import {
+  isAmbiguousSendFailure,
+  isCampaignSent,
+  rollbackFailedSend,
+} from "./campaignRollback";
+import { buildSegmentOpts } from "../utils/segment";
+import { ApiError } from "../utils/errors";
+
+// Shared job storage, selected via SEND_JOB_STORE
+const defaultSendJobStore = createSendJobStore();
+
+// Identifies this process in job leases
+const WORKER_ID = `${os.hostname()}-${process.pid}-${crypto
+  .randomBytes(4)
+  .toString("hex")}`;
+
+// Jobs this process is running right now, across service instances
+const activeJobs = new Set<string>();
+
+export class SendJobService {
+  private config = getSendJobConfig();
+
+  constructor(
+    private store: SendJobStore = defaultSendJobStore,
+    private mailchimpService: MailChimpService = new MailChimpService(),
+    private tokenCipher: TokenCipher = new TokenCipher()
+  ) {}
+
+  // Persist a new job and start running it in the background
+  async enqueue(
+    userId: string,
+    connection: MailChimpConnection,
+    request: SendCampaignRequest,
+    dryRun: boolean
+  ): Promise<SendJob> {
+    const {
+      listId,
+      subject,
+      content,
+      fromName,
+      replyTo,
+      targeting,
+      keepDraftOnFailure,
+    } = request;
+    const now = new Date();
+    const job: SendJob = {
+      id: crypto.randomUUID(),
+      userId,
+      accountId: connection.accountId,
+      datacenter: connection.metadata.dc,
+      accessToken: this.tokenCipher.seal(connection.accessToken),
+      request: {
+        listId,
+        subject,
+        content,
+        fromName,
+        replyTo,
+        targeting,
+        keepDraftOnFailure,
+      },
+      dryRun,
+      status: "queued",
+      step: "create",
+      campaignId: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.store.set(job);
+    this.process(job.id);
+
+    return job;
+  }
+
+  // Get a job, only for the user who started it
+  async getJob(jobId: string, userId: string): Promise<SendJob | null> {
+    const job = await this.store.get(jobId);
+    return job && job.userId === userId ? job : null;
+  }
+
+  // Start queued jobs and take over jobs whose worker stopped (e.g. the
+  // process restarted mid-send); drop finished jobs past their retention
+  async pollJobs(): Promise<void> {
+    const now = Date.now();
+
+    for (const job of await this.store.list()) {
+      if (job.status === "queued" || job.status === "running") {
+        if (!job.lockedUntil || job.lockedUntil.getTime() <= now) {
+          this.process(job.id);
+        }
+      } else if (
+        job.finishedAt &&
+        now - job.finishedAt.getTime() >= this.config.retentionMs
+      ) {
+        await this.store.delete(job.id);
+      }
+    }
+  }
+
+  // Resume pending jobs now, then keep polling in the background
+  startWorker(): NodeJS.Timeout {
+    const poll = () =>
+      this.pollJobs().catch((error) =>
+        console.error("Send job poll error:", error.message)
+      );
+
+    poll();
+    const timer = setInterval(poll, this.config.pollIntervalMs);
+
+    // Don't keep the process alive just for the worker
+    timer.unref();
+    return timer;
+  }
+
+  private process(jobId: string): void {
+    if (activeJobs.has(jobId)) return;
+    activeJobs.add(jobId);
+
+    this.run(jobId)
+      .catch((error) => console.error("Send job error:", error))
+      .finally(() => activeJobs.delete(jobId));
+  }
+
+  // Run the job's remaining steps, saving after each one so a restart
+  // carries on from the last completed step. A step that fails after the
+  // campaign was created rolls back its draft.
+  private async run(jobId: string): Promise<void> {
+    const job = await this.store.claim(jobId, WORKER_ID, this.config.leaseMs);
+    if (!job) return;
+
+    let accessToken: string | null = null;
+    try {
+      accessToken = this.tokenCipher.open(job.accessToken);
+    } catch (error: any) {
+      console.error("Send job token decryption error:", error.message);
+      this.fail(job, "Stored access token could not be decrypted");
+    }
+
+    while (job.status === "running" && accessToken) {
+      try {
+        await this.runStep(job, accessToken);
+      } catch (error: any) {
+        await this.failStep(job, accessToken, error);
+      }
+
+      job.updatedAt = new Date();
+      job.lockedUntil = new Date(Date.now() + this.config.leaseMs);
+      await this.store.set(job);
+    }
+
+    job.lockedBy = undefined;
+    job.lockedUntil = undefined;
+    await this.store.set(job);
+  }
+
+  // Run the job's current step and move it on to the next one
+  private async runStep(job: SendJob, accessToken: string): Promise<void> {
+    const { listId, subject, content, fromName, replyTo, targeting } =
+      job.request;
+
+    switch (job.step) {
+      case "create": {
+        const campaign = await this.mailchimpService.createCampaign(
+          accessToken,
+          job.datacenter,
+          listId,
+          subject,
+          fromName,
+          replyTo,
+          targeting && buildSegmentOpts(targeting)
+        );
+        job.campaignId = campaign.id;
+        job.step = "content";
+        return;
+      }
+
+      case "content":
+        await this.mailchimpService.setCampaignContent(
+          accessToken,
+          job.datacenter,
+          job.campaignId!,
+          content
+        );
+        job.step = "checklist";
+        return;
+
+      case "checklist":
+        job.checklist = await this.mailchimpService.getSendChecklist(
+          accessToken,
+          job.datacenter,
+          job.campaignId!
+        );
+
+        if (job.dryRun) {
+          this.complete(job);
+        } else if (!job.checklist.isReady) {
+          this.fail(
+            job,
+            "Campaign is not ready to send; it was saved as a draft",
+            "campaign_not_ready"
+          );
+        } else {
+          job.step = "send";
+        }
+        return;
+
+      case "send": {
+        // A worker that stopped mid-step may already have sent it
+        const campaign = await this.mailchimpService.getCampaign(
+          accessToken,
+          job.datacenter,
+          job.campaignId!
+        );
+
+        if (!campaign) {
+          throw new Error("Campaign no longer exists");
+        }
+
+        if (campaign.status !== "sending" && campaign.status !== "sent") {
+          await this.mailchimpService.sendCampaign(
+            accessToken,
+            job.datacenter,
+            job.campaignId!
+          );
+        }
+        this.complete(job);
+        return;
+      }
+
+      default:
+        this.complete(job);
+    }
+  }
+
+  // Fail the job's current step and roll back its draft. A send call that
+  // timed out or hit a server error may still have gone through, so the
+  // campaign is checked first, and never deleted after such a failure.
+  private async failStep(
+    job: SendJob,
+    accessToken: string,
+    error: any
+  ): Promise<void> {
+    const sendError = job.step === "send" ? error : undefined;
+
+    if (
+      sendError &&
+      isAmbiguousSendFailure(sendError) &&
+      (await isCampaignSent(
+        this.mailchimpService,
+        accessToken,
+        job.datacenter,
+        job.campaignId!
+      ))
+    ) {
+      this.complete(job);
+      return;
+    }
+
+    this.fail(
+      job,
+      error.message || "Send step failed",
+      error instanceof ApiError ? error.code : undefined
+    );
+    job.error!.draft = await rollbackFailedSend(
+      this.mailchimpService,
+      accessToken,
+      job.datacenter,
+      job.campaignId,
+      job.request.keepDraftOnFailure === true,
+      sendError
+    );
+  }
+
+  private complete(job: SendJob): void {
+    job.status = "completed";
+    job.step = "done";
+    job.finishedAt = new Date();
+  }
+
+  // Failed jobs keep the step that failed
+  private fail(job: SendJob, message: string, code?: string): void {
+    job.status = "failed";
+    job.error = { step: job.step, message, code };
+    job.finishedAt = new Date();
+  }
+}
+
+// Shared by the send routes and the background worker
+export const sendJobService = new SendJobService();
@@ -0,0 +1,147 @@
+import { SendJob, StoredSendJob } from "../types/mailchimp";
+import { getSendJobConfig } from "../config/mailchimp";
+import { JsonFile } from "../utils/jsonFile";
+
+/**
+ * Storage backend for campaign send jobs. `claim` must be atomic so that two
+ * workers sharing the store can't run the same job at once.
+ */
+export interface SendJobStore {
+  get(jobId: string): Promise<SendJob | null>;
+  set(job: SendJob): Promise<void>;
+  delete(jobId: string): Promise<void>;
+  list(): Promise<SendJob[]>;
+  // Lease an unfinished job to `workerId` and mark it running; null if the
+  // job is finished, missing, or leased to another worker
+  claim(
+    jobId: string,
+    workerId: string,
+    leaseMs: number
+  ): Promise<SendJob | null>;
+}
+
+const serializeJob = (job: SendJob): StoredSendJob => ({
+  ...job,
+  lockedUntil: job.lockedUntil?.toISOString(),
+  createdAt: job.createdAt.toISOString(),
+  updatedAt: job.updatedAt.toISOString(),
+  finishedAt: job.finishedAt?.toISOString(),
+});
+
+const deserializeJob = (stored: StoredSendJob): SendJob => ({
+  ...stored,
+  lockedUntil: stored.lockedUntil ? new Date(stored.lockedUntil) : undefined,
+  createdAt: new Date(stored.createdAt),
+  updatedAt: new Date(stored.updatedAt),
+  finishedAt: stored.finishedAt ? new Date(stored.finishedAt) : undefined,
+});
+
+const isClaimable = (job: SendJob, workerId: string, now: number): boolean =>
+  (job.status === "queued" || job.status === "running") &&
+  (!job.lockedUntil ||
+    job.lockedUntil.getTime() <= now ||
+    job.lockedBy === workerId);
+
+const lease = (job: SendJob, workerId: string, leaseMs: number): SendJob => ({
+  ...job,
+  status: "running",
+  lockedBy: workerId,
+  lockedUntil: new Date(Date.now() + leaseMs),
+  updatedAt: new Date(),
+});
+
+// Process-local storage for development and tests; jobs are lost on restart,
+// so they only resume after a crash with the file store
+export class MemorySendJobStore implements SendJobStore {
+  private jobs = new Map<string, SendJob>();
+
+  async get(jobId: string): Promise<SendJob | null> {
+    const job = this.jobs.get(jobId);
+    return job ? { ...job } : null;
+  }
+
+  async set(job: SendJob): Promise<void> {
+    this.jobs.set(job.id, { ...job });
+  }
+
+  async delete(jobId: string): Promise<void> {
+    this.jobs.delete(jobId);
+  }
+
+  async list(): Promise<SendJob[]> {
+    return Array.from(this.jobs.values(), (job) => ({ ...job }));
+  }
+
+  async claim(
+    jobId: string,
+    workerId: string,
+    leaseMs: number
+  ): Promise<SendJob | null> {
+    const job = this.jobs.get(jobId);
+    if (!job || !isClaimable(job, workerId, Date.now())) return null;
+
+    const leased = lease(job, workerId, leaseMs);
+    this.jobs.set(jobId, leased);
+    return { ...leased };
+  }
+}
+
+// JSON file storage; survives restarts, for a single server process only
+export class FileSendJobStore implements SendJobStore {
+  private file: JsonFile<StoredSendJob>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFile(filePath);
+  }
+
+  async get(jobId: string): Promise<SendJob | null> {
+    const jobs = await this.file.read();
+    return jobs[jobId] ? deserializeJob(jobs[jobId]) : null;
+  }
+
+  async set(job: SendJob): Promise<void> {
+    await this.file.update((jobs) => {
+      jobs[job.id] = serializeJob(job);
+    });
+  }
+
+  async delete(jobId: string): Promise<void> {
+    await this.file.update((jobs) => {
+      delete jobs[jobId];
+    });
+  }
+
+  async list(): Promise<SendJob[]> {
+    const jobs = await this.file.read();
+    return Object.values(jobs).map(deserializeJob);
+  }
+
+  claim(
+    jobId: string,
+    workerId: string,
+    leaseMs: number
+  ): Promise<SendJob | null> {
+    return this.file.update((jobs) => {
+      const stored = jobs[jobId];
+      if (!stored) return null;
+
+      const job = deserializeJob(stored);
+      if (!isClaimable(job, workerId, Date.now())) return null;
+
+      const leased = lease(job, workerId, leaseMs);
+      jobs[jobId] = serializeJob(leased);
+      return leased;
+    });
+  }
+}
+
+// Build the send job store selected by SEND_JOB_STORE (file by default)
+export const createSendJobStore = (): SendJobStore => {
+  const config = getSendJobConfig();
+
+  if (config.storeDriver === "memory") {
+    return new MemorySendJobStore();
+  }
+
+  return new FileSendJobStore(config.storeFilePath);
+};
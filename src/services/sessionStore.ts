@@ -0,0 +1,135 @@
+import {
+  MailChimpConnection,
+  MailChimpMetadata,
+  StoredUserSession,
+  UserSession,
+} from "../types/mailchimp";
+import { getSessionStoreConfig } from "../config/session";
+import { JsonFile } from "../utils/jsonFile";
+
+/**
+ * Storage backend for user sessions. Implementations must be safe to share
+ * between MailChimpService instances; a Redis adapter can implement this with
+ * GET/SET/DEL/SCAN and the serialize/deserialize helpers below.
+ */
+export interface SessionStore {
+  get(sessionId: string): Promise<UserSession | null>;
+  set(sessionId: string, session: UserSession): Promise<void>;
+  delete(sessionId: string): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+// MailChimp accounts are identified by datacenter and account user_id
+export const buildAccountId = (metadata: MailChimpMetadata): string =>
+  `${metadata.dc}-${metadata.user_id}`;
+
+export const serializeSession = (session: UserSession): StoredUserSession => ({
+  userId: session.userId,
+  connections: session.connections.map((connection) => ({
+    ...connection,
+    connectedAt: connection.connectedAt.toISOString(),
+    lastVerifiedAt: connection.lastVerifiedAt?.toISOString(),
+    revokedAt: connection.revokedAt?.toISOString(),
+  })),
+  activeAccountId: session.activeAccountId,
+  connectedAt: session.connectedAt.toISOString(),
+  lastUsedAt: session.lastUsedAt.toISOString(),
+});
+
+export const deserializeSession = (stored: StoredUserSession): UserSession => {
+  const connections: MailChimpConnection[] = (stored.connections || []).map(
+    (connection) => ({
+      ...connection,
+      connectedAt: new Date(connection.connectedAt),
+      lastVerifiedAt: connection.lastVerifiedAt
+        ? new Date(connection.lastVerifiedAt)
+        : undefined,
+      revokedAt: connection.revokedAt
+        ? new Date(connection.revokedAt)
+        : undefined,
+    })
+  );
+
+  // Sessions written before account linking hold a single token
+  if (!stored.connections && stored.accessToken && stored.metadata) {
+    connections.push({
+      accountId: buildAccountId(stored.metadata),
+      accessToken: stored.accessToken,
+      metadata: stored.metadata,
+      connectedAt: new Date(stored.connectedAt),
+    });
+  }
+
+  return {
+    // Legacy sessions get a stable ID derived from their only account
+    userId: stored.userId || `user-${connections[0]?.accountId}`,
+    connections,
+    activeAccountId: stored.activeAccountId || connections[0]?.accountId || "",
+    connectedAt: new Date(stored.connectedAt),
+    // Sessions written before idle tracking count from when they connected
+    lastUsedAt: new Date(stored.lastUsedAt || stored.connectedAt),
+  };
+};
+
+// Process-local storage; sessions are lost on restart
+export class MemorySessionStore implements SessionStore {
+  private sessions = new Map<string, UserSession>();
+
+  async get(sessionId: string): Promise<UserSession | null> {
+    return this.sessions.get(sessionId) || null;
+  }
+
+  async set(sessionId: string, session: UserSession): Promise<void> {
+    this.sessions.set(sessionId, session);
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+  }
+
+  async keys(): Promise<string[]> {
+    return Array.from(this.sessions.keys());
+  }
+}
+
+// JSON file storage; survives restarts, for a single server process only
+export class FileSessionStore implements SessionStore {
+  private file: JsonFile<StoredUserSession>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFile(filePath);
+  }
+
+  async get(sessionId: string): Promise<UserSession | null> {
+    const sessions = await this.file.read();
+    const stored = sessions[sessionId];
+    return stored ? deserializeSession(stored) : null;
+  }
+
+  async set(sessionId: string, session: UserSession): Promise<void> {
+    await this.file.update((sessions) => {
+      sessions[sessionId] = serializeSession(session);
+    });
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await this.file.update((sessions) => {
+      delete sessions[sessionId];
+    });
+  }
+
+  async keys(): Promise<string[]> {
+    return Object.keys(await this.file.read());
+  }
+}
+
+// Build the session store selected by SESSION_STORE
+export const createSessionStore = (): SessionStore => {
+  const config = getSessionStoreConfig();
+
+  if (config.driver === "file") {
+    return new FileSessionStore(config.filePath);
+  }
+
+  return new MemorySessionStore();
+};
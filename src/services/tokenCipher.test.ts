@@ -0,0 +1,41 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import { TokenCipher } from "./tokenCipher";
+
+const key = () => crypto.randomBytes(32);
+
+test("sealed values open with the same key and can't be tampered with", () => {
+  const cipher = new TokenCipher({ currentKeyId: "a", keys: { a: key() } });
+  const sealed = cipher.seal("secret-token");
+
+  assert.ok(cipher.isSealed(sealed));
+  assert.equal(cipher.keyIdOf(sealed), "a");
+  assert.equal(cipher.open(sealed), "secret-token");
+
+  const parts = sealed.split(":");
+  parts[parts.length - 1] = Buffer.from("other").toString("base64url");
+  assert.throws(() => cipher.open(parts.join(":")));
+});
+
+test("old keys still open values after rotation", () => {
+  const keys = { old: key(), new: key() };
+  const sealed = new TokenCipher({ currentKeyId: "old", keys }).seal("token");
+  const rotated = new TokenCipher({ currentKeyId: "new", keys });
+
+  assert.equal(rotated.open(sealed), "token");
+  assert.equal(rotated.keyIdOf(rotated.seal("token")), "new");
+});
+
+test("ciphers without configured keys share one ephemeral key", () => {
+  const configured = process.env.TOKEN_ENCRYPTION_KEYS;
+  delete process.env.TOKEN_ENCRYPTION_KEYS;
+
+  try {
+    const sealed = new TokenCipher().seal("token");
+    assert.equal(new TokenCipher().open(sealed), "token");
+  } finally {
+    if (configured !== undefined)
+      process.env.TOKEN_ENCRYPTION_KEYS = configured;
+  }
+});
@@ -0,0 +1,81 @@
+import crypto from "crypto";
+import { TokenEncryptionConfig } from "../types/mailchimp";
+import { getTokenEncryptionConfig } from "../config/encryption";
+
+// Sealed format: enc:v1:<keyId>:<iv>:<authTag>:<ciphertext> (base64url parts)
+const SEALED_PREFIX = "enc:v1:";
+const ALGORITHM = "aes-256-gcm";
+
+export class TokenCipher {
+  constructor(
+    private config: TokenEncryptionConfig = getTokenEncryptionConfig()
+  ) {}
+
+  get currentKeyId(): string {
+    return this.config.currentKeyId;
+  }
+
+  // Check whether a stored value was produced by seal()
+  isSealed(value: string): boolean {
+    return value.startsWith(SEALED_PREFIX);
+  }
+
+  // Extract the key ID a sealed value was encrypted with
+  keyIdOf(sealed: string): string | null {
+    if (!this.isSealed(sealed)) return null;
+    return sealed.slice(SEALED_PREFIX.length).split(":")[0] || null;
+  }
+
+  // Encrypt a value under the current key
+  seal(plaintext: string): string {
+    const keyId = this.config.currentKeyId;
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(ALGORITHM, this.config.keys[keyId], iv);
+    // Bind the key ID to the ciphertext so it can't be swapped
+    cipher.setAAD(Buffer.from(keyId));
+
+    const ciphertext = Buffer.concat([
+      cipher.update(plaintext, "utf8"),
+      cipher.final(),
+    ]);
+
+    return (
+      SEALED_PREFIX +
+      [
+        keyId,
+        iv.toString("base64url"),
+        cipher.getAuthTag().toString("base64url"),
+        ciphertext.toString("base64url"),
+      ].join(":")
+    );
+  }
+
+  // Decrypt a sealed value with whichever key it names
+  open(sealed: string): string {
+    if (!this.isSealed(sealed)) {
+      throw new Error("Value is not sealed");
+    }
+
+    const [keyId, iv, authTag, ciphertext] = sealed
+      .slice(SEALED_PREFIX.length)
+      .split(":");
+    const key = this.config.keys[keyId];
+
+    if (!key || !iv || !authTag || ciphertext === undefined) {
+      throw new Error(`Cannot decrypt value sealed with key "${keyId}"`);
+    }
+
+    const decipher = crypto.createDecipheriv(
+      ALGORITHM,
+      key,
+      Buffer.from(iv, "base64url")
+    );
+    decipher.setAAD(Buffer.from(keyId));
+    decipher.setAuthTag(Buffer.from(authTag, "base64url"));
+
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, "base64url")),
+      decipher.final(),
+    ]).toString("utf8");
+  }
+}
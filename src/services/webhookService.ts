@@ -0,0 +1,210 @@
+import crypto from "crypto";
+import {
+  ListWebhook,
+  MailChimpConnection,
+  WebhookEvent,
+  WebhookEventType,
+  WebhookRegistration,
+  WebhookSource,
+} from "../types/mailchimp";
+import { getWebhookConfig } from "../config/mailchimp";
+import { MailChimpService } from "./mailchimpService";
+import { WebhookStore, createWebhookStore } from "./webhookStore";
+
+export type WebhookHandler = (event: WebhookEvent) => void | Promise<void>;
+
+// Handlers registered for one event type, or "*" for every event
+const webhookHandlers: Array<{
+  type: WebhookEventType | "*";
+  handler: WebhookHandler;
+}> = [];
+
+// Subscribe to webhook events; returns a function that removes the handler.
+// Handlers must be idempotent: a failing handler makes MailChimp retry.
+export const registerWebhookHandler = (
+  type: WebhookEventType | "*",
+  handler: WebhookHandler
+): (() => void) => {
+  const entry = { type, handler };
+  webhookHandlers.push(entry);
+
+  return () => {
+    const index = webhookHandlers.indexOf(entry);
+    if (index !== -1) webhookHandlers.splice(index, 1);
+  };
+};
+
+// Shared registration storage, selected via WEBHOOK_STORE
+const defaultWebhookStore = createWebhookStore();
+
+const hashSecret = (secret: string): string =>
+  crypto.createHash("sha256").update(secret).digest("hex");
+
+export class WebhookService {
+  private config = getWebhookConfig();
+
+  constructor(
+    private store: WebhookStore = defaultWebhookStore,
+    private mailchimpService: MailChimpService = new MailChimpService()
+  ) {}
+
+  // Public callback URL for a registration, without its secret
+  getCallbackUrl(registrationId: string): string {
+    return `${this.config.baseUrl}/webhooks/mailchimp/${registrationId}`;
+  }
+
+  // Create a registration and its MailChimp webhook. The registration is
+  // stored first so MailChimp's validation GET can find it.
+  async register(
+    connection: MailChimpConnection,
+    userId: string,
+    listId: string,
+    events: WebhookEventType[],
+    sources: WebhookSource[]
+  ): Promise<WebhookRegistration> {
+    const secret = crypto.randomBytes(32).toString("base64url");
+    const registration: WebhookRegistration = {
+      id: crypto.randomUUID(),
+      secretHash: hashSecret(secret),
+      userId,
+      accountId: connection.accountId,
+      listId,
+      mailchimpWebhookId: null,
+      events,
+      sources,
+      createdAt: new Date(),
+    };
+
+    await this.store.set(registration);
+
+    try {
+      const webhook = await this.mailchimpService.createListWebhook(
+        connection.accessToken,
+        connection.metadata.dc,
+        listId,
+        `${this.getCallbackUrl(registration.id)}?secret=${secret}`,
+        events,
+        sources
+      );
+      registration.mailchimpWebhookId = webhook.id;
+      await this.store.set(registration);
+    } catch (error) {
+      await this.store.delete(registration.id);
+      throw error;
+    }
+
+    return registration;
+  }
+
+  // Registrations this user made for a list on the given account
+  async listForList(
+    userId: string,
+    accountId: string,
+    listId: string
+  ): Promise<WebhookRegistration[]> {
+    const registrations = await this.store.list();
+    return registrations
+      .filter(
+        (registration) =>
+          registration.userId === userId &&
+          registration.accountId === accountId &&
+          registration.listId === listId
+      )
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  // Remove a registration and its MailChimp webhook; false if the user has
+  // no such registration on this list and account
+  async unregister(
+    connection: MailChimpConnection,
+    userId: string,
+    listId: string,
+    registrationId: string
+  ): Promise<boolean> {
+    const registration = await this.store.get(registrationId);
+
+    if (
+      !registration ||
+      registration.userId !== userId ||
+      registration.accountId !== connection.accountId ||
+      registration.listId !== listId
+    ) {
+      return false;
+    }
+
+    // Already gone on MailChimp's side (e.g. removed in its UI) is fine
+    if (registration.mailchimpWebhookId) {
+      await this.mailchimpService.deleteListWebhook(
+        connection.accessToken,
+        connection.metadata.dc,
+        listId,
+        registration.mailchimpWebhookId
+      );
+    }
+
+    await this.store.delete(registrationId);
+    return true;
+  }
+
+  // Look up the registration a callback was sent to and check its secret
+  async authenticate(
+    registrationId: string,
+    secret: unknown
+  ): Promise<WebhookRegistration | null> {
+    if (!secret || typeof secret !== "string") return null;
+
+    const registration = await this.store.get(registrationId);
+    if (!registration) return null;
+
+    const matches = crypto.timingSafeEqual(
+      Buffer.from(hashSecret(secret), "hex"),
+      Buffer.from(registration.secretHash, "hex")
+    );
+
+    return matches ? registration : null;
+  }
+
+  // Run every handler for the event; rejects if any of them fails
+  async dispatch(event: WebhookEvent): Promise<void> {
+    const handlers = webhookHandlers.filter(
+      (entry) => entry.type === "*" || entry.type === event.type
+    );
+
+    if (handlers.length === 0) {
+      console.log(
+        `Unhandled ${event.type} webhook for list ${event.listId} (registration ${event.registrationId})`
+      );
+      return;
+    }
+
+    const results = await Promise.allSettled(
+      handlers.map(async (entry) => entry.handler(event))
+    );
+    const failures = results.filter(
+      (result): result is PromiseRejectedResult => result.status === "rejected"
+    );
+
+    if (failures.length > 0) {
+      failures.forEach((failure) =>
+        console.error("Webhook handler error:", failure.reason)
+      );
+      throw new Error(
+        `${failures.length} webhook handler(s) failed for ${event.type} event`
+      );
+    }
+  }
+
+  // Map a registration to its public shape
+  toListWebhook(registration: WebhookRegistration): ListWebhook {
+    return {
+      id: registration.id,
+      listId: registration.listId,
+      accountId: registration.accountId,
+      mailchimpWebhookId: registration.mailchimpWebhookId,
+      url: this.getCallbackUrl(registration.id),
+      events: registration.events,
+      sources: registration.sources,
+      createdAt: registration.createdAt,
+    };
+  }
+}
@@ -0,0 +1,94 @@
+import {
+  StoredWebhookRegistration,
+  WebhookRegistration,
+} from "../types/mailchimp";
+import { getWebhookConfig } from "../config/mailchimp";
+import { JsonFile } from "../utils/jsonFile";
+
+/**
+ * Storage backend for webhook registrations. Registrations have to outlive
+ * the process that created them, since MailChimp keeps posting to their URLs.
+ */
+export interface WebhookStore {
+  get(registrationId: string): Promise<WebhookRegistration | null>;
+  set(registration: WebhookRegistration): Promise<void>;
+  delete(registrationId: string): Promise<void>;
+  list(): Promise<WebhookRegistration[]>;
+}
+
+const serializeRegistration = (
+  registration: WebhookRegistration
+): StoredWebhookRegistration => ({
+  ...registration,
+  createdAt: registration.createdAt.toISOString(),
+});
+
+const deserializeRegistration = (
+  stored: StoredWebhookRegistration
+): WebhookRegistration => ({
+  ...stored,
+  createdAt: new Date(stored.createdAt),
+});
+
+// Process-local storage; registrations are lost on restart
+export class MemoryWebhookStore implements WebhookStore {
+  private registrations = new Map<string, WebhookRegistration>();
+
+  async get(registrationId: string): Promise<WebhookRegistration | null> {
+    return this.registrations.get(registrationId) || null;
+  }
+
+  async set(registration: WebhookRegistration): Promise<void> {
+    this.registrations.set(registration.id, registration);
+  }
+
+  async delete(registrationId: string): Promise<void> {
+    this.registrations.delete(registrationId);
+  }
+
+  async list(): Promise<WebhookRegistration[]> {
+    return Array.from(this.registrations.values());
+  }
+}
+
+// JSON file storage; survives restarts, for a single server process only
+export class FileWebhookStore implements WebhookStore {
+  private file: JsonFile<StoredWebhookRegistration>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFile(filePath);
+  }
+
+  async get(registrationId: string): Promise<WebhookRegistration | null> {
+    const registrations = await this.file.read();
+    const stored = registrations[registrationId];
+    return stored ? deserializeRegistration(stored) : null;
+  }
+
+  async set(registration: WebhookRegistration): Promise<void> {
+    await this.file.update((registrations) => {
+      registrations[registration.id] = serializeRegistration(registration);
+    });
+  }
+
+  async delete(registrationId: string): Promise<void> {
+    await this.file.update((registrations) => {
+      delete registrations[registrationId];
+    });
+  }
+
+  async list(): Promise<WebhookRegistration[]> {
+    return Object.values(await this.file.read()).map(deserializeRegistration);
+  }
+}
+
+// Build the webhook store selected by WEBHOOK_STORE (file by default)
+export const createWebhookStore = (): WebhookStore => {
+  const config = getWebhookConfig();
+
+  if (config.storeDriver === "file") {
+    return new FileWebhookStore(config.storeFilePath);
+  }
+
+  return new MemoryWebhookStore();
+};
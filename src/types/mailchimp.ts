@@ -30,58 +30,690 @@ export interface OAuthTokenRequest {
 export interface ApiResponse<T = any> {
   success: boolean;
   message?: string;
+  // Stable error identifier, present on every error response
+  code?: string;
+  // Per-field problems on validation errors
+  errors?: FieldError[];
+  // MailChimp's problem details, when MailChimp caused the error
+  details?: MailChimpProblem;
   data: T | null;
 }
 
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+// RFC 7807 problem details as returned by MailChimp
+export interface MailChimpProblem {
+  type?: string;
+  title?: string;
+  status?: number;
+  detail?: string;
+  instance?: string;
+}
+
+export interface ConnectResponse {
+  message: string;
+  authorizeUrl: string;
+  state: string;
+  expiresAt: string;
+}
+
 export interface ConnectionStatus {
   isConnected: boolean;
+  accountId?: string;
   accountName?: string;
   userEmail?: string;
+  expiresAt?: string;
+  sessionId?: string;
+  reconnectRequired?: boolean;
+  lastVerifiedAt?: string;
+}
+
+export interface MailChimpAccount {
+  accountId: string;
+  accountName: string;
+  userEmail: string;
+  dc: string;
+  connectedAt: string;
+  isActive: boolean;
+}
+
+export interface AccountsResponse {
+  userId: string;
+  accounts: MailChimpAccount[];
+}
+
+export interface ActivateAccountRequest {
+  accountId: string;
 }
 
 export interface MailChimpList {
   id: string;
   name: string;
+  dateCreated: string;
   stats: {
     member_count: number;
+    unsubscribe_count: number;
+    open_rate: number;
+    // null when no campaign has been sent to the list yet
+    campaign_last_sent: string | null;
   };
 }
 
 export interface ListsResponse {
   lists: MailChimpList[];
+  total: number;
+  offset: number;
+  // Pass back as `cursor` to fetch the next page; null on the last page
+  nextCursor: string | null;
+}
+
+export type ListsSortField = "date_created" | "name" | "member_count";
+
+export interface ListsQuery {
+  count?: number;
+  offset?: number;
+  sortField?: "date_created";
+  sortDir?: "ASC" | "DESC";
 }
 
 export interface CampaignRequest {
+  accountId?: string;
   listId: string;
   subject: string;
   content: string;
   fromName: string;
   replyTo: string;
+  // Send to part of the list instead of everyone
+  targeting?: CampaignTargeting;
+}
+
+export interface SendCampaignRequest extends CampaignRequest {
+  // Leave the draft in MailChimp if a step after creating it fails
+  keepDraftOnFailure?: boolean;
+}
+
+// Recipient Targeting Types
+export type SegmentMatch = "any" | "all";
+
+export interface InterestSelection {
+  categoryId: string;
+  interestIds: string[];
+  // Members in any of, all of, or none of the interests (default "any")
+  match?: "any" | "all" | "none";
+}
+
+// Raw MailChimp segment condition, e.g.
+// { conditionType: "TextMerge", field: "FNAME", op: "is", value: "Jane" }
+export interface SegmentCondition {
+  conditionType: string;
+  field: string;
+  op: string;
+  value: unknown;
+}
+
+export interface CampaignTargeting {
+  // Saved segment ID (cannot be combined with the other options)
+  segmentId?: number;
+  // Tag IDs; members with any/all of them depending on `match`
+  tags?: number[];
+  interests?: InterestSelection[];
+  conditions?: SegmentCondition[];
+  // How tags, interests and conditions combine (default "all")
+  match?: SegmentMatch;
+}
+
+export interface RecipientPreviewRequest {
+  accountId?: string;
+  targeting?: CampaignTargeting;
+}
+
+export interface RecipientPreview {
+  listId: string;
+  recipientCount: number;
+}
+
+export interface ListSegment {
+  id: number;
+  name: string;
+  memberCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ListSegmentsResponse {
+  segments: ListSegment[];
+  total: number;
+  offset: number;
+  nextCursor: string | null;
+}
+
+// Interest Category Types
+// How the group is shown on signup forms
+export type InterestCategoryType =
+  | "checkboxes"
+  | "dropdown"
+  | "radio"
+  | "hidden";
+
+export interface ListInterest {
+  id: string;
+  categoryId: string;
+  name: string;
+  subscriberCount: number;
+  displayOrder: number;
+}
+
+export interface InterestCategory {
+  id: string;
+  listId: string;
+  title: string;
+  type: InterestCategoryType;
+  displayOrder: number;
+}
+
+export interface ListInterestCategory extends InterestCategory {
+  interests: ListInterest[];
+}
+
+export interface InterestCategoriesResponse {
+  categories: ListInterestCategory[];
+}
+
+export interface CreateInterestCategoryRequest {
+  accountId?: string;
+  title: string;
+  type: InterestCategoryType;
+  displayOrder?: number;
+}
+
+export interface UpdateInterestCategoryRequest {
+  accountId?: string;
+  title?: string;
+  type?: InterestCategoryType;
+  displayOrder?: number;
+}
+
+export interface CreateInterestRequest {
+  accountId?: string;
+  name: string;
+  displayOrder?: number;
+}
+
+export interface UpdateInterestRequest {
+  accountId?: string;
+  name?: string;
+  displayOrder?: number;
+}
+
+// Merge Field Types
+export type MergeFieldType =
+  | "text"
+  | "number"
+  | "address"
+  | "phone"
+  | "date"
+  | "url"
+  | "imageurl"
+  | "radio"
+  | "dropdown"
+  | "birthday"
+  | "zip";
+
+// Type-specific settings; only the ones relevant to the field's type apply
+export interface MergeFieldOptions {
+  // Address fields
+  defaultCountry?: number;
+  // Phone fields: "US" or "International"
+  phoneFormat?: string;
+  // Date and birthday fields, e.g. "MM/DD/YYYY"
+  dateFormat?: string;
+  // Radio and dropdown fields
+  choices?: string[];
+  // Text fields
+  size?: number;
+}
+
+export interface MergeField {
+  mergeId: number;
+  tag: string;
+  name: string;
+  type: MergeFieldType;
+  required: boolean;
+  defaultValue: string;
+  public: boolean;
+  displayOrder: number;
+  helpText: string;
+  options: MergeFieldOptions;
+  listId: string;
+}
+
+export interface MergeFieldsResponse {
+  mergeFields: MergeField[];
+  total: number;
+  offset: number;
+  nextCursor: string | null;
+}
+
+export interface CreateMergeFieldRequest {
+  accountId?: string;
+  name: string;
+  type: MergeFieldType;
+  // Merge tag used in content, e.g. "COMPANY" for *|COMPANY|* (generated if omitted)
+  tag?: string;
+  required?: boolean;
+  defaultValue?: string;
+  public?: boolean;
+  displayOrder?: number;
+  helpText?: string;
+  options?: MergeFieldOptions;
+}
+
+// A merge field's type can't be changed once created
+export type UpdateMergeFieldRequest = Partial<
+  Omit<CreateMergeFieldRequest, "type">
+>;
+
+// Steps of POST /campaign/send, in order
+export type CampaignSendStep = "create" | "content" | "checklist" | "send";
+
+// What happened to the campaign created by a send that failed partway
+export type SendDraftCleanup =
+  | "none"
+  | "deleted"
+  | "kept"
+  | "not_draft"
+  | "delete_failed"
+  // The send call failed without a clear answer; the campaign was left alone
+  // since MailChimp may still send it
+  | "send_unconfirmed";
+
+export interface SendFailure {
+  failedStep: CampaignSendStep;
+  completedSteps: CampaignSendStep[];
+  // Campaign created before the failure, if any (it may have been deleted)
+  campaignId: string | null;
+  draft: SendDraftCleanup;
 }
 
+// "save" is MailChimp's status for an unsent, unscheduled draft
+export type CampaignResponseStatus = "sent" | "schedule" | "save";
+
 export interface CampaignResponse {
   campaignId: string;
+  status: CampaignResponseStatus;
+  message: string;
+  // Present when status is "schedule"
+  scheduledAt?: string;
+  // Pre-flight result, present on dry runs and when the send was refused
+  checklist?: CampaignChecklist;
+}
+
+// Send Checklist Types
+export interface CampaignChecklistItem {
+  id: number;
+  heading: string;
+  details: string;
+}
+
+export interface CampaignChecklist {
+  isReady: boolean;
+  // Blocking problems; the campaign can't be sent until they are fixed
+  errors: CampaignChecklistItem[];
+  warnings: CampaignChecklistItem[];
+}
+
+export interface BatchDelivery {
+  // Minutes between batches
+  batchDelay: number;
+  batchCount: number;
+}
+
+export interface ScheduleCampaignRequest {
+  accountId?: string;
+  // ISO 8601 with an offset, or a wall-clock time read in `timeZone`
+  scheduleTime: string;
+  // IANA time zone name, e.g. "America/New_York" (defaults to UTC)
+  timeZone?: string;
+  timewarp?: boolean;
+  batchDelivery?: BatchDelivery;
+}
+
+// Test Email Types
+export type TestSendType = "html" | "plaintext";
+
+export interface TestCampaignRequest {
+  accountId?: string;
+  // Either an existing draft...
+  campaignId?: string;
+  // ...or content for a new draft
+  listId?: string;
+  subject?: string;
+  content?: string;
+  fromName?: string;
+  replyTo?: string;
+  targeting?: CampaignTargeting;
+  testEmails: string[];
+  sendType?: TestSendType;
+}
+
+export interface TestEmailResult {
+  email: string;
+  status: "sent" | "failed" | "invalid";
+  error?: string;
+}
+
+export interface TestCampaignResponse {
+  campaignId: string;
+  // True when a new draft was created for this test
+  draftCreated: boolean;
+  sendType: TestSendType;
+  results: TestEmailResult[];
+}
+
+// Campaign Draft Types
+export interface UpdateCampaignRequest {
+  accountId?: string;
+  subject?: string;
+  content?: string;
+  fromName?: string;
+  replyTo?: string;
+  // Replaces the draft's targeting; null sends to the whole list again
+  targeting?: CampaignTargeting | null;
+}
+
+export interface CampaignDraft {
+  campaignId: string;
+  // MailChimp campaign status ("save" for drafts)
   status: string;
+  listId: string;
+  title: string;
+  subject: string;
+  fromName: string;
+  replyTo: string;
+  content: string | null;
+  // Number of list members the campaign will go to
+  recipientCount: number;
+  createdAt: string;
+  // Set while the campaign is scheduled
+  scheduledAt: string | null;
+}
+
+// Audience Member Types
+export type MemberStatus =
+  | "subscribed"
+  | "unsubscribed"
+  | "cleaned"
+  | "pending"
+  | "transactional";
+
+// Text, numbers, or objects for composite fields such as addresses
+export type MergeFieldValue = string | number | Record<string, unknown>;
+
+export type MergeFields = Record<string, MergeFieldValue>;
+
+export interface AddMemberRequest {
+  accountId?: string;
+  email: string;
+  status?: MemberStatus;
+  mergeFields?: MergeFields;
+  // Update the member if the email is already on the list
+  upsert?: boolean;
+}
+
+export interface UpdateMemberRequest {
+  accountId?: string;
+  status?: MemberStatus;
+  mergeFields?: MergeFields;
+}
+
+export interface ListMember {
+  id: string;
+  email: string;
+  status: MemberStatus;
+  mergeFields: MergeFields;
+  listId: string;
+  lastChanged: string;
+}
+
+// Member Import Types
+export type ImportJobStatus = "queued" | "running" | "completed" | "failed";
+
+export interface ImportRow {
+  row: number;
+  email: string;
+  // Only set when the upload gave one; new members default to subscribed and
+  // existing members keep their status
+  status?: MemberStatus;
+  mergeFields: MergeFields;
+}
+
+export interface ImportRowError {
+  row: number;
+  email?: string;
   message: string;
 }
 
+export interface ImportJob {
+  id: string;
+  userId: string;
+  accountId: string;
+  listId: string;
+  status: ImportJobStatus;
+  totalRows: number;
+  processedRows: number;
+  created: number;
+  updated: number;
+  // Existing members a row had nothing to change for
+  unchanged: number;
+  failed: number;
+  errors: ImportRowError[];
+  // Set when more row errors occurred than are kept in `errors`
+  errorsTruncated: boolean;
+  message?: string;
+  createdAt: Date;
+  finishedAt?: Date;
+}
+
+export interface ImportJobResponse {
+  jobId: string;
+  listId: string;
+  status: ImportJobStatus;
+  totalRows: number;
+  processedRows: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  failed: number;
+  errors: ImportRowError[];
+  errorsTruncated: boolean;
+  message?: string;
+  createdAt: string;
+  finishedAt?: string;
+}
+
+// Campaign Send Job Types
+export type SendJobStatus = "queued" | "running" | "completed" | "failed";
+
+// "done" once the job has finished successfully
+export type SendJobStep = CampaignSendStep | "done";
+
+export interface SendJobError {
+  step: SendJobStep;
+  message: string;
+  code?: string;
+  // Set when a step failed after the campaign was created
+  draft?: SendDraftCleanup;
+}
+
+export interface SendJob {
+  id: string;
+  userId: string;
+  accountId: string;
+  datacenter: string;
+  // Sealed with the token cipher so the job can resume after a restart
+  accessToken: string;
+  request: Omit<SendCampaignRequest, "accountId">;
+  dryRun: boolean;
+  status: SendJobStatus;
+  // Step to run next, or the one that failed
+  step: SendJobStep;
+  // Set once the "create" step has succeeded
+  campaignId: string | null;
+  checklist?: CampaignChecklist;
+  error?: SendJobError;
+  // Worker lease; another worker may take the job over once it has expired
+  lockedBy?: string;
+  lockedUntil?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+  finishedAt?: Date;
+}
+
+export interface StoredSendJob
+  extends Omit<
+    SendJob,
+    "lockedUntil" | "createdAt" | "updatedAt" | "finishedAt"
+  > {
+  lockedUntil?: string;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+}
+
+export interface SendJobResponse {
+  jobId: string;
+  accountId: string;
+  listId: string;
+  status: SendJobStatus;
+  step: SendJobStep;
+  campaignId: string | null;
+  dryRun: boolean;
+  checklist?: CampaignChecklist;
+  error?: SendJobError;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+}
+
+// Campaign Report Types
+export interface CampaignReport {
+  campaignId: string;
+  title: string;
+  subject: string;
+  listId: string;
+  listName: string;
+  sendTime: string;
+  emailsSent: number;
+  opens: {
+    total: number;
+    unique: number;
+    // Unique opens as a fraction of delivered emails (0-1)
+    rate: number;
+    lastOpen: string | null;
+  };
+  clicks: {
+    total: number;
+    unique: number;
+    uniqueSubscribers: number;
+    rate: number;
+    lastClick: string | null;
+  };
+  bounces: {
+    hard: number;
+    soft: number;
+    syntaxErrors: number;
+  };
+  unsubscribes: number;
+  abuseReports: number;
+  forwards: {
+    count: number;
+    opens: number;
+  };
+}
+
+export interface ReportsResponse {
+  reports: CampaignReport[];
+  total: number;
+  offset: number;
+  nextCursor: string | null;
+}
+
+export interface CampaignLinkReport {
+  id: string;
+  url: string;
+  totalClicks: number;
+  uniqueClicks: number;
+  // Share of all clicks / unique clicks that went to this link (0-1)
+  clickPercentage: number;
+  uniqueClickPercentage: number;
+  lastClick: string | null;
+}
+
+export interface CampaignLinksResponse {
+  campaignId: string;
+  links: CampaignLinkReport[];
+  total: number;
+  offset: number;
+  nextCursor: string | null;
+}
+
 // MailChimp API Response Types
 export interface MailChimpListsApiResponse {
   lists: Array<{
     id: string;
     name: string;
+    date_created: string;
     stats: {
       member_count: number;
+      unsubscribe_count: number;
+      open_rate: number;
+      campaign_last_sent: string;
     };
   }>;
   total_items: number;
 }
 
+export type MailChimpListApiResponse =
+  MailChimpListsApiResponse["lists"][number];
+
+export interface MailChimpMemberApiResponse {
+  id: string;
+  email_address: string;
+  unique_email_id: string;
+  status: MemberStatus;
+  merge_fields: MergeFields;
+  list_id: string;
+  last_changed: string;
+  timestamp_signup?: string;
+}
+
+export interface MailChimpBatchSubscribeApiResponse {
+  new_members: Array<{ email_address: string }>;
+  updated_members: Array<{ email_address: string }>;
+  errors: Array<{
+    email_address: string;
+    error: string;
+    error_code?: string;
+  }>;
+  total_created: number;
+  total_updated: number;
+  error_count: number;
+}
+
 export interface MailChimpCampaignApiResponse {
   id: string;
   status: string;
   type: string;
   create_time: string;
+  send_time?: string;
+  recipients: {
+    list_id: string;
+    recipient_count?: number;
+    segment_opts?: MailChimpSegmentOpts;
+  };
   settings: {
     subject_line: string;
     title: string;
@@ -90,11 +722,367 @@ export interface MailChimpCampaignApiResponse {
   };
 }
 
+export interface MailChimpSegmentOpts {
+  saved_segment_id?: number;
+  match?: SegmentMatch;
+  conditions?: Array<{
+    condition_type: string;
+    field: string;
+    op: string;
+    value: unknown;
+  }>;
+}
+
+export interface MailChimpSegmentsApiResponse {
+  segments: Array<{
+    id: number;
+    name: string;
+    member_count: number;
+    type: "saved" | "static" | "fuzzy";
+    created_at: string;
+    updated_at: string;
+  }>;
+  total_items: number;
+}
+
+export type MailChimpSegmentApiResponse =
+  MailChimpSegmentsApiResponse["segments"][number];
+
+export interface MailChimpInterestCategoryApiResponse {
+  id: string;
+  list_id: string;
+  title: string;
+  type: InterestCategoryType;
+  display_order: number;
+}
+
+export interface MailChimpInterestCategoriesApiResponse {
+  categories: MailChimpInterestCategoryApiResponse[];
+  total_items: number;
+}
+
+export interface MailChimpInterestApiResponse {
+  id: string;
+  category_id: string;
+  list_id: string;
+  name: string;
+  subscriber_count: string;
+  display_order: number;
+}
+
+export interface MailChimpInterestsApiResponse {
+  interests: MailChimpInterestApiResponse[];
+  total_items: number;
+}
+
+export interface MailChimpMergeFieldApiResponse {
+  merge_id: number;
+  tag: string;
+  name: string;
+  type: MergeFieldType;
+  required: boolean;
+  default_value: string;
+  public: boolean;
+  display_order: number;
+  options: {
+    default_country?: number;
+    phone_format?: string;
+    date_format?: string;
+    choices?: string[];
+    size?: number;
+  };
+  help_text: string;
+  list_id: string;
+}
+
+export interface MailChimpMergeFieldsApiResponse {
+  merge_fields: MailChimpMergeFieldApiResponse[];
+  total_items: number;
+}
+
+export interface MailChimpReportApiResponse {
+  id: string;
+  campaign_title: string;
+  subject_line: string;
+  list_id: string;
+  list_name: string;
+  send_time: string;
+  emails_sent: number;
+  abuse_reports: number;
+  unsubscribed: number;
+  bounces: {
+    hard_bounces: number;
+    soft_bounces: number;
+    syntax_errors: number;
+  };
+  forwards: {
+    forwards_count: number;
+    forwards_opens: number;
+  };
+  opens: {
+    opens_total: number;
+    unique_opens: number;
+    open_rate: number;
+    last_open: string;
+  };
+  clicks: {
+    clicks_total: number;
+    unique_clicks: number;
+    unique_subscriber_clicks: number;
+    click_rate: number;
+    last_click: string;
+  };
+}
+
+export interface MailChimpReportsApiResponse {
+  reports: MailChimpReportApiResponse[];
+  total_items: number;
+}
+
+export interface MailChimpClickDetailsApiResponse {
+  urls_clicked: Array<{
+    id: string;
+    url: string;
+    total_clicks: number;
+    click_percentage: number;
+    unique_clicks: number;
+    unique_click_percentage: number;
+    last_click: string;
+  }>;
+  campaign_id: string;
+  total_items: number;
+}
+
+export interface MailChimpSendChecklistApiResponse {
+  is_ready: boolean;
+  items: Array<{
+    type: "success" | "warning" | "error";
+    id: number;
+    heading: string;
+    details: string;
+  }>;
+}
+
+export interface MailChimpCampaignContentApiResponse {
+  html?: string;
+  plain_text?: string;
+}
+
 // Session Storage Interface
-export interface UserSession {
+// (accessToken is sealed by TokenCipher while held in a SessionStore)
+export interface MailChimpConnection {
+  accountId: string;
   accessToken: string;
   metadata: MailChimpMetadata;
   connectedAt: Date;
+  // Last time the token was confirmed valid against MailChimp
+  lastVerifiedAt?: Date;
+  // Set when MailChimp rejected the token (app revoked by the user)
+  revokedAt?: Date;
+}
+
+// A session stands in for the application user, who may link many MailChimp
+// accounts. This service has no user accounts of its own, so linked accounts
+// belong to the session rather than to a login shared across sessions.
+export interface UserSession {
+  // Generated when the session starts; scopes idempotency keys and jobs
+  userId: string;
+  connections: MailChimpConnection[];
+  activeAccountId: string;
+  connectedAt: Date;
+  lastUsedAt: Date;
+}
+
+// Serialized form of UserSession used by persistent session stores
+export interface StoredMailChimpConnection {
+  accountId: string;
+  accessToken: string;
+  metadata: MailChimpMetadata;
+  connectedAt: string;
+  lastVerifiedAt?: string;
+  revokedAt?: string;
+}
+
+export interface StoredUserSession {
+  userId?: string;
+  connections?: StoredMailChimpConnection[];
+  activeAccountId?: string;
+  connectedAt: string;
+  lastUsedAt?: string;
+  // Single-account sessions written before account linking
+  accessToken?: string;
+  metadata?: MailChimpMetadata;
+}
+
+export interface ReencryptSessionsResult {
+  total: number;
+  reencrypted: number;
+  failed: number;
+}
+
+// Webhook Types
+export type WebhookEventType =
+  | "subscribe"
+  | "unsubscribe"
+  | "profile"
+  | "upemail"
+  | "cleaned"
+  | "campaign";
+
+// Who made the change: the member themselves, an account admin, or the API
+export type WebhookSource = "user" | "admin" | "api";
+
+export interface RegisterWebhookRequest {
+  accountId?: string;
+  // Defaults to every event type
+  events?: WebhookEventType[];
+  // Defaults to every source
+  sources?: WebhookSource[];
+}
+
+export interface ListWebhook {
+  id: string;
+  listId: string;
+  accountId: string;
+  mailchimpWebhookId: string | null;
+  // Callback URL without its secret
+  url: string;
+  events: WebhookEventType[];
+  sources: WebhookSource[];
+  createdAt: Date;
+}
+
+export interface ListWebhooksResponse {
+  webhooks: ListWebhook[];
+}
+
+// A registration as stored; the secret itself is only ever sent to MailChimp
+export interface WebhookRegistration {
+  id: string;
+  secretHash: string;
+  userId: string;
+  accountId: string;
+  listId: string;
+  mailchimpWebhookId: string | null;
+  events: WebhookEventType[];
+  sources: WebhookSource[];
+  createdAt: Date;
+}
+
+export interface StoredWebhookRegistration
+  extends Omit<WebhookRegistration, "createdAt"> {
+  createdAt: string;
+}
+
+export interface WebhookMember {
+  id: string;
+  email: string;
+  emailType: string;
+  // Merge field values keyed by tag (INTERESTS and GROUPINGS included)
+  merges: Record<string, unknown>;
+  ipOpt: string | null;
+  ipSignup: string | null;
+}
+
+interface WebhookEventBase {
+  registrationId: string;
+  accountId: string;
+  listId: string;
+  firedAt: Date;
+}
+
+export interface SubscribeWebhookEvent extends WebhookEventBase {
+  type: "subscribe";
+  member: WebhookMember;
+}
+
+export interface UnsubscribeWebhookEvent extends WebhookEventBase {
+  type: "unsubscribe";
+  member: WebhookMember;
+  // "delete" when an admin deleted the member rather than unsubscribing them
+  action: string;
+  // "manual" or "abuse"
+  reason: string;
+  campaignId: string | null;
+}
+
+export interface ProfileWebhookEvent extends WebhookEventBase {
+  type: "profile";
+  member: WebhookMember;
+}
+
+export interface EmailChangedWebhookEvent extends WebhookEventBase {
+  type: "upemail";
+  newId: string;
+  newEmail: string;
+  oldEmail: string;
+}
+
+export interface CleanedWebhookEvent extends WebhookEventBase {
+  type: "cleaned";
+  email: string;
+  // "hard" (bounced) or "abuse"
+  reason: string;
+  campaignId: string | null;
+}
+
+export interface CampaignWebhookEvent extends WebhookEventBase {
+  type: "campaign";
+  campaignId: string;
+  subject: string;
+  status: string;
+  reason: string;
+}
+
+export type WebhookEvent =
+  | SubscribeWebhookEvent
+  | UnsubscribeWebhookEvent
+  | ProfileWebhookEvent
+  | EmailChangedWebhookEvent
+  | CleanedWebhookEvent
+  | CampaignWebhookEvent;
+
+export interface MailChimpWebhookApiResponse {
+  id: string;
+  url: string;
+  list_id: string;
+  events: Record<WebhookEventType, boolean>;
+  sources: Record<WebhookSource, boolean>;
+}
+
+// Idempotency Key Storage
+export interface IdempotencyRecord {
+  // Hash of the request the key was first used with
+  fingerprint: string;
+  status: "in_progress" | "completed";
+  // Stored once the first request has finished
+  statusCode?: number;
+  body?: unknown;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export interface StoredIdempotencyRecord
+  extends Omit<IdempotencyRecord, "createdAt" | "expiresAt"> {
+  createdAt: string;
+  expiresAt: string;
+}
+
+// OAuth State Storage Interface
+export interface OAuthStateRecord {
+  bindingHash: string;
+  // Session to link the new MailChimp account into, if /connect had one
+  sessionId?: string;
+  createdAt: Date;
+  expiresAt: Date;
+  consumedAt?: Date;
+}
+
+export interface StoredOAuthStateRecord
+  extends Omit<OAuthStateRecord, "createdAt" | "expiresAt" | "consumedAt"> {
+  createdAt: string;
+  expiresAt: string;
+  consumedAt?: string;
 }
 
 // Environment Configuration
@@ -103,3 +1091,71 @@ export interface MailChimpConfig {
   clientSecret: string;
   redirectUri: string;
 }
+
+export interface MailChimpClientConfig {
+  // Simultaneous requests per account (MailChimp allows 10 connections)
+  maxConcurrent: number;
+  timeoutMs: number;
+  // Retries after the first attempt
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  // Longest wait between attempts; a longer Retry-After is not waited out
+  retryMaxDelayMs: number;
+}
+
+export interface SessionStoreConfig {
+  driver: "memory" | "file";
+  filePath: string;
+}
+
+export interface OAuthStateStoreConfig {
+  driver: "memory" | "file";
+  filePath: string;
+}
+
+export interface IdempotencyConfig {
+  // How long a key (and its stored response) is kept
+  ttlMs: number;
+  // How long a request may hold its key without finishing; after that the
+  // key is free again, so a crashed request can't block retries for the TTL
+  leaseMs: number;
+  storeDriver: "memory" | "file";
+  storeFilePath: string;
+}
+
+export interface SendJobConfig {
+  storeDriver: "memory" | "file";
+  storeFilePath: string;
+  // How often the worker looks for queued or abandoned jobs
+  pollIntervalMs: number;
+  // How long a worker may hold a job without recording progress
+  leaseMs: number;
+  // How long finished jobs are kept for status polling
+  retentionMs: number;
+}
+
+export interface WebhookConfig {
+  // Public base URL MailChimp posts to
+  baseUrl: string;
+  storeDriver: "memory" | "file";
+  storeFilePath: string;
+}
+
+export interface SessionCookieConfig {
+  enabled: boolean;
+  name: string;
+  secret: string;
+  sameSite: "lax" | "strict" | "none";
+  secure: boolean;
+}
+
+export interface SessionTtlConfig {
+  absoluteTtlMs: number;
+  idleTtlMs: number;
+  sweepIntervalMs: number;
+}
+
+export interface TokenEncryptionConfig {
+  currentKeyId: string;
+  keys: Record<string, Buffer>;
+}
@@ -0,0 +1,62 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseCsv } from "./csv";
+
+test("parseCsv splits rows and fields", () => {
+  assert.deepEqual(parseCsv("email,FNAME\na@example.com,Ann\n"), [
+    { line: 1, values: ["email", "FNAME"] },
+    { line: 2, values: ["a@example.com", "Ann"] },
+  ]);
+});
+
+test("parseCsv handles CRLF, a missing final newline and a BOM", () => {
+  assert.deepEqual(parseCsv("\ufeffa,b\r\nc,d"), [
+    { line: 1, values: ["a", "b"] },
+    { line: 2, values: ["c", "d"] },
+  ]);
+});
+
+test("parseCsv reads quoted fields with commas and escaped quotes", () => {
+  assert.deepEqual(
+    parseCsv('"Doe, Jane","say ""hi"""\n').map((r) => r.values),
+    [["Doe, Jane", 'say "hi"']]
+  );
+});
+
+test("parseCsv keeps empty fields", () => {
+  assert.deepEqual(
+    parseCsv("a,,c\n,,\nx,y,").map((r) => r.values),
+    [
+      ["a", "", "c"],
+      ["x", "y", ""],
+    ]
+  );
+});
+
+test("parseCsv drops blank lines but keeps counting them", () => {
+  assert.deepEqual(parseCsv("a\n\n  \nb\n"), [
+    { line: 1, values: ["a"] },
+    { line: 4, values: ["b"] },
+  ]);
+});
+
+test("parseCsv numbers rows by the line they start on", () => {
+  const rows = parseCsv(
+    'email,note\na@example.com,"two\nlines"\nb@example.com,x\n'
+  );
+
+  assert.deepEqual(rows, [
+    { line: 1, values: ["email", "note"] },
+    { line: 2, values: ["a@example.com", "two\nlines"] },
+    { line: 4, values: ["b@example.com", "x"] },
+  ]);
+});
+
+test("parseCsv counts CRLF inside quotes as one line", () => {
+  const rows = parseCsv('"a\r\nb",c\r\nd,e\r\n');
+
+  assert.deepEqual(rows, [
+    { line: 1, values: ["a\r\nb", "c"] },
+    { line: 3, values: ["d", "e"] },
+  ]);
+});
@@ -0,0 +1,37 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { decodeCursor, encodeCursor, pageOffset } from "./cursor";
+
+test("cursors round-trip their offset", () => {
+  for (const offset of [0, 1, 50, 123456]) {
+    assert.equal(decodeCursor(encodeCursor(offset)), offset);
+  }
+});
+
+test("cursors are URL-safe", () => {
+  assert.match(encodeCursor(987654321), /^[A-Za-z0-9_-]+$/);
+});
+
+test("decodeCursor rejects malformed or hand-built cursors", () => {
+  const encode = (value: unknown) =>
+    Buffer.from(JSON.stringify(value)).toString("base64url");
+
+  assert.equal(decodeCursor("not a cursor"), null);
+  assert.equal(decodeCursor(""), null);
+  assert.equal(decodeCursor(encode({ offset: -1 })), null);
+  assert.equal(decodeCursor(encode({ offset: 1.5 })), null);
+  assert.equal(decodeCursor(encode({ offset: "10" })), null);
+  assert.equal(decodeCursor(encode(null)), null);
+});
+
+test("pageOffset starts at the first page", () => {
+  assert.equal(pageOffset({}), 0);
+});
+
+test("pageOffset reads offset", () => {
+  assert.equal(pageOffset({ offset: 50 }), 50);
+});
+
+test("pageOffset prefers the cursor over offset", () => {
+  assert.equal(pageOffset({ offset: 3, cursor: encodeCursor(40) }), 40);
+});
@@ -0,0 +1,21 @@
+// Opaque page cursors wrap the next offset so clients don't build them by hand
+export const encodeCursor = (offset: number): string =>
+  Buffer.from(JSON.stringify({ offset })).toString("base64url");
+
+export const decodeCursor = (cursor: string): number | null => {
+  try {
+    const { offset } = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8")
+    );
+    return Number.isInteger(offset) && offset >= 0 ? offset : null;
+  } catch {
+    return null;
+  }
+};
+
+// Offset of the page a validated query asks for (see pageFields in
+// schemas/common.ts); a cursor takes precedence over offset
+export const pageOffset = (query: {
+  offset?: number;
+  cursor?: string;
+}): number => (query.cursor ? decodeCursor(query.cursor)! : query.offset ?? 0);
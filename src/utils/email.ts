@@ -0,0 +1,5 @@
+// Loose syntactic check; MailChimp performs the authoritative validation
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const isValidEmail = (value: unknown): value is string =>
+  typeof value === "string" && value.length <= 254 && EMAIL_PATTERN.test(value);
@@ -0,0 +1,188 @@
+import { FieldError, MailChimpProblem } from "../types/mailchimp";
+
+/**
+ * Base class for errors that map to an HTTP response. `code` is a stable,
+ * machine-readable identifier clients can branch on; `message` is for people.
+ * The error middleware turns these into `{ success: false, message, code }`.
+ */
+export class ApiError extends Error {
+  // Problem details from MailChimp, when it caused the error
+  public problem?: MailChimpProblem;
+  // Sent as the response's `data`, e.g. what a failed multi-step request left
+  // behind
+  public data?: unknown;
+
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public fieldErrors?: FieldError[]
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+// 400: the request (or the data sent on to MailChimp) is invalid
+export class ValidationError extends ApiError {
+  constructor(
+    message: string,
+    fieldErrors: FieldError[] = [],
+    code = "validation_failed"
+  ) {
+    super(400, code, message, fieldErrors);
+    this.name = "ValidationError";
+  }
+}
+
+// 401: no usable session, or MailChimp no longer accepts the account's token
+export class AuthError extends ApiError {
+  constructor(code: string, message: string) {
+    super(401, code, message);
+    this.name = "AuthError";
+  }
+}
+
+export type SessionErrorCode =
+  | "session_required"
+  | "session_not_found"
+  | "session_expired";
+
+export class SessionError extends AuthError {
+  constructor(public code: SessionErrorCode, message: string) {
+    super(code, message);
+    this.name = "SessionError";
+  }
+}
+
+// MailChimp rejected the access token (revoked or otherwise invalid)
+export class TokenRevokedError extends AuthError {
+  constructor(message = "MailChimp access token has been revoked") {
+    super("account_revoked", message);
+    this.name = "TokenRevokedError";
+  }
+}
+
+// 403: the caller may not do this
+export class ForbiddenError extends ApiError {
+  constructor(message: string, code = "forbidden") {
+    super(403, code, message);
+    this.name = "ForbiddenError";
+  }
+}
+
+// 404
+export class NotFoundError extends ApiError {
+  constructor(message: string, code = "not_found") {
+    super(404, code, message);
+    this.name = "NotFoundError";
+  }
+}
+
+// 409: the resource is in the wrong state for this request
+export class ConflictError extends ApiError {
+  constructor(message: string, code = "conflict") {
+    super(409, code, message);
+    this.name = "ConflictError";
+  }
+}
+
+// 429: MailChimp is still rate limiting after the client's retries
+export class RateLimitedError extends ApiError {
+  constructor(message: string, public retryAfterSeconds?: number) {
+    super(429, "rate_limited", message);
+    this.name = "RateLimitedError";
+  }
+}
+
+// 403/422: MailChimp refuses because of the account's or member's standing
+// (suspended account, compliance hold, member in compliance state)
+export class ComplianceError extends ApiError {
+  constructor(status: 403 | 422, code: string, message: string) {
+    super(status, code, message);
+    this.name = "ComplianceError";
+  }
+}
+
+// 502/504: MailChimp failed, or didn't answer in time
+export class UpstreamError extends ApiError {
+  constructor(status: 502 | 504, code: string, message: string) {
+    super(status, code, message);
+    this.name = "UpstreamError";
+  }
+}
+
+const TIMEOUT_CODES = ["ECONNABORTED", "ETIMEDOUT"];
+
+// Helper function to pick the documented problem-detail fields out of a
+// MailChimp error body
+const toProblem = (data: any): MailChimpProblem | undefined => {
+  if (!data || typeof data !== "object") return undefined;
+
+  const { type, title, status, detail, instance } = data;
+  return { type, title, status, detail, instance };
+};
+
+// Turn a failed MailChimp call into a typed error, keeping MailChimp's
+// problem details. `message` says what we were doing, e.g. "Failed to send
+// campaign"; MailChimp's explanation is appended when there is one.
+export const fromMailChimpError = (error: any, message: string): ApiError => {
+  if (error instanceof ApiError) return error;
+
+  const response = error?.response;
+
+  if (!response) {
+    return TIMEOUT_CODES.includes(error?.code)
+      ? new UpstreamError(
+          504,
+          "mailchimp_timeout",
+          `${message}: MailChimp did not respond in time`
+        )
+      : new UpstreamError(
+          502,
+          "mailchimp_unavailable",
+          `${message}: MailChimp could not be reached`
+        );
+  }
+
+  const status: number = response.status;
+  const problem = toProblem(response.data);
+  const title = problem?.title || "";
+  const detailed = problem?.detail ? `${message}: ${problem.detail}` : message;
+  let mapped: ApiError;
+
+  if (status === 401) {
+    mapped = new TokenRevokedError();
+  } else if (status === 403) {
+    mapped = new ComplianceError(403, "account_restricted", detailed);
+  } else if (status === 404) {
+    mapped = new NotFoundError(detailed);
+  } else if (status === 429) {
+    const retryAfter = Number(response.headers?.["retry-after"]);
+    mapped = new RateLimitedError(
+      detailed,
+      Number.isFinite(retryAfter) ? retryAfter : undefined
+    );
+  } else if (status >= 500) {
+    mapped = new UpstreamError(502, "mailchimp_unavailable", detailed);
+  } else if (/compliance/i.test(title)) {
+    mapped = new ComplianceError(422, "compliance_state", detailed);
+  } else if (status === 400 || status === 422) {
+    const fieldErrors: FieldError[] = Array.isArray(response.data?.errors)
+      ? response.data.errors.map((item: any) => ({
+          field: String(item.field ?? ""),
+          message: String(item.message ?? ""),
+        }))
+      : [];
+    mapped = new ValidationError(
+      detailed,
+      fieldErrors,
+      "mailchimp_validation_failed"
+    );
+  } else {
+    mapped = new UpstreamError(502, "mailchimp_error", detailed);
+  }
+
+  mapped.problem = problem;
+  return mapped;
+};
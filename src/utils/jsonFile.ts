@@ -0,0 +1,46 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// A JSON object of records kept in one file. Reads go to disk each time;
+// writes are serialized through an in-process queue and replace the file
+// atomically. There is no locking between processes, so the file must only be
+// written by one server process: replicas sharing it would drop each other's
+// changes.
+export class JsonFile<T> {
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  async read(): Promise<Record<string, T>> {
+    try {
+      const contents = await fs.readFile(this.filePath, "utf8");
+      return JSON.parse(contents);
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  // Run a read-modify-write cycle; resolves with whatever `mutate` returns
+  update<R>(mutate: (records: Record<string, T>) => R): Promise<R> {
+    const run = this.writeQueue.then(async () => {
+      const records = await this.read();
+      const result = mutate(records);
+
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify(records), {
+        mode: 0o600,
+      });
+      await fs.rename(tempPath, this.filePath);
+
+      return result;
+    });
+
+    // Keep the queue alive even if this write fails
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+}
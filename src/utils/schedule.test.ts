@@ -0,0 +1,83 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  isOnScheduleSlot,
+  isValidTimeZone,
+  resolveScheduleTime,
+} from "./schedule";
+
+const iso = (date: Date | null) => date?.toISOString() ?? null;
+
+test("isValidTimeZone accepts IANA zones only", () => {
+  assert.equal(isValidTimeZone("UTC"), true);
+  assert.equal(isValidTimeZone("America/New_York"), true);
+  assert.equal(isValidTimeZone("Mars/Olympus_Mons"), false);
+  assert.equal(isValidTimeZone(""), false);
+});
+
+test("resolveScheduleTime reads wall-clock times as UTC by default", () => {
+  assert.equal(
+    iso(resolveScheduleTime("2024-05-01T09:30")),
+    "2024-05-01T09:30:00.000Z"
+  );
+  assert.equal(
+    iso(resolveScheduleTime("2024-05-01 09:30:15")),
+    "2024-05-01T09:30:15.000Z"
+  );
+});
+
+test("resolveScheduleTime keeps an explicit offset", () => {
+  assert.equal(
+    iso(resolveScheduleTime("2024-05-01T09:30:00+02:00", "America/New_York")),
+    "2024-05-01T07:30:00.000Z"
+  );
+  assert.equal(
+    iso(resolveScheduleTime("2024-05-01T09:30:00.000Z")),
+    "2024-05-01T09:30:00.000Z"
+  );
+});
+
+test("resolveScheduleTime applies the zone's offset on either side of DST", () => {
+  assert.equal(
+    iso(resolveScheduleTime("2024-01-15T09:30", "America/New_York")),
+    "2024-01-15T14:30:00.000Z"
+  );
+  assert.equal(
+    iso(resolveScheduleTime("2024-07-01T09:30", "America/New_York")),
+    "2024-07-01T13:30:00.000Z"
+  );
+  // Europe/London moved to summer time at 01:00 UTC that morning
+  assert.equal(
+    iso(resolveScheduleTime("2024-03-31T12:00", "Europe/London")),
+    "2024-03-31T11:00:00.000Z"
+  );
+  assert.equal(
+    iso(resolveScheduleTime("2024-05-01T09:30", "Asia/Kolkata")),
+    "2024-05-01T04:00:00.000Z"
+  );
+});
+
+test("resolveScheduleTime rejects malformed and impossible dates", () => {
+  assert.equal(resolveScheduleTime("tomorrow at nine"), null);
+  assert.equal(resolveScheduleTime("2024-05-01"), null);
+  assert.equal(resolveScheduleTime("2024-02-30T09:00"), null);
+  assert.equal(resolveScheduleTime("2024-13-01T09:00"), null);
+  assert.equal(resolveScheduleTime("2024-05-01T25:00:00Z"), null);
+});
+
+test("resolveScheduleTime accepts leap days", () => {
+  assert.equal(
+    iso(resolveScheduleTime("2024-02-29T09:00")),
+    "2024-02-29T09:00:00.000Z"
+  );
+  assert.equal(resolveScheduleTime("2023-02-29T09:00"), null);
+});
+
+test("isOnScheduleSlot checks quarter-hour boundaries", () => {
+  assert.equal(isOnScheduleSlot(new Date("2024-05-01T09:45:00Z"), 15), true);
+  assert.equal(isOnScheduleSlot(new Date("2024-05-01T09:40:00Z"), 15), false);
+  assert.equal(isOnScheduleSlot(new Date("2024-05-01T09:45:30Z"), 15), false);
+  // A half-hour zone still lands on a UTC slot
+  const sendAt = resolveScheduleTime("2024-05-01T09:30", "Asia/Kolkata")!;
+  assert.equal(isOnScheduleSlot(sendAt, 15), true);
+});
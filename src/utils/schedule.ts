@@ -0,0 +1,77 @@
+// Wall-clock date/time without an offset, e.g. "2024-05-01T09:30" or "2024-05-01 09:30:00"
+const LOCAL_TIME_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?$/;
+// ISO 8601 date/time carrying its own offset, e.g. "2024-05-01T13:30:00Z"
+const OFFSET_TIME_PATTERN =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/;
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Offset of a time zone from UTC at the given instant, in milliseconds
+const getTimeZoneOffset = (instant: number, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant));
+  const value = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  const asUtc = Date.UTC(
+    value("year"),
+    value("month") - 1,
+    value("day"),
+    value("hour"),
+    value("minute"),
+    value("second")
+  );
+  return asUtc - Math.floor(instant / 1000) * 1000;
+};
+
+// Resolve a schedule time to an instant. Times with an explicit offset are
+// taken as-is; wall-clock times are read in `timeZone`.
+// Returns null when the input can't be parsed.
+export const resolveScheduleTime = (
+  scheduleTime: string,
+  timeZone = "UTC"
+): Date | null => {
+  if (OFFSET_TIME_PATTERN.test(scheduleTime)) {
+    const date = new Date(scheduleTime);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const match = LOCAL_TIME_PATTERN.exec(scheduleTime);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second] = match.map((part) =>
+    Number(part ?? 0)
+  );
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+
+  // Reject dates that rolled over (e.g. February 30th)
+  const check = new Date(wallClock);
+  if (check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day) {
+    return null;
+  }
+
+  // Apply the zone's offset, then correct once in case it changed across DST
+  let instant = wallClock - getTimeZoneOffset(wallClock, timeZone);
+  instant = wallClock - getTimeZoneOffset(instant, timeZone);
+  return new Date(instant);
+};
+
+// MailChimp only schedules on quarter-hour boundaries (in UTC)
+export const isOnScheduleSlot = (date: Date, slotMinutes: number): boolean =>
+  date.getTime() % (slotMinutes * 60 * 1000) === 0;
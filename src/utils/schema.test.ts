@@ -0,0 +1,202 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  Schema,
+  array,
+  boolean,
+  forbidden,
+  integer,
+  nullable,
+  object,
+  oneOf,
+  optional,
+  record,
+  string,
+  unknownValue,
+} from "./schema";
+import { FieldError } from "../types/mailchimp";
+
+// Parse a value, returning the result along with every error reported
+const run = <T>(schema: Schema<T>, value: unknown) => {
+  const errors: FieldError[] = [];
+  const result = schema.parse(value, "", errors);
+  return { result, errors: errors.map((error) => error.message) };
+};
+
+test("string checks type, emptiness, length and custom rules", () => {
+  const name = string({
+    max: 5,
+    check: (value) => (value === "admin" ? "must not be reserved" : null),
+  });
+
+  assert.deepEqual(run(name, "Ann"), { result: "Ann", errors: [] });
+  assert.deepEqual(run(name, 5), {
+    result: undefined,
+    errors: ["value must be a string"],
+  });
+  assert.deepEqual(run(name, "  ").errors, ["value must not be empty"]);
+  assert.deepEqual(run(name, "Annabel").errors, [
+    "value must be at most 5 characters",
+  ]);
+  assert.deepEqual(run(name, "admin").errors, ["value must not be reserved"]);
+  assert.deepEqual(run(string({ allowEmpty: true }), ""), {
+    result: "",
+    errors: [],
+  });
+});
+
+test("integer checks bounds and converts query strings when asked", () => {
+  const count = integer({ min: 1, max: 10, coerce: true });
+
+  assert.equal(run(count, "5").result, 5);
+  assert.equal(run(count, ["7", "8"]).result, 7);
+  assert.deepEqual(run(count, "0").errors, ["value must be at least 1"]);
+  assert.deepEqual(run(count, "11").errors, ["value must be at most 10"]);
+  assert.deepEqual(run(count, "1.5").errors, ["value must be an integer"]);
+  assert.deepEqual(run(count, "").errors, ["value must be an integer"]);
+  assert.deepEqual(run(integer(), "5").errors, ["value must be an integer"]);
+});
+
+test("boolean accepts query-string flags only when coercing", () => {
+  assert.equal(run(boolean(), false).result, false);
+  assert.equal(run(boolean({ coerce: true }), "true").result, true);
+  assert.equal(run(boolean({ coerce: true }), "false").result, false);
+  assert.deepEqual(run(boolean(), "true").errors, [
+    "value must be true or false",
+  ]);
+  assert.deepEqual(run(boolean({ coerce: true }), "yes").errors, [
+    "value must be true or false",
+  ]);
+});
+
+test("oneOf accepts only the listed values", () => {
+  const sort = oneOf(["asc", "desc"] as const);
+
+  assert.equal(run(sort, "asc").result, "asc");
+  assert.deepEqual(run(sort, "up").errors, ["value must be one of: asc, desc"]);
+});
+
+test("unknownValue passes anything but null and undefined", () => {
+  assert.deepEqual(run(unknownValue(), { a: 1 }).result, { a: 1 });
+  assert.equal(run(unknownValue(), 0).result, 0);
+  assert.deepEqual(run(unknownValue(), null).errors, ["value is required"]);
+});
+
+test("array checks its length and reports every bad item by index", () => {
+  const ids = array(integer({ min: 1 }), { min: 1, max: 3 });
+
+  assert.deepEqual(run(ids, [1, 2]), { result: [1, 2], errors: [] });
+  assert.deepEqual(run(ids, []).errors, ["value must not be empty"]);
+  assert.deepEqual(run(ids, [1, 2, 3, 4]).errors, [
+    "value must have at most 3 items",
+  ]);
+  assert.deepEqual(run(ids, [1, 0, "x"]), {
+    result: undefined,
+    errors: ["[1] must be at least 1", "[2] must be an integer"],
+  });
+  assert.deepEqual(run(array(string(), { min: 2 }), ["a"]).errors, [
+    "value must have at least 2 items",
+  ]);
+});
+
+test("record checks every value under its key", () => {
+  const counts = record(integer());
+
+  assert.deepEqual(run(counts, { a: 1, b: 2 }), {
+    result: { a: 1, b: 2 },
+    errors: [],
+  });
+  assert.deepEqual(run(counts, { a: "x", b: 2, c: 1.5 }), {
+    result: undefined,
+    errors: ["a must be an integer", "c must be an integer"],
+  });
+  assert.deepEqual(run(counts, ["a"]).errors, ["value must be an object"]);
+});
+
+test("object reports every field error with its path", () => {
+  const schema = object({
+    name: string(),
+    tags: array(object({ id: integer() })),
+    note: optional(string()),
+  });
+  const errors: FieldError[] = [];
+
+  const result = schema.parse(
+    { tags: [{ id: 1 }, { id: "two" }], note: 3 },
+    "body",
+    errors
+  );
+
+  assert.equal(result, undefined);
+  assert.deepEqual(errors, [
+    { field: "body.name", message: "body.name is required" },
+    { field: "body.tags[1].id", message: "body.tags[1].id must be an integer" },
+    { field: "body.note", message: "body.note must be a string" },
+  ]);
+});
+
+test("object drops unknown keys and leaves out missing optional ones", () => {
+  const schema = object({ name: string(), note: optional(string()) });
+
+  assert.deepEqual(run(schema, { name: "Ann", admin: true }), {
+    result: { name: "Ann" },
+    errors: [],
+  });
+  assert.deepEqual(run(schema, []).errors, ["value must be an object"]);
+  assert.deepEqual(run(schema, null).errors, ["value must be an object"]);
+});
+
+test("object runs refine only once every field is valid", () => {
+  let refined = 0;
+  const range = object(
+    { from: integer(), to: integer() },
+    {
+      refine: (value, path) => {
+        refined++;
+        return value.from <= value.to
+          ? []
+          : [{ field: path, message: "from must not be after to" }];
+      },
+    }
+  );
+
+  assert.deepEqual(run(range, { from: 1, to: 2 }).result, { from: 1, to: 2 });
+  assert.deepEqual(run(range, { from: 3, to: 2 }), {
+    result: undefined,
+    errors: ["from must not be after to"],
+  });
+  assert.equal(refined, 2);
+
+  run(range, { from: "x", to: 2 });
+  assert.equal(refined, 2);
+});
+
+test("optional skips undefined but still checks present values", () => {
+  const note = optional(string());
+
+  assert.deepEqual(run(note, undefined), { result: undefined, errors: [] });
+  assert.deepEqual(run(note, 5).errors, ["value must be a string"]);
+});
+
+test("nullable accepts null on top of its schema", () => {
+  const note = nullable(string());
+
+  assert.deepEqual(run(note, null), { result: null, errors: [] });
+  assert.deepEqual(run(note, "hi").result, "hi");
+  assert.deepEqual(run(note, 5).errors, ["value must be a string"]);
+});
+
+test("forbidden rejects any value but may be left out", () => {
+  const schema = object({
+    name: string(),
+    type: forbidden("can't be changed"),
+  });
+
+  assert.deepEqual(run(schema, { name: "Ann" }), {
+    result: { name: "Ann" },
+    errors: [],
+  });
+  assert.deepEqual(run(schema, { name: "Ann", type: "text" }).errors, [
+    "type can't be changed",
+  ]);
+});
@@ -0,0 +1,279 @@
+import { FieldError } from "../types/mailchimp";
+
+/**
+ * Minimal declarative schemas for request validation. A schema checks a value,
+ * records every problem it finds in `errors` (so callers can report them all
+ * at once) and returns the value to use, converted where the schema says so
+ * (e.g. query strings to numbers), or undefined when the value is invalid.
+ * The TypeScript type of a valid result is available as
+ * `Infer<typeof schema>`.
+ */
+export interface Schema<T> {
+  parse(value: unknown, path: string, errors: FieldError[]): T | undefined;
+  // Whether an object may leave this key out
+  optional?: boolean;
+}
+
+// Marks object keys that may be left out
+export interface OptionalSchema<T> extends Schema<T | undefined> {
+  optional: true;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: S[K] extends OptionalSchema<unknown> ? K : never;
+}[keyof S];
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+export type InferShape<S extends Shape> = Simplify<
+  {
+    [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>;
+  } & {
+    [K in OptionalKeys<S>]?: Exclude<Infer<S[K]>, undefined>;
+  }
+>;
+
+// True only when A and B are the same type, down to optional fields; used to
+// pin schemas to the interfaces in types/mailchimp.ts
+export type SameType<A, B> = (<T>() => T extends A ? 1 : 2) extends <
+  T
+>() => T extends B ? 1 : 2
+  ? true
+  : false;
+
+const fieldName = (path: string) => path || "value";
+
+const fail = (
+  errors: FieldError[],
+  path: string,
+  problem: string
+): undefined => {
+  errors.push({ field: path, message: `${fieldName(path)} ${problem}` });
+  return undefined;
+};
+
+export const childPath = (path: string, key: string | number): string =>
+  typeof key === "number" ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+// Query values arrive as strings; take the first of repeated parameters
+const fromQuery = (value: unknown): unknown =>
+  Array.isArray(value) ? value[0] : value;
+
+export interface StringOptions {
+  max?: number;
+  // Strings must contain more than whitespace unless this is set
+  allowEmpty?: boolean;
+  // Extra check returning a problem ("must be ...") or null
+  check?: (value: string) => string | null;
+}
+
+export const string = (options: StringOptions = {}): Schema<string> => ({
+  parse(value, path, errors) {
+    if (typeof value !== "string")
+      return fail(errors, path, "must be a string");
+    if (!options.allowEmpty && !value.trim()) {
+      return fail(errors, path, "must not be empty");
+    }
+
+    if (options.max !== undefined && value.length > options.max) {
+      return fail(errors, path, `must be at most ${options.max} characters`);
+    }
+
+    const problem = options.check?.(value);
+    if (problem) return fail(errors, path, problem);
+
+    return value;
+  },
+});
+
+export interface IntegerOptions {
+  min?: number;
+  max?: number;
+  // Accept query-string numbers ("10")
+  coerce?: boolean;
+}
+
+export const integer = (options: IntegerOptions = {}): Schema<number> => ({
+  parse(value, path, errors) {
+    const raw = options.coerce ? fromQuery(value) : value;
+    const number =
+      options.coerce && typeof raw === "string" && raw.trim()
+        ? Number(raw)
+        : raw;
+
+    if (typeof number !== "number" || !Number.isInteger(number)) {
+      return fail(errors, path, "must be an integer");
+    }
+    if (options.min !== undefined && number < options.min) {
+      return fail(errors, path, `must be at least ${options.min}`);
+    }
+    if (options.max !== undefined && number > options.max) {
+      return fail(errors, path, `must be at most ${options.max}`);
+    }
+
+    return number;
+  },
+});
+
+// `coerce` accepts the query-string flags "true" and "false"
+export const boolean = (
+  options: { coerce?: boolean } = {}
+): Schema<boolean> => ({
+  parse(value, path, errors) {
+    const raw = options.coerce ? fromQuery(value) : value;
+
+    if (typeof raw === "boolean") return raw;
+    if (options.coerce && (raw === "true" || raw === "false")) {
+      return raw === "true";
+    }
+
+    return fail(errors, path, "must be true or false");
+  },
+});
+
+export const oneOf = <T extends string>(
+  values: readonly T[],
+  options: { coerce?: boolean } = {}
+): Schema<T> => ({
+  parse(value, path, errors) {
+    const raw = options.coerce ? fromQuery(value) : value;
+
+    if (typeof raw !== "string" || !values.includes(raw as T)) {
+      return fail(errors, path, `must be one of: ${values.join(", ")}`);
+    }
+
+    return raw as T;
+  },
+});
+
+// Any value other than undefined or null, passed through as is
+export const unknownValue = (): Schema<unknown> => ({
+  parse(value, path, errors) {
+    if (value === undefined || value === null) {
+      return fail(errors, path, "is required");
+    }
+    return value;
+  },
+});
+
+export const array = <T>(
+  item: Schema<T>,
+  options: { min?: number; max?: number } = {}
+): Schema<T[]> => ({
+  parse(value, path, errors) {
+    if (!Array.isArray(value)) return fail(errors, path, "must be an array");
+
+    if (options.min !== undefined && value.length < options.min) {
+      return fail(
+        errors,
+        path,
+        options.min === 1
+          ? "must not be empty"
+          : `must have at least ${options.min} items`
+      );
+    }
+    if (options.max !== undefined && value.length > options.max) {
+      return fail(errors, path, `must have at most ${options.max} items`);
+    }
+
+    const items: T[] = [];
+    let valid = true;
+
+    value.forEach((entry, index) => {
+      const parsed = item.parse(entry, childPath(path, index), errors);
+      if (parsed === undefined) valid = false;
+      else items.push(parsed);
+    });
+
+    return valid ? items : undefined;
+  },
+});
+
+// Objects with arbitrary keys (e.g. merge tags); every value is checked
+export const record = <T>(value: Schema<T>): Schema<Record<string, T>> => ({
+  parse(input, path, errors) {
+    if (!input || typeof input !== "object" || Array.isArray(input)) {
+      return fail(errors, path, "must be an object");
+    }
+
+    const result: Record<string, T> = {};
+    let valid = true;
+
+    for (const [key, entry] of Object.entries(input)) {
+      const parsed = value.parse(entry, childPath(path, key), errors);
+      if (parsed === undefined) valid = false;
+      else result[key] = parsed;
+    }
+
+    return valid ? result : undefined;
+  },
+});
+
+export interface ObjectOptions<T> {
+  // Rules spanning several fields; only run once every field is valid
+  refine?: (value: T, path: string) => FieldError[];
+}
+
+// Unknown keys are dropped from the result
+export const object = <S extends Shape>(
+  shape: S,
+  options: ObjectOptions<InferShape<S>> = {}
+): Schema<InferShape<S>> => ({
+  parse(value, path, errors) {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      return fail(errors, path, "must be an object");
+    }
+
+    const input = value as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+    const errorCount = errors.length;
+
+    for (const [key, schema] of Object.entries(shape)) {
+      const keyPath = childPath(path, key);
+      const entry = input[key];
+
+      if ((entry === undefined || entry === null) && !schema.optional) {
+        fail(errors, keyPath, "is required");
+        continue;
+      }
+
+      const parsed = schema.parse(entry, keyPath, errors);
+      if (parsed !== undefined) result[key] = parsed;
+    }
+
+    if (errors.length > errorCount) return undefined;
+
+    // Every required key is present and every value passed its schema
+    const parsed = result as InferShape<S>;
+    if (options.refine) {
+      const problems = options.refine(parsed, path);
+      errors.push(...problems);
+      if (problems.length > 0) return undefined;
+    }
+
+    return parsed;
+  },
+});
+
+export const optional = <T>(schema: Schema<T>): OptionalSchema<T> => ({
+  optional: true,
+  parse: (value, path, errors) =>
+    value === undefined ? undefined : schema.parse(value, path, errors),
+});
+
+// Also accepts null, e.g. to clear a setting
+export const nullable = <T>(schema: Schema<T>): Schema<T | null> => ({
+  parse: (value, path, errors) =>
+    value === null ? null : schema.parse(value, path, errors),
+});
+
+// Rejects any value; for fields a request may not change
+export const forbidden = (problem: string): OptionalSchema<never> => ({
+  optional: true,
+  parse: (value, path, errors) =>
+    value === undefined ? undefined : fail(errors, path, problem),
+});
@@ -0,0 +1,145 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { buildSegmentOpts, validateTargeting } from "./segment";
+
+test("buildSegmentOpts targets a saved segment by ID", () => {
+  assert.deepEqual(buildSegmentOpts({ segmentId: 42 }), {
+    saved_segment_id: 42,
+  });
+});
+
+test("buildSegmentOpts turns tags, interests and conditions into conditions", () => {
+  const opts = buildSegmentOpts({
+    match: "any",
+    tags: [7],
+    interests: [
+      { categoryId: "cat1", interestIds: ["a", "b"] },
+      { categoryId: "cat2", interestIds: ["c"], match: "none" },
+    ],
+    conditions: [
+      { conditionType: "TextMerge", field: "FNAME", op: "is", value: "Ann" },
+    ],
+  });
+
+  assert.deepEqual(opts, {
+    match: "any",
+    conditions: [
+      {
+        condition_type: "StaticSegment",
+        field: "static_segment",
+        op: "static_is",
+        value: 7,
+      },
+      {
+        condition_type: "Interests",
+        field: "interests-cat1",
+        op: "interestcontains",
+        value: ["a", "b"],
+      },
+      {
+        condition_type: "Interests",
+        field: "interests-cat2",
+        op: "interestnotcontains",
+        value: ["c"],
+      },
+      {
+        condition_type: "TextMerge",
+        field: "FNAME",
+        op: "is",
+        value: "Ann",
+      },
+    ],
+  });
+});
+
+test("buildSegmentOpts matches all conditions by default", () => {
+  const opts = buildSegmentOpts({
+    interests: [{ categoryId: "cat", interestIds: ["a"], match: "all" }],
+  });
+
+  assert.deepEqual(opts, {
+    match: "all",
+    conditions: [
+      {
+        condition_type: "Interests",
+        field: "interests-cat",
+        op: "interestcontainsall",
+        value: ["a"],
+      },
+    ],
+  });
+});
+
+test("validateTargeting accepts valid targeting", () => {
+  assert.equal(validateTargeting({ segmentId: 1 }), null);
+  assert.equal(validateTargeting({ tags: [1, 2], match: "any" }), null);
+  assert.equal(
+    validateTargeting({
+      interests: [{ categoryId: "cat", interestIds: ["a"] }],
+      conditions: [
+        {
+          conditionType: "Date",
+          field: "timestamp_opt",
+          op: "greater",
+          value: "2024-01-01",
+        },
+      ],
+    }),
+    null
+  );
+});
+
+test("validateTargeting rejects a saved segment combined with other options", () => {
+  assert.equal(
+    validateTargeting({ segmentId: 1, tags: [2] }),
+    "targeting.segmentId cannot be combined with tags, interests or conditions"
+  );
+  assert.equal(
+    validateTargeting({ segmentId: 0 }),
+    "targeting.segmentId must be a positive integer"
+  );
+});
+
+test("validateTargeting rejects empty or malformed targeting", () => {
+  assert.equal(validateTargeting(null), "targeting must be an object");
+  assert.equal(validateTargeting([]), "targeting must be an object");
+  assert.equal(
+    validateTargeting({}),
+    "targeting needs a segmentId, tags, interests or conditions"
+  );
+  assert.equal(
+    validateTargeting({ tags: [] }),
+    "targeting.tags must be a non-empty array of tag IDs"
+  );
+  assert.equal(
+    validateTargeting({ tags: [1], match: "some" }),
+    "targeting.match must be any or all"
+  );
+  assert.match(
+    validateTargeting({ interests: [{ categoryId: "cat", interestIds: [] }] })!,
+    /^Each targeting.interests entry/
+  );
+  assert.match(
+    validateTargeting({
+      conditions: [{ conditionType: "TextMerge", field: "FNAME", op: "is" }],
+    })!,
+    /^Each targeting.conditions entry/
+  );
+});
+
+test("validateTargeting enforces MailChimp's condition limit", () => {
+  assert.equal(
+    validateTargeting({
+      tags: [1, 2, 3],
+      interests: [
+        { categoryId: "a", interestIds: ["x"] },
+        { categoryId: "b", interestIds: ["y"] },
+      ],
+    }),
+    null
+  );
+  assert.equal(
+    validateTargeting({ tags: [1, 2, 3, 4, 5, 6] }),
+    "targeting can have at most 5 tags, interests and conditions combined"
+  );
+});
@@ -0,0 +1,134 @@
+import {
+  CampaignTargeting,
+  InterestSelection,
+  MailChimpSegmentOpts,
+} from "../types/mailchimp";
+
+// MailChimp accepts at most five conditions per segment
+export const MAX_SEGMENT_CONDITIONS = 5;
+
+const INTEREST_OPS: Record<NonNullable<InterestSelection["match"]>, string> = {
+  any: "interestcontains",
+  all: "interestcontainsall",
+  none: "interestnotcontains",
+};
+
+const isPositiveInteger = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) > 0;
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim() !== "";
+
+// Check a targeting object; returns an error message, or null when valid
+export const validateTargeting = (targeting: unknown): string | null => {
+  if (!targeting || typeof targeting !== "object" || Array.isArray(targeting)) {
+    return "targeting must be an object";
+  }
+
+  const { segmentId, tags, interests, conditions, match } =
+    targeting as CampaignTargeting;
+
+  if (segmentId !== undefined) {
+    if (!isPositiveInteger(segmentId)) {
+      return "targeting.segmentId must be a positive integer";
+    }
+    if (tags || interests || conditions) {
+      return "targeting.segmentId cannot be combined with tags, interests or conditions";
+    }
+    return null;
+  }
+
+  if (match !== undefined && match !== "any" && match !== "all") {
+    return "targeting.match must be any or all";
+  }
+
+  if (
+    tags !== undefined &&
+    (!Array.isArray(tags) ||
+      tags.length === 0 ||
+      !tags.every(isPositiveInteger))
+  ) {
+    return "targeting.tags must be a non-empty array of tag IDs";
+  }
+
+  if (interests !== undefined) {
+    if (!Array.isArray(interests) || interests.length === 0) {
+      return "targeting.interests must be a non-empty array";
+    }
+    for (const selection of interests) {
+      if (
+        !selection ||
+        !isNonEmptyString(selection.categoryId) ||
+        !Array.isArray(selection.interestIds) ||
+        selection.interestIds.length === 0 ||
+        !selection.interestIds.every(isNonEmptyString) ||
+        (selection.match !== undefined && !(selection.match in INTEREST_OPS))
+      ) {
+        return "Each targeting.interests entry needs a categoryId, a non-empty interestIds array and an optional match of any, all or none";
+      }
+    }
+  }
+
+  if (conditions !== undefined) {
+    if (!Array.isArray(conditions) || conditions.length === 0) {
+      return "targeting.conditions must be a non-empty array";
+    }
+    for (const condition of conditions) {
+      if (
+        !condition ||
+        !isNonEmptyString(condition.conditionType) ||
+        !isNonEmptyString(condition.field) ||
+        !isNonEmptyString(condition.op) ||
+        condition.value === undefined
+      ) {
+        return "Each targeting.conditions entry needs conditionType, field, op and value";
+      }
+    }
+  }
+
+  const total =
+    (tags?.length || 0) + (interests?.length || 0) + (conditions?.length || 0);
+
+  if (total === 0) {
+    return "targeting needs a segmentId, tags, interests or conditions";
+  }
+
+  if (total > MAX_SEGMENT_CONDITIONS) {
+    return `targeting can have at most ${MAX_SEGMENT_CONDITIONS} tags, interests and conditions combined`;
+  }
+
+  return null;
+};
+
+// Translate validated targeting into MailChimp's segment_opts
+export const buildSegmentOpts = (
+  targeting: CampaignTargeting
+): MailChimpSegmentOpts => {
+  if (targeting.segmentId !== undefined) {
+    return { saved_segment_id: targeting.segmentId };
+  }
+
+  return {
+    match: targeting.match || "all",
+    conditions: [
+      ...(targeting.tags || []).map((tagId) => ({
+        condition_type: "StaticSegment",
+        field: "static_segment",
+        op: "static_is",
+        value: tagId,
+      })),
+      ...(targeting.interests || []).map((selection) => ({
+        condition_type: "Interests",
+        field: `interests-${selection.categoryId}`,
+        op: INTEREST_OPS[selection.match || "any"],
+        value: selection.interestIds,
+      })),
+      ...(targeting.conditions || []).map((condition) => ({
+        condition_type: condition.conditionType,
+        field: condition.field,
+        op: condition.op,
+        value: condition.value,
+      })),
+    ],
+  };
+};
@@ -0,0 +1,42 @@
+import { Request, Response } from "express";
+import {
+  getSessionCookieConfig,
+  getSessionTtlConfig,
+} from "../config/session";
+
+const cookieConfig = getSessionCookieConfig();
+const ttlConfig = getSessionTtlConfig();
+
+export const isCookieSessionMode = (): boolean => cookieConfig.enabled;
+
+// Secret used by cookie-parser to sign and verify cookies
+export const getCookieSecret = (): string => cookieConfig.secret;
+
+// Set the signed, HttpOnly session cookie
+export const setSessionCookie = (res: Response, sessionId: string): void => {
+  res.cookie(cookieConfig.name, sessionId, {
+    httpOnly: true,
+    signed: true,
+    sameSite: cookieConfig.sameSite,
+    secure: cookieConfig.secure,
+    maxAge: ttlConfig.absoluteTtlMs,
+  });
+};
+
+// Remove the session cookie
+export const clearSessionCookie = (res: Response): void => {
+  res.clearCookie(cookieConfig.name, {
+    httpOnly: true,
+    signed: true,
+    sameSite: cookieConfig.sameSite,
+    secure: cookieConfig.secure,
+  });
+};
+
+// Read the session ID from the signed cookie; tampered cookies read as absent
+export const readSessionCookie = (req: Request): string | undefined => {
+  if (!cookieConfig.enabled) return undefined;
+
+  const value = req.signedCookies?.[cookieConfig.name];
+  return typeof value === "string" && value ? value : undefined;
+};
@@ -0,0 +1,11 @@
+import crypto from "crypto";
+
+// MailChimp addresses list members by the MD5 hash of the lowercased email
+export const getSubscriberHash = (email: string): string =>
+  crypto.createHash("md5").update(email.trim().toLowerCase()).digest("hex");
+
+// Accept either an email address or an existing subscriber hash
+export const toSubscriberHash = (emailOrHash: string): string =>
+  /^[0-9a-f]{32}$/i.test(emailOrHash)
+    ? emailOrHash.toLowerCase()
+    : getSubscriberHash(emailOrHash);
@@ -0,0 +1,162 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseWebhookPayload } from "./webhookPayload";
+
+const context = { registrationId: "reg1", accountId: "acct1" };
+const firedAt = new Date("2024-05-01T09:30:15Z");
+
+test("parseWebhookPayload reads a subscribe event", () => {
+  const event = parseWebhookPayload(
+    {
+      type: "subscribe",
+      fired_at: "2024-05-01 09:30:15",
+      data: {
+        id: "abc",
+        list_id: "list1",
+        email: "ann@example.com",
+        email_type: "html",
+        ip_opt: "10.0.0.1",
+        ip_signup: "",
+        merges: { FNAME: "Ann", INTERESTS: "Dogs" },
+      },
+    },
+    context
+  );
+
+  assert.deepEqual(event, {
+    ...context,
+    type: "subscribe",
+    listId: "list1",
+    firedAt,
+    member: {
+      id: "abc",
+      email: "ann@example.com",
+      emailType: "html",
+      merges: { FNAME: "Ann", INTERESTS: "Dogs" },
+      ipOpt: "10.0.0.1",
+      ipSignup: null,
+    },
+  });
+});
+
+test("parseWebhookPayload reads an unsubscribe with its campaign", () => {
+  const event = parseWebhookPayload(
+    {
+      type: "unsubscribe",
+      fired_at: "2024-05-01 09:30:15",
+      data: {
+        list_id: "list1",
+        email: "ann@example.com",
+        reason: "manual",
+        campaign_id: "camp1",
+      },
+    },
+    context
+  );
+
+  assert.equal(event?.type, "unsubscribe");
+  if (event?.type !== "unsubscribe") return;
+  assert.equal(event.action, "unsub");
+  assert.equal(event.reason, "manual");
+  assert.equal(event.campaignId, "camp1");
+  assert.deepEqual(event.member.merges, {});
+});
+
+test("parseWebhookPayload reads email changes, cleaned addresses and campaign events", () => {
+  const parse = (type: string, data: Record<string, unknown>) =>
+    parseWebhookPayload(
+      {
+        type,
+        fired_at: "2024-05-01 09:30:15",
+        data: { list_id: "list1", ...data },
+      },
+      context
+    );
+
+  assert.deepEqual(
+    parse("upemail", {
+      new_id: "n1",
+      new_email: "new@example.com",
+      old_email: "old@example.com",
+    }),
+    {
+      ...context,
+      type: "upemail",
+      listId: "list1",
+      firedAt,
+      newId: "n1",
+      newEmail: "new@example.com",
+      oldEmail: "old@example.com",
+    }
+  );
+
+  assert.deepEqual(
+    parse("cleaned", { email: "gone@example.com", reason: "hard" }),
+    {
+      ...context,
+      type: "cleaned",
+      listId: "list1",
+      firedAt,
+      email: "gone@example.com",
+      reason: "hard",
+      campaignId: null,
+    }
+  );
+
+  assert.deepEqual(
+    parse("campaign", { id: "camp1", subject: "Hi", status: "sent" }),
+    {
+      ...context,
+      type: "campaign",
+      listId: "list1",
+      firedAt,
+      campaignId: "camp1",
+      subject: "Hi",
+      status: "sent",
+      reason: "",
+    }
+  );
+});
+
+test("parseWebhookPayload ignores payloads it doesn't recognise", () => {
+  const valid = {
+    type: "subscribe",
+    fired_at: "2024-05-01 09:30:15",
+    data: { list_id: "list1", email: "ann@example.com" },
+  };
+
+  assert.notEqual(parseWebhookPayload(valid, context), null);
+  assert.equal(parseWebhookPayload(undefined, context), null);
+  assert.equal(parseWebhookPayload("type=subscribe", context), null);
+  assert.equal(parseWebhookPayload({ ...valid, type: "other" }, context), null);
+  assert.equal(
+    parseWebhookPayload({ ...valid, data: undefined }, context),
+    null
+  );
+  assert.equal(
+    parseWebhookPayload({ ...valid, fired_at: "yesterday" }, context),
+    null
+  );
+  assert.equal(
+    parseWebhookPayload(
+      { ...valid, data: { email: "ann@example.com" } },
+      context
+    ),
+    null
+  );
+  assert.equal(
+    parseWebhookPayload({ ...valid, data: { list_id: "list1" } }, context),
+    null
+  );
+  assert.equal(
+    parseWebhookPayload(
+      {
+        ...valid,
+        type: "upemail",
+        data: { list_id: "list1", new_email: "x@example.com" },
+      },
+      context
+    ),
+    null
+  );
+});
@@ -0,0 +1,91 @@
+import { WebhookEvent, WebhookMember } from "../types/mailchimp";
+import { resolveScheduleTime } from "./schedule";
+
+const asString = (value: unknown): string =>
+  typeof value === "string" ? value : "";
+
+const asOptionalString = (value: unknown): string | null =>
+  typeof value === "string" && value !== "" ? value : null;
+
+// Helper function to map a payload's member fields to ours
+const toWebhookMember = (data: Record<string, any>): WebhookMember => ({
+  id: asString(data.id),
+  email: asString(data.email),
+  emailType: asString(data.email_type),
+  merges: data.merges && typeof data.merges === "object" ? data.merges : {},
+  ipOpt: asOptionalString(data.ip_opt),
+  ipSignup: asOptionalString(data.ip_signup),
+});
+
+// Parse a webhook POST. MailChimp sends form-encoded bodies with nested keys
+// (e.g. data[merges][FNAME]=Jane), which the urlencoded parser turns into
+// objects. Returns null when the payload isn't a recognised event.
+export const parseWebhookPayload = (
+  body: unknown,
+  context: { registrationId: string; accountId: string }
+): WebhookEvent | null => {
+  if (!body || typeof body !== "object") return null;
+
+  const { type, fired_at: firedAtValue, data } = body as Record<string, any>;
+  if (!data || typeof data !== "object") return null;
+
+  // fired_at is "YYYY-MM-DD HH:MM:SS" in UTC
+  const firedAt =
+    typeof firedAtValue === "string" ? resolveScheduleTime(firedAtValue) : null;
+  const listId = asString(data.list_id);
+  if (!firedAt || !listId) return null;
+
+  const base = { ...context, listId, firedAt };
+
+  switch (type) {
+    case "subscribe":
+    case "profile":
+      if (!data.email) return null;
+      return { ...base, type, member: toWebhookMember(data) };
+
+    case "unsubscribe":
+      if (!data.email) return null;
+      return {
+        ...base,
+        type,
+        member: toWebhookMember(data),
+        action: asString(data.action) || "unsub",
+        reason: asString(data.reason),
+        campaignId: asOptionalString(data.campaign_id),
+      };
+
+    case "upemail":
+      if (!data.new_email || !data.old_email) return null;
+      return {
+        ...base,
+        type,
+        newId: asString(data.new_id),
+        newEmail: asString(data.new_email),
+        oldEmail: asString(data.old_email),
+      };
+
+    case "cleaned":
+      if (!data.email) return null;
+      return {
+        ...base,
+        type,
+        email: asString(data.email),
+        reason: asString(data.reason),
+        campaignId: asOptionalString(data.campaign_id),
+      };
+
+    case "campaign":
+      if (!data.id) return null;
+      return {
+        ...base,
+        type,
+        campaignId: asString(data.id),
+        subject: asString(data.subject),
+        status: asString(data.status),
+        reason: asString(data.reason),
+      };
+
+    default:
+      return null;
+  }
+};